@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as manager from './modules/manager';
 import * as strings from './modules/utils/strings';
+import { DEBUG_TYPE } from './modules/processes/debug_adapter';
 
 /**
  * Entry point.
@@ -29,6 +30,30 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // **********************************************************
+  // Debugger
+  // **********************************************************
+
+  // Game debug adapter
+  context.subscriptions.push(
+    vscode.debug.registerDebugAdapterDescriptorFactory(DEBUG_TYPE, {
+      createDebugAdapterDescriptor: () => {
+        return new vscode.DebugAdapterInlineImplementation(
+          manager.createDebugAdapter()
+        );
+      },
+    })
+  );
+
+  // Game debug configuration provider
+  context.subscriptions.push(
+    vscode.debug.registerDebugConfigurationProvider(DEBUG_TYPE, {
+      resolveDebugConfiguration: (folder, config) => {
+        return manager.resolveDebugConfiguration(config);
+      },
+    })
+  );
+
   // **********************************************************
   // User commands
   // **********************************************************
@@ -86,6 +111,26 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // Restore the bundle file with all extracted scripts
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.restoreBundleFile',
+      () => {
+        manager.restoreBundleFile();
+      }
+    )
+  );
+
+  // Re-extract scripts from a restored bundle file
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.reExtractScripts',
+      () => {
+        manager.reExtractScripts();
+      }
+    )
+  );
+
   // Create a back up bundle file from extracted scripts
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -136,6 +181,33 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // Merge scripts from a bundle file
+  context.subscriptions.push(
+    vscode.commands.registerCommand('rgss-script-editor.mergeScripts', () => {
+      manager.mergeScripts();
+    })
+  );
+
+  // Compare bundle files
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.compareBundleFiles',
+      () => {
+        manager.compareBundleFiles();
+      }
+    )
+  );
+
+  // Verify a compiled bundle file against enabled scripts
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.verifyCompiledBundleFile',
+      () => {
+        manager.verifyCompiledBundleFile();
+      }
+    )
+  );
+
   // Run game command
   context.subscriptions.push(
     vscode.commands.registerCommand('rgss-script-editor.runGame', () => {
@@ -143,6 +215,13 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Run battle test command
+  context.subscriptions.push(
+    vscode.commands.registerCommand('rgss-script-editor.runBattleTest', () => {
+      manager.runBattleTest();
+    })
+  );
+
   // Process game exception
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -153,6 +232,66 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // Open bundle file as folder
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.openBundleFolder',
+      () => {
+        manager.openBundleFolder();
+      }
+    )
+  );
+
+  // Clear game exception history
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.clearExceptionHistory',
+      () => {
+        manager.clearExceptionHistory();
+      }
+    )
+  );
+
+  // Reload script in running game command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.reloadScript',
+      (what) => {
+        manager.reloadScript(what);
+      }
+    )
+  );
+
+  // Toggle scripts auto reload command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.toggleAutoReload',
+      () => {
+        manager.toggleAutoReload();
+      }
+    )
+  );
+
+  // Open game console command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.openGameConsole',
+      () => {
+        manager.openGameConsole();
+      }
+    )
+  );
+
+  // Choose launch profile command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.chooseLaunchProfile',
+      () => {
+        manager.chooseLaunchProfile();
+      }
+    )
+  );
+
   // Choose drop mode command
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -163,6 +302,36 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // Show method definitions command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.showMethodDefinitions',
+      () => {
+        manager.showMethodDefinitions();
+      }
+    )
+  );
+
+  // Refresh alias chains command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.refreshAliasChains',
+      () => {
+        manager.refreshAliasChains();
+      }
+    )
+  );
+
+  // Detect script conflicts command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'rgss-script-editor.detectScriptConflicts',
+      () => {
+        manager.detectScriptConflicts();
+      }
+    )
+  );
+
   // Open load order txt file.
   context.subscriptions.push(
     vscode.commands.registerCommand('rgss-script-editor.openLoadOrder', () => {
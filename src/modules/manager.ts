@@ -1,11 +1,22 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import * as context from './context/vscode_context';
 import * as strings from './utils/strings';
 import { FileSystemWatcher } from './utils/filewatcher';
-import { Configuration } from './utils/configuration';
+import { Configuration, PreLaunchAction } from './utils/configuration';
 import { logger } from './utils/logger';
 import { openFolder } from './processes/open_folder';
+import { BundleDiffStatus, diffBundles } from './processes/bundle_diff';
+import { buildAliasChains } from './processes/alias_chains';
+import { findShadowedMethods } from './processes/script_conflicts';
 import { GameplayController } from './processes/gameplay_controller';
+import { DEBUG_TYPE, GameDebugAdapter } from './processes/debug_adapter';
+import { GameChannel } from './processes/game_channel';
+import {
+  flattenRubySymbols,
+  METHOD_NAME_REGEXP,
+  RubySymbolKind,
+} from './processes/ruby_syntax';
 import {
   EditorSectionType,
   ControllerEditorMode,
@@ -39,47 +50,94 @@ type RefreshOptions = {
 };
 
 /**
- * Extension extensionConfig.
+ * Project type.
+ *
+ * Holds all controllers and watchers of a RPG Maker project folder.
  */
-const extensionConfig: Configuration = new Configuration();
+type Project = {
+  /**
+   * Project configuration.
+   */
+  config: Configuration;
+
+  /**
+   * Project scripts controller.
+   */
+  scripts: ScriptsController;
+
+  /**
+   * Project scripts controllers of the additional bundle files.
+   */
+  bundles: ScriptsController[];
+
+  /**
+   * Project gameplay controller.
+   */
+  gameplay: GameplayController;
+
+  /**
+   * Project scripts file system watcher.
+   */
+  scriptsWatcher: FileSystemWatcher;
+
+  /**
+   * Project scripts file system watchers of the additional bundle files.
+   */
+  bundlesWatchers: FileSystemWatcher[];
+
+  /**
+   * Project game output file system watcher.
+   */
+  gameWatcher: FileSystemWatcher;
+
+  /**
+   * Project game log records file system watcher.
+   */
+  recordsWatcher: FileSystemWatcher;
+
+  /**
+   * Project settings file system watcher.
+   */
+  configWatcher: FileSystemWatcher;
+};
 
 /**
- * Extension scripts controller.
+ * Extension opened projects.
  */
-const extensionScripts: ScriptsController = new ScriptsController();
+const extensionProjects: Project[] = [];
 
 /**
- * Extension gameplay controller.
+ * Extension active project.
+ *
+ * Commands are executed on this project.
  */
-const extensionGameplay: GameplayController = new GameplayController();
+let extensionProject: Project = createProject();
 
 /**
- * Extension extensionUI.
+ * Extension extensionConfig.
  */
-const extensionUI: ExtensionUI = new ExtensionUI();
+let extensionConfig: Configuration = extensionProject.config;
 
 /**
- * Extension scripts file system watcher
+ * Extension scripts controller.
  */
-const extensionScriptsWatcher: FileSystemWatcher = new FileSystemWatcher();
-
-// Sets extension scripts file system watcher callbacks
-extensionScriptsWatcher.onDidCreate((uri) => {
-  watcherScriptOnDidCreate(uri);
-});
-extensionScriptsWatcher.onDidDelete((uri) => {
-  watcherScriptOnDidDelete(uri);
-});
+let extensionScripts: ScriptsController = extensionProject.scripts;
 
 /**
- * Extension game output file system watcher
+ * Extension gameplay controller.
  */
-const extensionGameWatcher: FileSystemWatcher = new FileSystemWatcher();
+let extensionGameplay: GameplayController = extensionProject.gameplay;
 
-// Sets extension game output file system watcher callbacks
-extensionGameWatcher.onDidCreate((uri) => {
-  watcherGameOutputOnDidCreate(uri);
-});
+/**
+ * Extension extensionUI.
+ */
+const extensionUI: ExtensionUI = new ExtensionUI(
+  readBundleEntries,
+  readScriptSymbols,
+  readMethodDefinitions,
+  findScriptSection,
+  readAliasChains
+);
 
 /**
  * Extension start logic.
@@ -89,7 +147,15 @@ export async function restart() {
   logger.logInfo('Starting RGSS Script Editor...');
   let currentFolder = extensionConfig.getInfo();
   if (currentFolder) {
-    // Folder is opened already, open it again to refresh configuration
+    // Folders are opened already, open them again to refresh configuration
+    const folders = extensionProjects
+      .filter((project) => project !== extensionProject)
+      .map((project) => project.config.projectFolderPath!);
+    for (const folder of folders) {
+      await setProjectFolder(folder);
+    }
+
+    // The active project is opened last to keep it active
     await setProjectFolder(currentFolder.projectFolderPath);
   } else {
     // No folder opened, falls to quickstart
@@ -103,25 +169,29 @@ export async function restart() {
 
 /**
  * Quickstart extension.
+ *
+ * All valid RPG Maker folders of the current workspace are opened.
  * @returns A promise
  */
 export async function quickStart() {
   let validFolders = fetchWorkspaceFolders();
-  if (validFolders.length === 1) {
-    // Opens the folder if there is only one valid
-    let folder = validFolders[0];
-
-    logger.logInfo(`Detected "${folder.name}" as a RPG Maker project!`);
-    await setProjectFolder(folder.uri);
-  } else if (validFolders.length > 1) {
-    // Several valid RPG Maker projects were opened
-    logger.logInfo(
-      'Several valid RPG Maker folders were detected in the current workspace!'
-    );
+  if (validFolders.length > 0) {
+    if (validFolders.length > 1) {
+      // Several valid RPG Maker projects were opened
+      logger.logInfo(
+        'Several valid RPG Maker folders were detected in the current workspace!'
+      );
+      vscode.window.showInformationMessage(strings.QUICK_START_INFO);
+    }
 
-    vscode.window.showInformationMessage(strings.QUICK_START_INFO);
+    // Opens the folders, the first one is opened last to keep it active
+    for (const folder of validFolders.reverse()) {
+      logger.logInfo(`Detected "${folder.name}" as a RPG Maker project!`);
+      await setProjectFolder(folder.uri);
+    }
 
-    extensionUI.control({ changeProjectFolder: true });
+    // Activates the project of the current text editor
+    await updateTextEditor(vscode.window.activeTextEditor);
   } else {
     logger.logInfo(
       'No valid RPG Maker folder was detected in the current workspace'
@@ -133,19 +203,38 @@ export async function quickStart() {
 /**
  * Sets the extension working folder to the given one.
  *
+ * If the folder was not opened before, a new project is created for it, other opened projects are kept.
+ *
  * If the folder is valid the promise is resolved and the folder is set as active.
  *
  * If the folder is invalid the promise is rejected.
+ *
+ * If an opened project fails to open again, it is kept opened.
  * @param projectFolder Project folder Uri.
  * @returns A promise.
  */
 export async function setProjectFolder(projectFolder: vscode.Uri) {
+  const previousProject = extensionProject;
+  const existingProject = findOpenedProject(projectFolder);
+  const project = existingProject || createProject();
   try {
     logger.logInfo(`Changing project folder to: "${projectFolder.fsPath}"...`);
+    activateProject(project);
 
     // If the folder is invalid an error is thrown
     const folder = await extensionConfig.update(projectFolder);
 
+    // Loads the project settings file
+    loadProjectConfig();
+
+    // Update project settings filewatcher
+    await project.configWatcher.update(
+      new vscode.RelativePattern(
+        projectFolder,
+        Configuration.PROJECT_CONFIG_FILE
+      )
+    );
+
     // Updates logger
     logger.update(extensionConfig);
 
@@ -156,25 +245,36 @@ export async function setProjectFolder(projectFolder: vscode.Uri) {
     await extensionScripts.update(extensionConfig);
 
     // Update scripts filewatcher
-    await extensionScriptsWatcher.update(
+    await project.scriptsWatcher.update(
       new vscode.RelativePattern(extensionConfig.determineScriptsPath()!, '**')
     );
 
+    // Update additional bundle files
+    await updateBundles(project);
+
     // Update game filewatcher
-    await extensionGameWatcher.update(
+    await project.gameWatcher.update(
       new vscode.RelativePattern(
         extensionConfig.determineGameLogPath({ removeFilePart: true })!,
         Configuration.GAME_OUTPUT_FILE
       )
     );
 
+    // Update game log records filewatcher
+    await project.recordsWatcher.update(
+      new vscode.RelativePattern(
+        extensionConfig.determineGameRecordsPath({ removeFilePart: true })!,
+        Configuration.GAME_RECORDS_FILE
+      )
+    );
+
+    // Registers the project
+    if (!extensionProjects.includes(project)) {
+      extensionProjects.push(project);
+    }
+
     // Update extension's UI
-    await extensionUI.update({
-      treeRoot: extensionScripts.root,
-      statusBarOptions: {
-        projectFolder: folder.curProjectFolder.projectFolderName,
-      },
-    });
+    await updateUI();
 
     logger.logInfo(
       `Workspace folder "${folder.curProjectFolder.projectFolderName}" opened successfully!`
@@ -234,6 +334,9 @@ export async function setProjectFolder(projectFolder: vscode.Uri) {
       );
     }
 
+    // Checks all additional bundle files
+    await checkBundles();
+
     // Update UI visibility
     extensionUI.show();
   } catch (error) {
@@ -241,6 +344,29 @@ export async function setProjectFolder(projectFolder: vscode.Uri) {
     logger.logErrorUnknown(error);
     vscode.window.showErrorMessage(strings.SET_PROJECT_FAIL);
 
+    // Keeps projects that were already opened, their games may be running
+    if (existingProject && existingProject.config.isValid()) {
+      extensionUI.show();
+      return;
+    }
+
+    // Discards the invalid project
+    await disposeProject(project);
+    const index = extensionProjects.indexOf(project);
+    if (index !== -1) {
+      extensionProjects.splice(index, 1);
+    }
+
+    // Falls back to another opened project
+    const fallback = extensionProjects.includes(previousProject)
+      ? previousProject
+      : extensionProjects.at(0);
+    if (fallback) {
+      await switchProject(fallback);
+      return;
+    }
+    activateProject(createProject());
+
     // Updates extension context
     context.setOpenedProjectFolder(false);
     context.setExtractedScripts(false);
@@ -280,19 +406,27 @@ export async function openProjectFolder() {
  * @returns A promise
  */
 export async function extractScripts() {
+  // Gets the target bundle
+  const controller = await pickController();
+  if (!controller) {
+    return;
+  }
+
   try {
     // Extracts all scripts
-    let extractionResponse = await extensionScripts.extractScripts();
+    let extractionResponse = await controller.extractScripts();
 
     // Evaluate extraction
     if (extractionResponse === ScriptsController.SCRIPTS_EXTRACTED) {
       logger.logInfo('Scripts extracted successfully!');
 
       // Overwrites the bundle file with the loader script
-      let loaderResponse = await extensionScripts.createLoader();
+      let loaderResponse = await controller.createLoader();
 
       // Updates extension context.
-      context.setExtractedScripts(true);
+      if (controller === extensionScripts) {
+        context.setExtractedScripts(true);
+      }
 
       // Refresh editor view
       await refresh();
@@ -301,7 +435,9 @@ export async function extractScripts() {
         "Extraction not needed, there aren't scripts left in the bundle file!"
       );
     } else {
-      context.setExtractedScripts(false);
+      if (controller === extensionScripts) {
+        context.setExtractedScripts(false);
+      }
       logger.logWarning(
         `Extraction returned an unknown code: ${extractionResponse}`
       );
@@ -309,7 +445,9 @@ export async function extractScripts() {
       showBasicErrorMessage();
     }
   } catch (error: unknown) {
-    context.setExtractedScripts(false);
+    if (controller === extensionScripts) {
+      context.setExtractedScripts(false);
+    }
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
   }
@@ -320,6 +458,12 @@ export async function extractScripts() {
  */
 export async function importScripts() {
   try {
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
+      return;
+    }
+
     if (!extensionConfig.isValid()) {
       return;
     }
@@ -347,7 +491,7 @@ export async function importScripts() {
     let bundleFile = target[0];
 
     // Import scripts
-    let importResponse = await extensionScripts.importScripts(bundleFile);
+    let importResponse = await controller.importScripts(bundleFile);
     if (importResponse === ScriptsController.SCRIPTS_IMPORTED) {
       // Refresh editor view
       logger.logInfo('All scripts were imported successfully!');
@@ -367,7 +511,13 @@ export async function importScripts() {
  */
 export async function openLoadOrderFile() {
   try {
-    let loadOrderFile = extensionScripts.loadOrderFilePath;
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
+      return;
+    }
+
+    let loadOrderFile = controller.loadOrderFilePath;
     if (loadOrderFile) {
       vscode.commands.executeCommand('vscode.open', loadOrderFile);
     }
@@ -377,13 +527,107 @@ export async function openLoadOrderFile() {
   }
 }
 
+/**
+ * Refreshes the alias chains of the enabled scripts.
+ * @returns A promise
+ */
+export async function refreshAliasChains() {
+  try {
+    extensionUI.refreshAliasChains();
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Shows all definitions of the method at the cursor of the active text editor.
+ *
+ * Definitions are listed in load order, the one used at runtime is marked.
+ * @returns A promise
+ */
+export async function showMethodDefinitions() {
+  try {
+    const editor = vscode.window.activeTextEditor;
+    const range = editor?.document.getWordRangeAtPosition(
+      editor.selection.active,
+      METHOD_NAME_REGEXP
+    );
+
+    // Checks method validness
+    if (!editor || !range) {
+      vscode.window.showInformationMessage(strings.METHOD_DEFINITIONS_INVALID);
+      return;
+    }
+    const name = editor.document.getText(range);
+    const definitions = readMethodDefinitions(editor.document.uri, name) ?? [];
+    if (definitions.length === 0) {
+      vscode.window.showInformationMessage(
+        vscode.l10n.t(strings.METHOD_DEFINITIONS_NOT_FOUND, name)
+      );
+      return;
+    }
+
+    // Asks the user for the definition
+    const item = await vscode.window.showQuickPick(
+      definitions.map((definition) => {
+        return {
+          label: `${definition.active ? '$(check)' : '$(blank)'} ${
+            definition.fullName
+          }`,
+          description: `${vscode.workspace.asRelativePath(
+            definition.section.resourceUri
+          )}:${definition.symbol.nameRange.start.line}`,
+          detail: definition.active
+            ? strings.METHOD_DEFINITIONS_ACTIVE
+            : definition.section.isLoaded()
+            ? strings.METHOD_DEFINITIONS_OVERRIDDEN
+            : strings.METHOD_DEFINITIONS_DISABLED,
+          definition: definition,
+        };
+      }),
+      {
+        title: vscode.l10n.t(strings.METHOD_DEFINITIONS_TITLE, name),
+        canPickMany: false,
+        matchOnDescription: true,
+      }
+    );
+
+    // Checks item validness
+    if (!item) {
+      return;
+    }
+
+    // Opens the definition
+    const start = item.definition.symbol.nameRange.start;
+    const end = item.definition.symbol.nameRange.end;
+    await vscode.window.showTextDocument(item.definition.section.resourceUri, {
+      selection: new vscode.Range(
+        start.line - 1,
+        start.column,
+        end.line - 1,
+        end.column
+      ),
+    });
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
 /**
  * Asynchronously creates the bundle script loader file for RPG Maker engine
  * @returns A promise
  */
 export async function createScriptLoader() {
   try {
-    let extractedResponse = await extensionScripts.checkScripts();
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
+      return;
+    }
+
+    let extractedResponse = await controller.checkScripts();
     if (extractedResponse === ScriptsController.SCRIPTS_NOT_EXTRACTED) {
       logger.logError(
         'Cannot create script loader because RPG Maker bundle file still has valid scripts inside of it!'
@@ -396,7 +640,7 @@ export async function createScriptLoader() {
     }
 
     // Overwrite bundle file with the script loader
-    let loaderResponse = await extensionScripts.createLoader();
+    let loaderResponse = await controller.createLoader();
     if (loaderResponse === ScriptsController.LOADER_BUNDLE_CREATED) {
       logger.logInfo('Script loader bundle file created successfully!');
       vscode.window.showInformationMessage(strings.SCRIPT_LOADER_SUCCESS);
@@ -411,6 +655,124 @@ export async function createScriptLoader() {
   }
 }
 
+/**
+ * Restores the RPG Maker bundle file with all editor sections.
+ *
+ * The script loader is replaced so the project can be used with the RPG Maker built-in editor.
+ *
+ * Before restoring, this function asks the user for confirmation.
+ * @returns A promise
+ */
+export async function restoreBundleFile() {
+  try {
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
+      return;
+    }
+
+    let option = await vscode.window.showWarningMessage(
+      strings.RESTORE_BUNDLE_WARNING,
+      { modal: true },
+      strings.RESTORE_BUNDLE_OPT_RESTORE
+    );
+
+    // Checks if user confirmed the operation
+    if (option !== strings.RESTORE_BUNDLE_OPT_RESTORE) {
+      return;
+    }
+
+    // Overwrite bundle file with all editor sections
+    let response = await controller.restoreBundle();
+    if (response === ScriptsController.BUNDLE_RESTORED) {
+      logger.logInfo('The bundle file was restored successfully!');
+      logger.logInfo(
+        'Scripts can be edited with the RPG Maker built-in editor, re-extract them to keep working with this extension'
+      );
+      if (controller === extensionScripts) {
+        context.setExtractedScripts(false);
+      }
+      vscode.window.showInformationMessage(strings.RESTORE_BUNDLE_SUCCESS);
+    } else {
+      logger.logError(`Bundle file restoration reported an unknown code!`);
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Extracts all scripts again from a restored bundle file.
+ *
+ * The current editor sections are overwritten with the bundle file contents.
+ *
+ * Before extracting, this function asks the user for confirmation.
+ * @returns A promise
+ */
+export async function reExtractScripts() {
+  try {
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
+      return;
+    }
+
+    let option = await vscode.window.showWarningMessage(
+      strings.REEXTRACT_WARNING,
+      { modal: true },
+      strings.REEXTRACT_OPT_EXTRACT
+    );
+
+    // Checks if user confirmed the operation
+    if (option !== strings.REEXTRACT_OPT_EXTRACT) {
+      return;
+    }
+
+    // Backs up the current load order before overwriting it
+    const backUpFilePath = extensionConfig.processLoadOrderBackupFilePath(
+      Configuration.BACKUP_LOAD_ORDER_FILE_NAME
+    );
+    if (backUpFilePath) {
+      await controller.createLoadOrderBackUp(backUpFilePath);
+    }
+
+    // Extracts all scripts overwriting the current editor sections
+    let extractionResponse = await controller.extractScripts({
+      overwrite: true,
+    });
+
+    // Evaluate extraction
+    if (extractionResponse === ScriptsController.SCRIPTS_EXTRACTED) {
+      logger.logInfo('Scripts re-extracted successfully!');
+
+      // Overwrites the bundle file with the loader script
+      await controller.createLoader();
+
+      // Updates extension context.
+      if (controller === extensionScripts) {
+        context.setExtractedScripts(true);
+      }
+
+      // Refresh editor view
+      await refresh();
+      vscode.window.showInformationMessage(strings.REEXTRACT_SUCCESS);
+    } else if (extractionResponse === ScriptsController.SCRIPTS_NOT_EXTRACTED) {
+      logger.logInfo(
+        "Extraction not needed, there aren't scripts left in the bundle file!"
+      );
+    } else {
+      logger.logWarning(
+        `Extraction returned an unknown code: ${extractionResponse}`
+      );
+      showBasicErrorMessage();
+    }
+  } catch (error: unknown) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
 /**
  * Creates a backup bundle file from all extracted scripts available.
  *
@@ -498,6 +860,12 @@ export async function createBackUpLoadOrder() {
  */
 export async function createBundleFile() {
   try {
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
+      return;
+    }
+
     // Gets the project folder
     const projectFolder = extensionConfig.projectFolderPath;
 
@@ -515,12 +883,12 @@ export async function createBundleFile() {
     const bundleFilePath = extensionConfig.processExtension(destination);
 
     // Create bundle file
-    const loadedSections = extensionScripts.root.filterChildren(
+    const loadedSections = controller.root.filterChildren(
       (section) => section.isLoaded(),
       true
     );
 
-    let response = await extensionScripts.createBundle(
+    let response = await controller.createBundle(
       loadedSections,
       bundleFilePath
     );
@@ -601,10 +969,16 @@ export async function createSelectedBundleFile() {
  */
 export async function compileBundleFile() {
   try {
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
+      return;
+    }
+
     logger.logInfo('Compiling scripts...');
 
     // Creates destination path
-    const destination = extensionConfig.determineScriptsCompilePath();
+    const destination = determineCompilePath(controller);
 
     // Checks destination validness
     if (!destination) {
@@ -614,22 +988,14 @@ export async function compileBundleFile() {
       return;
     }
 
+    // Checks scripts syntax validness
+    if (!checkScriptsSyntax(controller)) {
+      return;
+    }
+
     // Create bundle file
-    const loadedSections = extensionScripts.root.filterChildren(
-      (section) => section.isLoaded(),
-      true
-    );
-    let response = await extensionScripts.createBundle(
-      loadedSections,
-      destination
-    );
-    if (response === ScriptsController.BUNDLE_CREATED) {
-      logger.logInfo(
-        `Bundle file compiled successfully at: "${destination.fsPath}"`
-      );
+    if (await compileScripts(controller, destination)) {
       vscode.window.showInformationMessage(strings.COMPILE_SCRIPT_SUCCESS);
-    } else {
-      logger.logError(`Bundle file compilation reported an unknown code!`);
     }
   } catch (error) {
     logger.logErrorUnknown(error);
@@ -638,76 +1004,113 @@ export async function compileBundleFile() {
 }
 
 /**
- * Runs the game executable if the there is an active project folder set
+ * Merges the scripts of a bundle file into the current script editor.
+ *
+ * Sections are matched against the current editor sections, modified scripts are
+ * updated in place and new sections are inserted in the load order.
+ *
+ * Before merging, the user can choose which changes are applied.
  * @returns A promise
  */
-export async function runGame() {
-  try {
-    let pid = await extensionGameplay.runGame();
-    logger.logInfo(`Game executable launched successfully with PID: ${pid}`);
-  } catch (error) {
-    logger.logErrorUnknown(error);
-    showBasicErrorMessage();
-  }
-}
-
-/**
- * Asynchronously process the exception got from the last game session.
- * @returns A promise.
- */
-export async function processGameException() {
+export async function mergeScripts() {
   try {
-    logger.logInfo('Processing game exception...');
-    let exception = extensionGameplay.lastException;
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
+      return;
+    }
 
-    // Check exception existence
-    if (!exception) {
-      logger.logInfo('No exception was reported in the last game session!');
-      vscode.window.showInformationMessage(
-        vscode.l10n.t(strings.PROCESS_EXCEPTION_NO_REPORT)
-      );
+    if (!extensionConfig.isValid()) {
       return;
     }
 
-    // Ask the user to whether process the exception or not
-    let option: string | undefined = '';
-    if (extensionConfig.configGameErrorAutoProcess()) {
-      option = strings.PROCESS_EXCEPTION_OPT_PEEK;
-    } else {
-      option = await vscode.window.showWarningMessage(
-        strings.PROCESS_EXCEPTION_WARNING,
-        strings.PROCESS_EXCEPTION_OPT_PEEK,
-        strings.CLOSE
-      );
-    }
+    // Gets the target bundle file
+    const target = await vscode.window.showOpenDialog({
+      defaultUri: extensionConfig.projectFolderPath,
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+    });
 
-    // Checks option peek validness
-    if (option !== strings.PROCESS_EXCEPTION_OPT_PEEK) {
+    // Checks bundle file validness
+    if (!target) {
+      logger.logError(`You must select a valid bundle file to merge scripts!`);
       return;
     }
 
-    // Shows the exception in a new text document besides the main editor if allowed.
-    if (extensionConfig.configGameErrorShowEditor()) {
-      let doc = await vscode.workspace.openTextDocument({
-        language: 'markdown',
-        content: exception.markdown(),
+    // Determines all changes
+    const changes = controller.determineMergeChanges(target[0]);
+
+    // Previews the changes before anything is written
+    // Removed sections are not chosen by default since their files are deleted
+    const items = changes
+      .filter(
+        (change) =>
+          change.status === BundleDiffStatus.Added ||
+          change.status === BundleDiffStatus.Modified ||
+          change.status === BundleDiffStatus.Removed ||
+          change.loadChanged
+      )
+      .map((change) => {
+        const status: string[] = [];
+        switch (change.status) {
+          case BundleDiffStatus.Added: {
+            status.push(strings.COMPARE_STATUS_ADDED);
+            break;
+          }
+          case BundleDiffStatus.Removed: {
+            status.push(strings.COMPARE_STATUS_REMOVED);
+            break;
+          }
+          case BundleDiffStatus.Modified: {
+            status.push(strings.COMPARE_STATUS_MODIFIED);
+            break;
+          }
+        }
+        if (change.loadChanged) {
+          status.push(
+            change.loaded ? strings.MERGE_ENABLED : strings.MERGE_DISABLED
+          );
+        }
+        return {
+          label: change.bundleSection
+            ? change.bundleSection.name || strings.MERGE_UNNAMED
+            : controller.root.relative(change.section!.resourceUri),
+          description: status.join(', '),
+          detail: change.section?.resourceUri.fsPath,
+          picked: change.status !== BundleDiffStatus.Removed,
+          change: change,
+        };
       });
-      await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside, true);
+    if (items.length === 0) {
+      logger.logInfo('There are no changes to merge!');
+      vscode.window.showInformationMessage(strings.MERGE_NO_CHANGES);
+      return;
+    }
+    const picks = await vscode.window.showQuickPick(items, {
+      title: strings.MERGE_TITLE,
+      placeHolder: strings.MERGE_PLACEHOLDER,
+      canPickMany: true,
+      ignoreFocusOut: true,
+    });
+    if (!picks) {
+      return;
     }
 
-    // Opens the peek menu to backtrace.
-    await vscode.commands.executeCommand(
-      'editor.action.peekLocations',
-      vscode.Uri.file(exception.backtrace[0].file),
-      new vscode.Position(exception.backtrace[0].line - 1, 0),
-      exception.backtrace.map((info) => {
-        return new vscode.Location(
-          vscode.Uri.file(info.file),
-          new vscode.Position(info.line - 1, 0)
-        );
-      }),
-      'gotoAndPeek'
+    // Merges the chosen changes
+    const response = await controller.mergeScripts(
+      changes,
+      picks.map((pick) => pick.change)
     );
+    if (response === ScriptsController.SCRIPTS_MERGED) {
+      logger.logInfo('All scripts were merged successfully!');
+      await refresh();
+      vscode.window.showInformationMessage(
+        vscode.l10n.t(strings.MERGE_SUCCESS, picks.length)
+      );
+    } else {
+      logger.logError('Merge operation returned an unknown code!');
+    }
   } catch (error) {
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
@@ -715,90 +1118,34 @@ export async function processGameException() {
 }
 
 /**
- * Creates a new editor section in the specified section.
- * @param section Editor section
+ * Opens a bundle file as a read-only folder in the current workspace.
+ *
+ * Each section of the bundle file is shown as it would be extracted.
  * @returns A promise
  */
-export async function sectionCreate(section?: EditorSectionBase) {
+export async function openBundleFolder() {
   try {
-    // Checks if user is creating a section from the view more actions submenu
-    // if creating from the submenu, section is like '{ preserveFocus: false }'
-    let sectionTemp = section
-      ? 'preserveFocus' in section
-        ? extensionScripts.root
-        : section
-      : section;
-    // Determines the appropiate target
-    let selected = extensionUI.getTreeSelection();
-    let target = sectionTemp ? sectionTemp : selected ? selected[0] : undefined;
-
-    // Check target validness
-    if (!target) {
-      return;
-    }
-
-    // Prepare creation input
-    let type: EditorSectionType | undefined = undefined;
-    let name: string | undefined = undefined;
-
-    // Determine section type
-    let typeOption = await vscode.window.showQuickPick(
-      [
-        strings.CREATE_TYPE_OPT_SCRIPT,
-        strings.CREATE_TYPE_OPT_FOLDER,
-        strings.CREATE_TYPE_OPT_SEPARATOR,
-      ],
-      {
-        title: vscode.l10n.t(strings.CREATE_TYPE_TITLE, target.toString()),
-        placeHolder: strings.CREATE_TYPE_PLACEHOLDER,
-        canPickMany: false,
-      }
-    );
-
-    // Evaluates new section type
-    switch (typeOption) {
-      case strings.CREATE_TYPE_OPT_SEPARATOR: {
-        type = EditorSectionType.Separator;
-        name = '*separator*';
-        break;
-      }
-      case strings.CREATE_TYPE_OPT_FOLDER: {
-        type = EditorSectionType.Folder;
-        break;
-      }
-      case strings.CREATE_TYPE_OPT_SCRIPT: {
-        type = EditorSectionType.Script;
-        break;
-      }
-      default: {
-        type = undefined;
-        break;
-      }
-    }
-
-    // Determine section name (if not set automatically)
-    if (type && !name) {
-      name = await vscode.window.showInputBox({
-        title: vscode.l10n.t(strings.CREATE_NAME_TITLE, target.toString()),
-        placeHolder: strings.CREATE_NAME_PLACEHOLDER,
-        validateInput(value) {
-          let info = extensionScripts.determineSectionInfo(type, value, target);
-          return validateUserInput(info.parent, info.uri, value);
-        },
-      });
-    }
-
-    // Check user input validness
-    if (!name || !type) {
+    const bundleFile = (
+      await vscode.window.showOpenDialog({
+        defaultUri: extensionConfig.projectFolderPath,
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        filters: { 'RPG Maker Bundle': ['rxdata', 'rvdata', 'rvdata2'] },
+        title: strings.OPEN_BUNDLE_FOLDER_TITLE,
+      })
+    )?.at(0);
+    if (!bundleFile) {
       return;
     }
 
-    // Create new section
-    let info = extensionScripts.determineSectionInfo(type, name, target);
-    if (info) {
-      logger.logInfo(`Creating section: "${info.uri.fsPath}"`);
-      extensionScripts.sectionCreate(info, { checkboxState: true });
-      await refresh();
+    // Checks bundle file validness (may throw an error)
+    logger.logInfo(`Opening bundle file: "${bundleFile.fsPath}" as a folder`);
+    extensionScripts.readBundleEntries(bundleFile);
+    if (!extensionUI.openBundleFolder(bundleFile)) {
+      throw new Error(
+        `Cannot open the bundle file: "${bundleFile.fsPath}" as a workspace folder!`
+      );
     }
   } catch (error) {
     logger.logErrorUnknown(error);
@@ -807,35 +1154,90 @@ export async function sectionCreate(section?: EditorSectionBase) {
 }
 
 /**
- * Deletes the given editor section or all editor sections selected in the editor.
+ * Compares a bundle file with the script editor or with another bundle file.
  *
- * Before deletion is done, this function asks the user for confirmation.
- * @param section Editor section
+ * All differences are shown in a multi-diff editor.
  * @returns A promise
  */
-export async function sectionDelete(section?: EditorSectionBase) {
+export async function compareBundleFiles() {
   try {
-    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
-    let option = await vscode.window.showQuickPick(
-      [strings.DELETE_OPT_DELETE, strings.DELETE_OPT_CANCEL],
-      {
-        title: vscode.l10n.t(strings.DELETE_TITLE, items.toString()),
-        placeHolder: strings.DELETE_PLACEHOLDER,
-        canPickMany: false,
-      }
+    // Gets the comparison mode
+    const mode = await vscode.window.showQuickPick(
+      [strings.COMPARE_OPT_EDITOR, strings.COMPARE_OPT_BUNDLES],
+      { placeHolder: strings.COMPARE_PLACEHOLDER }
     );
+    if (!mode) {
+      return;
+    }
 
-    // Checks if user confirmed deletion
-    if (option !== strings.DELETE_OPT_DELETE) {
+    // Checks project validness when comparing with the script editor
+    if (mode === strings.COMPARE_OPT_EDITOR && !extensionConfig.isValid()) {
+      logger.logError(
+        'You must open a RPG Maker project to compare it with a bundle file!'
+      );
       return;
     }
 
-    // Delete selected sections
-    for (let item of items) {
-      logger.logInfo(`Deleting section: "${item.resourceUri.fsPath}"`);
-      extensionScripts.sectionDelete(item);
+    // Gets the original bundle file (the script editor is the original one)
+    let original: vscode.Uri | undefined = undefined;
+    if (mode === strings.COMPARE_OPT_BUNDLES) {
+      original = (
+        await vscode.window.showOpenDialog({
+          defaultUri: extensionConfig.projectFolderPath,
+          canSelectFiles: true,
+          canSelectFolders: false,
+          canSelectMany: false,
+          title: strings.COMPARE_ORIGINAL_TITLE,
+        })
+      )?.at(0);
+      if (!original) {
+        logger.logError('You must select a valid bundle file to compare!');
+        return;
+      }
     }
-    await refresh();
+
+    // Gets the modified bundle file
+    const modified = (
+      await vscode.window.showOpenDialog({
+        defaultUri: original || extensionConfig.projectFolderPath,
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        title: strings.COMPARE_MODIFIED_TITLE,
+      })
+    )?.at(0);
+    if (!modified) {
+      logger.logError('You must select a valid bundle file to compare!');
+      return;
+    }
+
+    // Computes the differences
+    logger.logInfo(
+      `Comparing "${original?.fsPath || 'script editor'}" with "${
+        modified.fsPath
+      }"...`
+    );
+    const originalLabel = original
+      ? path.basename(original.fsPath)
+      : strings.COMPARE_EDITOR_LABEL;
+    const entries = diffBundles(
+      original
+        ? extensionScripts.readBundleSections(original)
+        : extensionScripts.readEditorSections(),
+      extensionScripts.readBundleSections(modified)
+    );
+
+    // Checks if there are differences
+    if (entries.every((entry) => entry.status === BundleDiffStatus.Unchanged)) {
+      logger.logInfo('No differences were found!');
+      vscode.window.showInformationMessage(strings.COMPARE_NO_DIFFERENCES);
+      return;
+    }
+
+    // Shows the differences
+    await extensionUI.showBundleDiff(entries, {
+      title: vscode.l10n.t(strings.COMPARE_TITLE, originalLabel),
+    });
   } catch (error) {
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
@@ -843,50 +1245,50 @@ export async function sectionDelete(section?: EditorSectionBase) {
 }
 
 /**
- * Ask the user for a new name and renames the given editor section to the new name.
- * @param section Editor section
+ * Verifies that a compiled bundle file matches the current enabled scripts.
+ *
+ * The user is asked to choose the bundle file, the compile destination is suggested by default.
  * @returns A promise
  */
-export async function sectionRename(section?: EditorSectionBase) {
+export async function verifyCompiledBundleFile() {
   try {
-    let selected = extensionUI.getTreeSelection();
-    let item = section ? section : selected ? selected[0] : undefined;
-
-    // Check item validness
-    if (!item || item.isType(EditorSectionType.Separator)) {
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
       return;
     }
 
-    // Determine section name
-    let name = await vscode.window.showInputBox({
-      title: vscode.l10n.t(strings.RENAME_TITLE, item.toString()),
-      placeHolder: strings.RENAME_PLACEHOLDER,
-      value: item.label?.toString(),
-      validateInput(value) {
-        let uri = extensionScripts.determineSectionUri(
-          item.parent!.resourceUri,
-          item.type,
-          value
-        );
-        return validateUserInput(item.parent!, uri, value);
-      },
+    // Gets the target bundle file
+    const target = await vscode.window.showOpenDialog({
+      defaultUri: determineCompilePath(controller),
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
     });
 
-    // Checks name input validness
-    if (!name) {
+    // Checks bundle file validness
+    if (!target) {
+      logger.logError(`You must select a valid bundle file to verify it!`);
       return;
     }
 
-    // Rename section
-    let uri = extensionScripts.determineSectionUri(
-      item.getDirectory(),
-      item.type,
-      name
+    // Verify bundle file
+    const loadedSections = controller.root.filterChildren(
+      (section) => section.isLoaded(),
+      true
     );
-
-    logger.logInfo(`Renaming section: "${item}" to: "${uri.fsPath}"`);
-    extensionScripts.sectionRename(item, uri);
-    await refresh({ treeItem: item });
+    let response = await controller.verifyBundle(loadedSections, target[0], {
+      deterministic: extensionConfig.configDeterministicCompile(),
+    });
+    if (response === ScriptsController.BUNDLE_VERIFIED) {
+      logger.logInfo(`Bundle file matches the enabled scripts!`);
+      vscode.window.showInformationMessage(strings.VERIFY_BUNDLE_SUCCESS);
+    } else if (response === ScriptsController.BUNDLE_MISMATCH) {
+      logger.logWarning(`Bundle file does not match the enabled scripts!`);
+      vscode.window.showWarningMessage(strings.VERIFY_BUNDLE_MISMATCH);
+    } else {
+      logger.logError(`Bundle file verification reported an unknown code!`);
+    }
   } catch (error) {
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
@@ -894,27 +1296,55 @@ export async function sectionRename(section?: EditorSectionBase) {
 }
 
 /**
- * Processes a drag and drop move operation on the tree.
+ * Detects the method definitions of the enabled scripts shadowed by a later script.
  *
- * All sections in ``source`` will be moved into the ``target`` section.
- * @param source List of sections (drag)
- * @param target Target section (drop)
+ * A report grouped by script pair is written in the output channel and the
+ * shadowed definitions are shown in the problems panel.
+ * @returns A promise
  */
-export async function sectionMove(
-  source?: EditorSectionBase[],
-  target?: EditorSectionBase
-) {
+export async function detectScriptConflicts() {
   try {
-    // Checks validness
-    if (!source || !target) {
+    // Gets the target bundle
+    const controller = await pickController();
+    if (!controller) {
       return;
     }
 
-    // Perform move operation
-    if (extensionScripts.sectionMove(source, target)) {
-      logger.logInfo(`Moved: "${source}" to: "${target}"`);
-      await refresh();
+    // Finds the shadowed methods in load order
+    const loadedSections = controller.root.filterChildren(
+      (section) => section.isLoaded(),
+      true
+    );
+    const conflicts = findShadowedMethods(
+      controller.readSymbols(loadedSections)
+    );
+    extensionUI.showConflictDiagnostics(conflicts);
+    if (conflicts.length === 0) {
+      logger.logInfo(`No shadowed method definitions were found!`);
+      vscode.window.showInformationMessage(strings.SCRIPT_CONFLICTS_NONE);
+      return;
     }
+
+    // Reports the shadowed methods of each script pair
+    let count = 0;
+    conflicts.forEach((conflict) => {
+      logger.logWarning(
+        `Script: "${controller.root.relative(
+          conflict.shadowed.resourceUri
+        )}" is shadowed by script: "${controller.root.relative(
+          conflict.shadowing.resourceUri
+        )}"`
+      );
+      conflict.methods.forEach((method) => {
+        logger.logWarning(
+          `  ${method.name} (line ${method.shadowed.nameRange.start.line}) is redefined at line ${method.shadowing.nameRange.start.line}`
+        );
+      });
+      count += conflict.methods.length;
+    });
+    vscode.window.showWarningMessage(
+      vscode.l10n.t(strings.SCRIPT_CONFLICTS_FOUND, count)
+    );
   } catch (error) {
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
@@ -922,26 +1352,21 @@ export async function sectionMove(
 }
 
 /**
- * Cuts the given editor section or all editor sections selected on the tree view to the clipboard.
+ * Runs the game executable if the there is an active project folder set
  *
- * @param section Section
+ * The pre-launch action of the active launch profile is executed before running the game.
+ *
+ * The game is not launched if the syntax check is enabled and any script is invalid.
  * @returns A promise
  */
-export async function sectionCut(section?: EditorSectionBase) {
+export async function runGame() {
   try {
-    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
-
-    // Checks validness
-    if (!items) {
+    if (!checkScriptsSyntax(extensionScripts)) {
       return;
     }
-
-    // Creates mutable array
-    const itemsArray = Array.from(items);
-
-    // Perform the copy operation
-    logger.logInfo(`Cutting: "${items}"`);
-    extensionScripts.sectionCut(itemsArray);
+    await runPreLaunchAction();
+    let pid = await extensionGameplay.runGame();
+    logger.logInfo(`Game executable launched successfully with PID: ${pid}`);
   } catch (error) {
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
@@ -949,26 +1374,51 @@ export async function sectionCut(section?: EditorSectionBase) {
 }
 
 /**
- * Copies the given editor section or all editor sections selected on the tree view to the clipboard.
+ * Runs the game executable in battle test mode.
  *
- * @param section Section
+ * The user chooses the troop to fight against, the test party is the one set in the RPG Maker editor.
  * @returns A promise
  */
-export async function sectionCopy(section?: EditorSectionBase) {
+export async function runBattleTest() {
   try {
-    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
-
-    // Checks validness
-    if (!items) {
+    const troops = extensionGameplay.readTroops();
+    if (troops.length === 0) {
+      vscode.window.showInformationMessage(strings.BATTLE_TEST_NO_TROOPS);
       return;
     }
 
-    // Creates mutable array
-    const itemsArray = Array.from(items);
+    // Asks the user for the troop
+    const item = await vscode.window.showQuickPick(
+      troops.map((troop) => {
+        return {
+          label: `${troop.id.toString().padStart(3, '0')}: ${troop.name}`,
+          id: troop.id,
+        };
+      }),
+      {
+        title: strings.BATTLE_TEST_TITLE,
+        canPickMany: false,
+      }
+    );
 
-    // Perform the copy operation
-    logger.logInfo(`Copying: "${items}"`);
-    extensionScripts.sectionCopy(itemsArray);
+    // Checks item validness
+    if (!item) {
+      return;
+    }
+
+    // Checks scripts syntax validness
+    if (!checkScriptsSyntax(extensionScripts)) {
+      return;
+    }
+
+    // Prepares the battle test data and runs the game
+    const battlers = extensionGameplay.createBattleTestData(item.id);
+    if (battlers === 0) {
+      vscode.window.showWarningMessage(strings.BATTLE_TEST_NO_BATTLERS);
+    }
+    await runPreLaunchAction();
+    let pid = await extensionGameplay.runGame({ battleTest: true });
+    logger.logInfo(`Battle test launched successfully with PID: ${pid}`);
   } catch (error) {
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
@@ -976,25 +1426,55 @@ export async function sectionCopy(section?: EditorSectionBase) {
 }
 
 /**
- * Pastes all sections in the clipboard on the given target
- * @param section Target section
+ * Chooses the launch profile used to run the game.
+ *
+ * The default profile uses the gameplay settings.
  * @returns A promise
  */
-export async function sectionPaste(section?: EditorSectionBase) {
+export async function chooseLaunchProfile() {
   try {
-    // Determines the appropiate target
-    let selected = extensionUI.getTreeSelection();
-    let target = section ? section : selected ? selected.at(-1) : undefined;
+    const active = extensionConfig.determineLaunchProfile()?.name ?? '';
+    const profiles = [
+      {
+        label: strings.UI_LAUNCH_PROFILE_DEFAULT,
+        description: strings.LAUNCH_PROFILE_DEFAULT_DESCRIPTION,
+        name: '',
+      },
+      ...extensionConfig.determineLaunchProfiles().map((profile) => {
+        return {
+          label: profile.name,
+          description: profile.executablePath,
+          detail: profile.arguments?.join(' '),
+          name: profile.name,
+        };
+      }),
+    ];
+
+    // The active launch profile is marked with a check icon
+    const item = await vscode.window.showQuickPick(
+      profiles.map((profile) => {
+        return {
+          ...profile,
+          label:
+            profile.name === active
+              ? `$(check) ${profile.label}`
+              : profile.label,
+        };
+      }),
+      {
+        title: strings.LAUNCH_PROFILE_TITLE,
+        canPickMany: false,
+      }
+    );
 
-    // Checks validness
-    if (!target) {
+    // Checks item validness
+    if (!item) {
       return;
     }
 
-    logger.logInfo(`Paste target: "${target}"`);
-    if (extensionScripts.sectionPaste(target)) {
-      await refresh();
-    }
+    // Updates the active launch profile
+    await extensionConfig.updateLaunchProfile(item.name);
+    logger.logInfo(`Launch profile set to: "${item.name}"`);
   } catch (error) {
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
@@ -1002,56 +1482,60 @@ export async function sectionPaste(section?: EditorSectionBase) {
 }
 
 /**
- * Toggles the load status (checkbox) of the given element or elements.
+ * Reloads the given script section in the running game.
  *
- * If a {@link ToggleLoadMatrix} is given, it must be an array with the section
- * instance along with the checkbox status.
+ * The script can be given as an editor section or as the uri of its file (editor context menu).
  *
- * If a single element is given, it will check the current tree selection and toggle
- * the checkbox of the given element or the list of selected elements accordingly.
- * @param section Editor section
+ * If no script is given, the script opened in the active text editor is reloaded.
+ *
+ * The script file is saved before reloading it if it has unsaved changes.
+ * @param section Editor section or script uri
  * @returns A promise
  */
-export async function sectionToggleLoad(
-  section?: EditorSectionBase | ToggleLoadMatrix
-) {
+export async function reloadScript(section?: EditorSectionBase | vscode.Uri) {
   try {
-    let toggleMatrix: ToggleLoadMatrix = [];
+    const uri =
+      section instanceof vscode.Uri
+        ? section
+        : section
+        ? section.resourceUri
+        : vscode.window.activeTextEditor?.document.uri;
+    const item = uri && extensionScripts.sectionFind(uri);
 
-    // Handles arguments
-    if (section instanceof Array) {
-      toggleMatrix = section;
-    } else {
-      // This is used to determine how this function is called.
-      // If there are more than one element selected in the tree, it is always for a batch of elements
-      // otherwise, toggle is probably done using the context menu with right click or a keybind.
-      // Section is undefined when using a keybind and ``selected`` only contains one element.
-      // section is only valid when right-clicking on a tree item on the tree view.
-      let selected = extensionUI.getTreeSelection();
-      let items =
-        selected && !section
-          ? selected
-          : selected && selected.length > 1
-          ? selected
-          : [section];
+    // Checks item validness
+    if (!item || item.type !== EditorSectionType.Script) {
+      logger.logError(
+        'Only script files of the active project can be reloaded!'
+      );
+      vscode.window.showErrorMessage(strings.RELOAD_SCRIPT_INVALID);
+      return;
+    }
 
-      for (let item of items) {
-        if (item) {
-          toggleMatrix.push([item, !item.isLoaded()]);
-        }
-      }
+    // Checks if the game is running
+    if (!extensionGameplay.isRunning()) {
+      logger.logInfo('Cannot reload a script because the game is not running!');
+      vscode.window.showInformationMessage(strings.RELOAD_SCRIPT_NOT_RUNNING);
+      return;
     }
 
-    // Toggle load status and refresh if valid matrix
-    if (toggleMatrix.length > 0) {
-      for (let matrix of toggleMatrix) {
-        const item = matrix[0];
-        const load = matrix[1];
-        logger.logInfo(`Section: "${item}" load status set to: ${load}`);
-        extensionScripts.sectionAlternateLoad(item, load);
-      }
-      await refresh();
+    // Checks if the script is loaded by the game
+    if (!item.isLoaded()) {
+      logger.logInfo('Cannot reload a script because it is disabled!');
+      vscode.window.showInformationMessage(strings.RELOAD_SCRIPT_DISABLED);
+      return;
+    }
+
+    // Saves unsaved changes since the game reads the script file
+    const document = vscode.workspace.textDocuments.find((doc) =>
+      item.isPathCaseCmp(doc.uri)
+    );
+    if (document?.isDirty) {
+      await document.save();
+    }
+    if (!checkScriptReload(extensionScripts, item)) {
+      return;
     }
+    extensionGameplay.reloadScript(item.resourceUri);
   } catch (error) {
     logger.logErrorUnknown(error);
     showBasicErrorMessage();
@@ -1059,28 +1543,77 @@ export async function sectionToggleLoad(
 }
 
 /**
- * Toggles the collapsible status of the given editor section
+ * Toggles the reload of scripts in the running game when they are saved.
+ * @returns A promise
+ */
+export async function toggleAutoReload() {
+  try {
+    const value = !extensionConfig.configGameAutoReload();
+    await extensionConfig.updateGameAutoReload(value);
+    logger.logInfo(`Scripts auto reload set to: ${value}`);
+    vscode.window.showInformationMessage(
+      value ? strings.AUTO_RELOAD_ENABLED : strings.AUTO_RELOAD_DISABLED
+    );
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Opens a console to evaluate Ruby code inside a running game process.
  *
- * It is assumed that the given editor section is collapsible.
- * @param section Editor section
+ * The user chooses the game process if there is more than one running.
  * @returns A promise
  */
-export async function sectionToggleCollapse(section?: EditorSectionBase) {
+export async function openGameConsole() {
   try {
-    if (!section) {
+    const pids = extensionGameplay.processes;
+    if (pids.length === 0) {
+      logger.logInfo(
+        'Cannot open the console because the game is not running!'
+      );
+      vscode.window.showInformationMessage(strings.GAME_CONSOLE_NOT_RUNNING);
       return;
     }
 
-    // Determines the collapsible state
-    let collapsibleState = section.isCollapsed()
-      ? EditorSectionBase.Collapsible.Expanded
-      : EditorSectionBase.Collapsible.Collapsed;
-
-    // Alternates the collapse state
-    extensionScripts.sectionAlternateCollapse(section, collapsibleState);
+    // Chooses the game process
+    let pid = pids[0];
+    if (pids.length > 1) {
+      const item = await vscode.window.showQuickPick(
+        pids.map((value) => {
+          return {
+            label: vscode.l10n.t(strings.GAME_CONSOLE_PICK_LABEL, value),
+            description: extensionGameplay
+              .getLaunchTime(value)
+              ?.toLocaleString(),
+            pid: value,
+          };
+        }),
+        {
+          title: strings.GAME_CONSOLE_PICK_TITLE,
+          canPickMany: false,
+        }
+      );
+      if (!item) {
+        return;
+      }
+      pid = item.pid;
+    }
 
-    logger.logInfo(
-      `Section: "${section}" collapsible state set to: ${collapsibleState}`
+    // Opens the console
+    const consoleId = extensionGameplay.getConsoleId(pid);
+    const requestsPath =
+      consoleId && extensionConfig.determineConsoleRequestsPath(consoleId);
+    const resultsPath =
+      consoleId && extensionConfig.determineConsoleResultsPath(consoleId);
+    if (!requestsPath || !resultsPath) {
+      throw new Error('Cannot open the game console due to invalid values!');
+    }
+    logger.logInfo(`Opening console of the game process: ${pid}`);
+    extensionUI.openGameConsole(
+      pid,
+      new GameChannel(resultsPath.fsPath, requestsPath.fsPath)
     );
   } catch (error) {
     logger.logErrorUnknown(error);
@@ -1089,31 +1622,105 @@ export async function sectionToggleCollapse(section?: EditorSectionBase) {
 }
 
 /**
- * Copies the absolute path of the given editor section or all editor sections selected on the tree view to the clipboard.
+ * Creates a debug adapter to debug the game of the current project.
+ * @returns Debug adapter
+ */
+export function createDebugAdapter() {
+  return new GameDebugAdapter(extensionConfig, extensionGameplay);
+}
+
+/**
+ * Resolves the given debug configuration before a debug session starts.
  *
- * If several sections are selected, it will every path.
+ * If there is no launch configuration, the game of the current project is launched.
  *
- * @param section Section
- * @returns A promise
+ * The debug session is cancelled if there is no project opened.
+ * @param config Debug configuration
+ * @returns Debug configuration
  */
-export async function sectionCopyAbsolutePath(section?: EditorSectionBase) {
+export function resolveDebugConfiguration(config: vscode.DebugConfiguration) {
+  if (!config.type && !config.request && !config.name) {
+    config.type = DEBUG_TYPE;
+    config.request = 'launch';
+    config.name = strings.DEBUG_CONFIG_NAME;
+  }
+  if (!extensionConfig.isValid()) {
+    logger.logError('You must open a RPG Maker project to debug the game!');
+    vscode.window.showErrorMessage(strings.DEBUG_INVALID_PROJECT);
+    return undefined;
+  }
   try {
-    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
+    if (!checkScriptsSyntax(extensionScripts)) {
+      return undefined;
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+  return config;
+}
 
-    // Checks validness
-    if (!items) {
+/**
+ * Asynchronously process the exception got from the last game session.
+ * @returns A promise.
+ */
+export async function processGameException() {
+  try {
+    logger.logInfo('Processing game exception...');
+    let exception = extensionGameplay.lastException;
+
+    // Check exception existence
+    if (!exception) {
+      logger.logInfo('No exception was reported in the last game session!');
+      vscode.window.showInformationMessage(
+        vscode.l10n.t(strings.PROCESS_EXCEPTION_NO_REPORT)
+      );
       return;
     }
-    logger.logInfo(`Copying absolute path from: "${items}"`);
 
-    // Perform the copy operation
-    let contents = items.map((item) => {
-      return item.resourceUri.fsPath;
-    });
+    // Shows the exception in the problems panel
+    const folder = extensionConfig.projectFolderPath;
+    if (folder) {
+      extensionUI.showExceptionDiagnostics(folder, exception);
+    }
 
-    // Copies the contents in the clipboard
-    vscode.env.clipboard.writeText(
-      contents.join(extensionConfig.determineFileEOL())
+    // Ask the user to whether process the exception or not
+    let option: string | undefined = '';
+    if (extensionConfig.configGameErrorAutoProcess()) {
+      option = strings.PROCESS_EXCEPTION_OPT_PEEK;
+    } else {
+      option = await vscode.window.showWarningMessage(
+        strings.PROCESS_EXCEPTION_WARNING,
+        strings.PROCESS_EXCEPTION_OPT_PEEK,
+        strings.CLOSE
+      );
+    }
+
+    // Checks option peek validness
+    if (option !== strings.PROCESS_EXCEPTION_OPT_PEEK) {
+      return;
+    }
+
+    // Shows the exception in a new text document besides the main editor if allowed.
+    if (extensionConfig.configGameErrorShowEditor()) {
+      let doc = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: exception.markdown(),
+      });
+      await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside, true);
+    }
+
+    // Opens the peek menu to backtrace.
+    await vscode.commands.executeCommand(
+      'editor.action.peekLocations',
+      exception.backtrace[0].uri,
+      new vscode.Position(exception.backtrace[0].line - 1, 0),
+      exception.backtrace.map((info) => {
+        return new vscode.Location(
+          info.uri,
+          new vscode.Position(info.line - 1, 0)
+        );
+      }),
+      'gotoAndPeek'
     );
   } catch (error) {
     logger.logErrorUnknown(error);
@@ -1122,301 +1729,1463 @@ export async function sectionCopyAbsolutePath(section?: EditorSectionBase) {
 }
 
 /**
- * Copies the relative path from the root folder of the given editor section or all editor sections selected on the tree view to the clipboard.
- *
- * If several sections are selected, it will every path.
- *
- * @param section Section
+ * Removes all exceptions from the exception history of the current project.
+ * @returns A promise.
+ */
+export async function clearExceptionHistory() {
+  try {
+    logger.logInfo('Clearing the game exception history...');
+    extensionGameplay.clearExceptions();
+    logger.logInfo('Game exception history cleared successfully!');
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Creates a new editor section in the specified section.
+ * @param section Editor section
  * @returns A promise
  */
-export async function sectionCopyRelativePath(section?: EditorSectionBase) {
+export async function sectionCreate(section?: EditorSectionBase) {
   try {
-    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
+    // Checks if user is creating a section from the view more actions submenu
+    // if creating from the submenu, section is like '{ preserveFocus: false }'
+    let sectionTemp = section
+      ? 'preserveFocus' in section
+        ? extensionScripts.root
+        : section
+      : section;
+    // Determines the appropiate target
+    let selected = extensionUI.getTreeSelection();
+    let target = sectionTemp ? sectionTemp : selected ? selected[0] : undefined;
 
-    // Checks validness
-    if (!items) {
+    // Check target validness
+    if (!target) {
       return;
     }
-    logger.logInfo(`Copying relative path from: "${items}"`);
+    const controller = resolveController(target);
 
-    // Perform the copy operation
-    let contents = items.map((item) => {
-      return extensionScripts.root.relative(item.resourceUri);
-    });
+    // Prepare creation input
+    let type: EditorSectionType | undefined = undefined;
+    let name: string | undefined = undefined;
 
-    // Copies the contents in the clipboard
-    vscode.env.clipboard.writeText(
-      contents.join(extensionConfig.determineFileEOL())
+    // Determine section type
+    let typeOption = await vscode.window.showQuickPick(
+      [
+        strings.CREATE_TYPE_OPT_SCRIPT,
+        strings.CREATE_TYPE_OPT_FOLDER,
+        strings.CREATE_TYPE_OPT_SEPARATOR,
+      ],
+      {
+        title: vscode.l10n.t(strings.CREATE_TYPE_TITLE, target.toString()),
+        placeHolder: strings.CREATE_TYPE_PLACEHOLDER,
+        canPickMany: false,
+      }
     );
+
+    // Evaluates new section type
+    switch (typeOption) {
+      case strings.CREATE_TYPE_OPT_SEPARATOR: {
+        type = EditorSectionType.Separator;
+        name = '*separator*';
+        break;
+      }
+      case strings.CREATE_TYPE_OPT_FOLDER: {
+        type = EditorSectionType.Folder;
+        break;
+      }
+      case strings.CREATE_TYPE_OPT_SCRIPT: {
+        type = EditorSectionType.Script;
+        break;
+      }
+      default: {
+        type = undefined;
+        break;
+      }
+    }
+
+    // Determine section name (if not set automatically)
+    if (type && !name) {
+      name = await vscode.window.showInputBox({
+        title: vscode.l10n.t(strings.CREATE_NAME_TITLE, target.toString()),
+        placeHolder: strings.CREATE_NAME_PLACEHOLDER,
+        validateInput(value) {
+          let info = controller.determineSectionInfo(type, value, target);
+          return validateUserInput(info.parent, info.uri, value);
+        },
+      });
+    }
+
+    // Check user input validness
+    if (!name || !type) {
+      return;
+    }
+
+    // Create new section
+    let info = controller.determineSectionInfo(type, name, target);
+    if (info) {
+      logger.logInfo(`Creating section: "${info.uri.fsPath}"`);
+      controller.sectionCreate(info, { checkboxState: true });
+      await refresh();
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Deletes the given editor section or all editor sections selected in the editor.
+ *
+ * Before deletion is done, this function asks the user for confirmation.
+ * @param section Editor section
+ * @returns A promise
+ */
+export async function sectionDelete(section?: EditorSectionBase) {
+  try {
+    let items = (
+      extensionUI.getTreeSelection() || (section ? [section] : [])
+    ).filter((item) => !isRoot(item));
+
+    // Checks validness
+    if (items.length === 0) {
+      return;
+    }
+
+    let option = await vscode.window.showQuickPick(
+      [strings.DELETE_OPT_DELETE, strings.DELETE_OPT_CANCEL],
+      {
+        title: vscode.l10n.t(strings.DELETE_TITLE, items.toString()),
+        placeHolder: strings.DELETE_PLACEHOLDER,
+        canPickMany: false,
+      }
+    );
+
+    // Checks if user confirmed deletion
+    if (option !== strings.DELETE_OPT_DELETE) {
+      return;
+    }
+
+    // Delete selected sections
+    for (let item of items) {
+      logger.logInfo(`Deleting section: "${item.resourceUri.fsPath}"`);
+      resolveController(item).sectionDelete(item);
+    }
+    await refresh();
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Ask the user for a new name and renames the given editor section to the new name.
+ * @param section Editor section
+ * @returns A promise
+ */
+export async function sectionRename(section?: EditorSectionBase) {
+  try {
+    let selected = extensionUI.getTreeSelection();
+    let item = section ? section : selected ? selected[0] : undefined;
+
+    // Check item validness
+    if (!item || item.isType(EditorSectionType.Separator) || isRoot(item)) {
+      return;
+    }
+    const controller = resolveController(item);
+
+    // Determine section name
+    let name = await vscode.window.showInputBox({
+      title: vscode.l10n.t(strings.RENAME_TITLE, item.toString()),
+      placeHolder: strings.RENAME_PLACEHOLDER,
+      value: item.label?.toString(),
+      validateInput(value) {
+        let uri = controller.determineSectionUri(
+          item.parent!.resourceUri,
+          item.type,
+          value
+        );
+        return validateUserInput(item.parent!, uri, value);
+      },
+    });
+
+    // Checks name input validness
+    if (!name) {
+      return;
+    }
+
+    // Rename section
+    let uri = controller.determineSectionUri(
+      item.getDirectory(),
+      item.type,
+      name
+    );
+
+    logger.logInfo(`Renaming section: "${item}" to: "${uri.fsPath}"`);
+    controller.sectionRename(item, uri);
+    await refresh({ treeItem: item });
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Processes a drag and drop move operation on the tree.
+ *
+ * All sections in ``source`` will be moved into the ``target`` section.
+ * @param source List of sections (drag)
+ * @param target Target section (drop)
+ */
+export async function sectionMove(
+  source?: EditorSectionBase[],
+  target?: EditorSectionBase
+) {
+  try {
+    // Checks validness
+    if (!source || !target) {
+      return;
+    }
+
+    // Sections can only be moved within the same bundle
+    const controller = resolveController(target);
+    const sections = source.filter((section) => !isRoot(section));
+    if (sections.some((section) => resolveController(section) !== controller)) {
+      logger.logWarning(`Sections cannot be moved to a different bundle!`);
+      return;
+    }
+
+    // Perform move operation
+    if (controller.sectionMove(sections, target)) {
+      logger.logInfo(`Moved: "${source}" to: "${target}"`);
+      await refresh();
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Cuts the given editor section or all editor sections selected on the tree view to the clipboard.
+ *
+ * @param section Section
+ * @returns A promise
+ */
+export async function sectionCut(section?: EditorSectionBase) {
+  try {
+    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
+
+    // Checks validness
+    if (!items) {
+      return;
+    }
+
+    // Creates mutable array
+    const itemsArray = Array.from(items);
+
+    // Perform the copy operation
+    logger.logInfo(`Cutting: "${items}"`);
+    resolveController(itemsArray[0]).sectionCut(
+      itemsArray.filter((item) => !isRoot(item))
+    );
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Copies the given editor section or all editor sections selected on the tree view to the clipboard.
+ *
+ * @param section Section
+ * @returns A promise
+ */
+export async function sectionCopy(section?: EditorSectionBase) {
+  try {
+    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
+
+    // Checks validness
+    if (!items) {
+      return;
+    }
+
+    // Creates mutable array
+    const itemsArray = Array.from(items);
+
+    // Perform the copy operation
+    logger.logInfo(`Copying: "${items}"`);
+    resolveController(itemsArray[0]).sectionCopy(
+      itemsArray.filter((item) => !isRoot(item))
+    );
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Pastes all sections in the clipboard on the given target
+ * @param section Target section
+ * @returns A promise
+ */
+export async function sectionPaste(section?: EditorSectionBase) {
+  try {
+    // Determines the appropiate target
+    let selected = extensionUI.getTreeSelection();
+    let target = section ? section : selected ? selected.at(-1) : undefined;
+
+    // Checks validness
+    if (!target) {
+      return;
+    }
+
+    logger.logInfo(`Paste target: "${target}"`);
+    if (resolveController(target).sectionPaste(target)) {
+      await refresh();
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Toggles the load status (checkbox) of the given element or elements.
+ *
+ * If a {@link ToggleLoadMatrix} is given, it must be an array with the section
+ * instance along with the checkbox status.
+ *
+ * If a single element is given, it will check the current tree selection and toggle
+ * the checkbox of the given element or the list of selected elements accordingly.
+ * @param section Editor section
+ * @returns A promise
+ */
+export async function sectionToggleLoad(
+  section?: EditorSectionBase | ToggleLoadMatrix
+) {
+  try {
+    let toggleMatrix: ToggleLoadMatrix = [];
+
+    // Handles arguments
+    if (section instanceof Array) {
+      toggleMatrix = section;
+    } else {
+      // This is used to determine how this function is called.
+      // If there are more than one element selected in the tree, it is always for a batch of elements
+      // otherwise, toggle is probably done using the context menu with right click or a keybind.
+      // Section is undefined when using a keybind and ``selected`` only contains one element.
+      // section is only valid when right-clicking on a tree item on the tree view.
+      let selected = extensionUI.getTreeSelection();
+      let items =
+        selected && !section
+          ? selected
+          : selected && selected.length > 1
+          ? selected
+          : [section];
+
+      for (let item of items) {
+        if (item) {
+          toggleMatrix.push([item, !item.isLoaded()]);
+        }
+      }
+    }
+
+    // Toggle load status and refresh if valid matrix
+    if (toggleMatrix.length > 0) {
+      for (let matrix of toggleMatrix) {
+        const item = matrix[0];
+        const load = matrix[1];
+        logger.logInfo(`Section: "${item}" load status set to: ${load}`);
+        resolveController(item).sectionAlternateLoad(item, load);
+      }
+      await refresh();
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Toggles the collapsible status of the given editor section
+ *
+ * It is assumed that the given editor section is collapsible.
+ * @param section Editor section
+ * @returns A promise
+ */
+export async function sectionToggleCollapse(section?: EditorSectionBase) {
+  try {
+    if (!section) {
+      return;
+    }
+
+    // Determines the collapsible state
+    let collapsibleState = section.isCollapsed()
+      ? EditorSectionBase.Collapsible.Expanded
+      : EditorSectionBase.Collapsible.Collapsed;
+
+    // Alternates the collapse state
+    resolveController(section).sectionAlternateCollapse(
+      section,
+      collapsibleState
+    );
+
+    logger.logInfo(
+      `Section: "${section}" collapsible state set to: ${collapsibleState}`
+    );
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Copies the absolute path of the given editor section or all editor sections selected on the tree view to the clipboard.
+ *
+ * If several sections are selected, it will every path.
+ *
+ * @param section Section
+ * @returns A promise
+ */
+export async function sectionCopyAbsolutePath(section?: EditorSectionBase) {
+  try {
+    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
+
+    // Checks validness
+    if (!items) {
+      return;
+    }
+    logger.logInfo(`Copying absolute path from: "${items}"`);
+
+    // Perform the copy operation
+    let contents = items.map((item) => {
+      return item.resourceUri.fsPath;
+    });
+
+    // Copies the contents in the clipboard
+    vscode.env.clipboard.writeText(
+      contents.join(extensionConfig.determineFileEOL())
+    );
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Copies the relative path from the root folder of the given editor section or all editor sections selected on the tree view to the clipboard.
+ *
+ * If several sections are selected, it will every path.
+ *
+ * @param section Section
+ * @returns A promise
+ */
+export async function sectionCopyRelativePath(section?: EditorSectionBase) {
+  try {
+    let items = extensionUI.getTreeSelection() || (section ? [section] : []);
+
+    // Checks validness
+    if (!items) {
+      return;
+    }
+    logger.logInfo(`Copying relative path from: "${items}"`);
+
+    // Perform the copy operation
+    let contents = items.map((item) => {
+      return resolveController(item).root.relative(item.resourceUri);
+    });
+
+    // Copies the contents in the clipboard
+    vscode.env.clipboard.writeText(
+      contents.join(extensionConfig.determineFileEOL())
+    );
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Reveals the given editor section file system entry on the VSCode built-in file explorer.
+ * @param section Editor section
+ * @returns A promise
+ */
+export async function revealInVSCodeExplorer(section?: EditorSectionBase) {
+  let selected = extensionUI.getTreeSelection();
+  let item = section ? section : selected ? selected[0] : undefined;
+
+  // Check item validness
+  if (!item) {
+    return;
+  }
+
+  // Reveal file based on type
+  switch (item.type) {
+    case EditorSectionType.Script:
+    case EditorSectionType.Folder: {
+      await vscode.commands.executeCommand(
+        'revealInExplorer',
+        item.resourceUri
+      );
+      break;
+    }
+  }
+}
+
+/**
+ * Reveals the given editor section file system entry on the OS file explorer
+ * @param section Editor section
+ * @returns A promise
+ */
+export async function revealInFileExplorer(section?: EditorSectionBase) {
+  try {
+    let selected = extensionUI.getTreeSelection();
+    let item = section ? section : selected ? selected[0] : undefined;
+
+    // Check item validness
+    if (!item) {
+      return;
+    }
+
+    // Reveal file based on type
+    switch (item.type) {
+      case EditorSectionType.Script:
+      case EditorSectionType.Folder: {
+        let folder = await openFolder(item.getDirectory().fsPath);
+        folder.unref();
+        break;
+      }
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+    showBasicErrorMessage();
+  }
+}
+
+/**
+ * Chooses the current editor mode.
+ *
+ * Allows the editor to behave different for drag and drop operations.
+ */
+export async function chooseEditorMode() {
+  // Show drop mode selector
+  let curMode = extensionScripts.getEditorModeString();
+  let value = await vscode.window.showQuickPick(
+    [strings.EDITOR_MODE_MERGE, strings.EDITOR_MODE_MOVE],
+    {
+      title: vscode.l10n.t(strings.CHOOSE_EDITOR_MODE_TITLE, curMode),
+      placeHolder: strings.CHOOSE_EDITOR_MODE_PLACEHOLDER,
+      canPickMany: false,
+    }
+  );
+
+  // Checks input editor mode validness
+  if (!value) {
+    return;
+  }
+
+  // Updates the editor mode
+  for (const controller of allControllers()) {
+    if (value === strings.EDITOR_MODE_MERGE) {
+      controller.setEditorMode(ControllerEditorMode.MERGE);
+    } else if (value === strings.EDITOR_MODE_MOVE) {
+      controller.setEditorMode(ControllerEditorMode.MOVE);
+    }
+  }
+}
+
+/**
+ * Updates the selected script section on the tree view to match the file opened in the given text editor.
+ *
+ * The project that owns the file is set as the active project.
+ *
+ * Extension auto-reveal functionality must be enabled.
+ * @param editor Text editor instance.
+ * @returns A promise.
+ */
+export async function updateTextEditor(editor?: vscode.TextEditor) {
+  try {
+    // Activates the project that owns the file
+    const project = editor && findProject(editor.document.uri);
+    if (project && project !== extensionProject) {
+      await switchProject(project);
+    }
+
+    if (editor && extensionConfig.configAutoReveal()) {
+      await extensionUI.revealInTreeView(editor.document.uri, {
+        select: true,
+        expand: true,
+      });
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+}
+
+/**
+ * Disposes the extension upon deactivation.
+ */
+export async function dispose() {
+  // Disposes all projects
+  for (const project of extensionProjects) {
+    await disposeProject(project);
+  }
+  // Disposes UI elements
+  await extensionUI.dispose();
+  // Disposes logger
+  await logger.dispose();
+}
+
+/**
+ * Processes a configuration change event.
+ *
+ * It will execute a callback if an important configuration value is changed
+ * @param event Config change event
+ */
+export async function onDidChangeConfiguration(
+  event: vscode.ConfigurationChangeEvent
+) {
+  if (
+    event.affectsConfiguration('rgssScriptEditor.external.scriptsFolder') ||
+    event.affectsConfiguration('rgssScriptEditor.external.additionalBundles')
+  ) {
+    // Restarts extension if the scripts folder path or the bundles are changed
+    await restart();
+  } else if (
+    event.affectsConfiguration('rgssScriptEditor.external.gameLogFileFolder')
+  ) {
+    // Re-creates the script loader if user changes the game log folder path
+    await createScriptLoader();
+  } else if (
+    event.affectsConfiguration('rgssScriptEditor.gameplay.launchProfile') ||
+    event.affectsConfiguration('rgssScriptEditor.gameplay.launchProfiles')
+  ) {
+    // Shows the active launch profile in the status bar
+    if (extensionConfig.isValid()) {
+      await updateUI();
+    }
+  }
+}
+
+/**
+ * Processes a script file system watcher creation event.
+ * @param controller Scripts controller of the watched folder
+ * @param uri Entry uri
+ */
+async function watcherScriptOnDidCreate(
+  controller: ScriptsController,
+  uri: vscode.Uri
+) {
+  try {
+    // Check if it is root path
+    if (controller.root.isPath(uri)) {
+      return;
+    }
+
+    // Determine entry type
+    logger.logInfo(`(Watcher) Entry created: "${uri.fsPath}"`);
+    let type = controller.determineSectionType(uri.fsPath);
+
+    // Checks type validness
+    if (!type) {
+      return;
+    }
+
+    // Checks if section exists already
+    if (controller.sectionFind(uri)) {
+      logger.logInfo(`(Watcher) A section already exists for: ${uri.fsPath}`);
+      return;
+    }
+
+    // Create new section
+    logger.logInfo(`(Watcher) Creating section: "${uri.fsPath}"`);
+    controller.sectionCreate(
+      {
+        parent: controller.root,
+        type: type,
+        uri: uri,
+      },
+      {
+        checkboxState: true,
+      }
+    );
+    await refresh();
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+}
+
+/**
+ * Processes a script file system watcher deletion event.
+ * @param controller Scripts controller of the watched folder
+ * @param uri Entry uri
+ */
+async function watcherScriptOnDidDelete(
+  controller: ScriptsController,
+  uri: vscode.Uri
+) {
+  try {
+    logger.logInfo(`(Watcher) Entry deleted: "${uri.fsPath}"`);
+
+    // Find child instance that matches the deleted path.
+    let child = controller.root.findChild((value) => {
+      return value.isPath(uri);
+    }, true);
+
+    // Delete child if found.
+    if (child) {
+      logger.logInfo(
+        `(Watcher) Deleting section: "${child.resourceUri.fsPath}"`
+      );
+      controller.sectionDelete(child);
+      await refresh();
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+}
+
+/**
+ * Processes a script file system watcher change event.
+ *
+ * The script is reloaded in the running game if auto reload is enabled.
+ * @param project Project of the script
+ * @param controller Scripts controller of the watched folder
+ * @param uri Entry uri
+ */
+async function watcherScriptOnDidChange(
+  project: Project,
+  controller: ScriptsController,
+  uri: vscode.Uri
+) {
+  try {
+    // Alias chains are only shown for the active project
+    if (project === extensionProject) {
+      extensionUI.refreshAliasChains();
+    }
+
+    if (
+      !project.config.configGameAutoReload() ||
+      !project.gameplay.isRunning()
+    ) {
+      return;
+    }
+
+    // Only loaded scripts are reloaded
+    const section = controller.sectionFind(uri);
+    if (section?.type === EditorSectionType.Script && section.isLoaded()) {
+      logger.logInfo(`(Watcher) Script changed: "${uri.fsPath}"`);
+      if (checkScriptReload(controller, section)) {
+        project.gameplay.reloadScript(uri);
+      }
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+}
+
+/**
+ * Processes a game output file system watcher creation event.
+ *
+ * The project is set as the active project to process its exception.
+ * @param project Project of the game
+ * @param uri Entry uri
+ */
+async function watcherGameOutputOnDidCreate(project: Project, uri: vscode.Uri) {
+  try {
+    if (project !== extensionProject) {
+      await switchProject(project);
+    }
+    project.gameplay.createException(uri.fsPath);
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+}
+
+/**
+ * Processes a game log records file system watcher event.
+ *
+ * New log records are shown in the game log output channel.
+ * @param project Project of the game
+ * @param uri Entry uri
+ */
+async function watcherGameRecordsOnDidChange(
+  project: Project,
+  uri: vscode.Uri
+) {
+  try {
+    const records = project.gameplay.readLogRecords(uri.fsPath);
+    if (records.length > 0) {
+      extensionUI.writeGameLog(records);
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+}
+
+/**
+ * Processes a project settings file system watcher event.
+ *
+ * The extension is restarted to apply the new settings.
+ * @param uri Entry uri
+ */
+async function watcherConfigOnDidChange(uri: vscode.Uri) {
+  try {
+    logger.logInfo(`(Watcher) Project settings file changed: "${uri.fsPath}"`);
+    await restart();
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+}
+
+/**
+ * Runs the pre-launch action of the active launch profile.
+ * @returns A promise
+ * @throws An error if the pre-launch action fails
+ */
+async function runPreLaunchAction() {
+  switch (extensionConfig.determinePreLaunchAction()) {
+    case PreLaunchAction.CREATE_SCRIPT_LOADER: {
+      logger.logInfo('Pre-launch action: creating the script loader...');
+      const response = await extensionScripts.checkScripts();
+      if (response === ScriptsController.SCRIPTS_NOT_EXTRACTED) {
+        throw new Error(
+          'Cannot create script loader because RPG Maker bundle file still has valid scripts inside of it!'
+        );
+      }
+      await extensionScripts.createLoader();
+      break;
+    }
+    case PreLaunchAction.COMPILE_BUNDLE: {
+      logger.logInfo('Pre-launch action: compiling scripts...');
+      const destination = determineCompilePath(extensionScripts);
+      if (!destination) {
+        throw new Error(
+          'It was impossible to determine the compilation destination path!'
+        );
+      }
+      if (!(await compileScripts(extensionScripts, destination))) {
+        throw new Error(
+          'Cannot launch the game because the scripts were not compiled!'
+        );
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Compiles the enabled scripts of the given scripts controller into a bundle file.
+ * @param controller Scripts controller
+ * @param destination Bundle file destination
+ * @returns Whether the bundle file was created or not
+ * @throws An error if the bundle file creation fails
+ */
+async function compileScripts(
+  controller: ScriptsController,
+  destination: vscode.Uri
+) {
+  const loadedSections = controller.root.filterChildren(
+    (section) => section.isLoaded(),
+    true
+  );
+  let response = await controller.createBundle(loadedSections, destination, {
+    deterministic: extensionConfig.configDeterministicCompile(),
+  });
+  if (response === ScriptsController.BUNDLE_CREATED) {
+    logger.logInfo(
+      `Bundle file compiled successfully at: "${destination.fsPath}"`
+    );
+    return true;
+  }
+  logger.logError(`Bundle file compilation reported an unknown code!`);
+  return false;
+}
+
+/**
+ * Checks if the given script can be reloaded in the running game.
+ *
+ * Scripts that alias methods are not reloaded, evaluating an alias again saves
+ * the method that calls the alias, so the method would call itself forever.
+ * @param controller Scripts controller
+ * @param section Script section
+ * @returns Whether it can be reloaded or not
+ * @throws An error if the script file cannot be read
+ */
+function checkScriptReload(
+  controller: ScriptsController,
+  section: EditorSectionBase
+) {
+  const aliases = controller
+    .readSymbols([section])
+    .flatMap((entry) => flattenRubySymbols(entry.symbols))
+    .filter((symbol) => symbol.kind === RubySymbolKind.Alias);
+  if (aliases.length === 0) {
+    return true;
+  }
+  logger.logWarning(
+    `Script: "${
+      section.resourceUri.fsPath
+    }" cannot be reloaded because it aliases methods: ${aliases
+      .map((alias) => alias.name)
+      .join(', ')}`
+  );
+  vscode.window.showWarningMessage(
+    vscode.l10n.t(
+      strings.RELOAD_SCRIPT_ALIASES,
+      vscode.workspace.asRelativePath(section.resourceUri)
+    )
+  );
+  return false;
+}
+
+/**
+ * Checks the syntax of the enabled scripts of the given scripts controller.
+ *
+ * Scripts are checked in the load order, syntax errors are shown in the problems panel.
+ *
+ * Nothing is checked if the syntax check is disabled.
+ * @param controller Scripts controller
+ * @returns Whether all scripts are valid or not
+ * @throws An error if a script file cannot be read
+ */
+function checkScriptsSyntax(controller: ScriptsController) {
+  if (!extensionConfig.configSyntaxCheck()) {
+    return true;
+  }
+  logger.logInfo('Checking scripts syntax...');
+  const loadedSections = controller.root.filterChildren(
+    (section) => section.isLoaded(),
+    true
+  );
+  const errors = controller.checkSyntax(loadedSections);
+  extensionUI.showSyntaxDiagnostics(errors);
+  if (errors.length === 0) {
+    return true;
+  }
+  errors.forEach((error) => {
+    logger.logError(
+      `Syntax error at "${error.uri.fsPath}:${error.line}": ${error.message}`
+    );
+  });
+  vscode.window.showErrorMessage(
+    vscode.l10n.t(strings.SYNTAX_CHECK_FAILED, errors.length)
+  );
+  return false;
+}
+
+/**
+ * Asynchronously refreshes the extension editor.
+ *
+ * To ensure that the tree is refreshed this method should be awaited.
+ *
+ * If a specific tree item is given, it will refresh that tree item and all of its children.
+ * @param options Refresh options
+ */
+async function refresh(options?: RefreshOptions) {
+  try {
+    // Refreshes item/roots based on the given argument
+    extensionUI.refresh(options?.treeItem);
+    extensionUI.refreshAliasChains();
+
+    // Checks if the load order file should be refreshed
+    if (options?.noLoadOrderRefresh) {
+      return;
+    }
+
+    // Updates load order files to match the current VSCode editor tree
+    for (const controller of allControllers()) {
+      await refreshLoadOrder(controller);
+    }
+  } catch (error) {
+    logger.logErrorUnknown(error);
+  }
+}
+
+/**
+ * Asynchronously updates the load order file of the given scripts controller.
+ * @param controller Scripts controller
+ */
+async function refreshLoadOrder(controller: ScriptsController) {
+  try {
+    let response = await controller.updateLoadOrderFile();
+    if (response === 0) {
+      logger.logWarning('Load order TXT file is empty!');
+      logger.logWarning(
+        'You should use the RGSS Script Editor view in VSCode to load scripts'
+      );
+      logger.logWarning(
+        'If load order TXT file is left empty, the game will not work at all!'
+      );
+    } else {
+      logger.logInfo(
+        `${response} entries were written in the load order TXT file.`
+      );
+    }
   } catch (error) {
     logger.logErrorUnknown(error);
-    showBasicErrorMessage();
   }
 }
 
 /**
- * Reveals the given editor section file system entry on the VSCode built-in file explorer.
- * @param section Editor section
- * @returns A promise
+ * Reads all entries of the given bundle file.
+ *
+ * Used to browse the contents of any bundle file without extracting it.
+ * @param bundleFile Bundle file path
+ * @returns List of bundle entries
  */
-export async function revealInVSCodeExplorer(section?: EditorSectionBase) {
-  let selected = extensionUI.getTreeSelection();
-  let item = section ? section : selected ? selected[0] : undefined;
+function readBundleEntries(bundleFile: vscode.Uri) {
+  return extensionScripts.readBundleEntries(bundleFile);
+}
 
-  // Check item validness
-  if (!item) {
-    return;
-  }
+/**
+ * Reads all definitions of the given method.
+ *
+ * Definitions are read from the project that owns the given script.
+ * @param uri Script file path
+ * @param name Method name
+ * @returns List of method definitions
+ */
+function readMethodDefinitions(uri: vscode.Uri, name: string) {
+  return allControllers()
+    .find((controller) => controller.sectionFind(uri))
+    ?.determineMethodDefinitions(name);
+}
 
-  // Reveal file based on type
-  switch (item.type) {
-    case EditorSectionType.Script:
-    case EditorSectionType.Folder: {
-      await vscode.commands.executeCommand(
-        'revealInExplorer',
-        item.resourceUri
-      );
-      break;
+/**
+ * Finds the script section of the given file in all opened projects.
+ *
+ * If the file is not a script of any project, it returns ``undefined``.
+ * @param uri Script file path
+ * @returns Script section
+ */
+function findScriptSection(uri: vscode.Uri) {
+  for (const controller of allControllers()) {
+    const section = controller.sectionFind(uri);
+    if (section) {
+      return section.isType(EditorSectionType.Script) ? section : undefined;
     }
   }
+  return undefined;
 }
 
 /**
- * Reveals the given editor section file system entry on the OS file explorer
- * @param section Editor section
- * @returns A promise
+ * Reads the alias chains of the enabled scripts of the active project.
+ *
+ * Each bundle file is analyzed separately.
+ * @returns List of alias chains
  */
-export async function revealInFileExplorer(section?: EditorSectionBase) {
+function readAliasChains() {
   try {
-    let selected = extensionUI.getTreeSelection();
-    let item = section ? section : selected ? selected[0] : undefined;
-
-    // Check item validness
-    if (!item) {
-      return;
-    }
-
-    // Reveal file based on type
-    switch (item.type) {
-      case EditorSectionType.Script:
-      case EditorSectionType.Folder: {
-        let folder = await openFolder(item.getDirectory().fsPath);
-        folder.unref();
-        break;
-      }
-    }
+    return controllers().flatMap((controller) =>
+      buildAliasChains(
+        controller.readSymbols(
+          controller.root.filterChildren((section) => section.isLoaded(), true)
+        )
+      )
+    );
   } catch (error) {
     logger.logErrorUnknown(error);
-    showBasicErrorMessage();
+    return [];
   }
 }
 
 /**
- * Chooses the current editor mode.
+ * Reads the symbols of the scripts of all opened projects.
  *
- * Allows the editor to behave different for drag and drop operations.
+ * Scripts are read in load order, including disabled ones.
+ * @returns List of script symbols
  */
-export async function chooseEditorMode() {
-  // Show drop mode selector
-  let curMode = extensionScripts.getEditorModeString();
-  let value = await vscode.window.showQuickPick(
-    [strings.EDITOR_MODE_MERGE, strings.EDITOR_MODE_MOVE],
-    {
-      title: vscode.l10n.t(strings.CHOOSE_EDITOR_MODE_TITLE, curMode),
-      placeHolder: strings.CHOOSE_EDITOR_MODE_PLACEHOLDER,
-      canPickMany: false,
-    }
+function readScriptSymbols() {
+  return allControllers().flatMap((controller) =>
+    controller.readSymbols(controller.root.nestedChildren())
   );
+}
 
-  // Checks input editor mode validness
-  if (!value) {
-    return;
-  }
+/**
+ * Creates a new project.
+ *
+ * File system watchers callbacks are bound to the controllers of the project.
+ * @returns Project
+ */
+function createProject(): Project {
+  const scripts = new ScriptsController();
+  const project: Project = {
+    config: new Configuration(),
+    scripts: scripts,
+    bundles: [],
+    gameplay: new GameplayController((bundleFile, index) =>
+      scripts.determineBundleSectionUri(bundleFile, index)
+    ),
+    scriptsWatcher: new FileSystemWatcher(),
+    bundlesWatchers: [],
+    gameWatcher: new FileSystemWatcher(),
+    recordsWatcher: new FileSystemWatcher(),
+    configWatcher: new FileSystemWatcher(),
+  };
+
+  // Sets scripts file system watcher callbacks
+  project.scriptsWatcher.onDidCreate((uri) => {
+    watcherScriptOnDidCreate(project.scripts, uri);
+  });
+  project.scriptsWatcher.onDidDelete((uri) => {
+    watcherScriptOnDidDelete(project.scripts, uri);
+  });
+  project.scriptsWatcher.onDidChange((uri) => {
+    watcherScriptOnDidChange(project, project.scripts, uri);
+  });
+
+  // Sets gameplay controller callbacks
+  project.gameplay.onDidWriteOutput((line) => {
+    extensionUI.writeGameOutput(line);
+  });
+  project.gameplay.onDidExit((info) => {
+    extensionUI.exitGameConsole(info.pid);
+    // Exceptions are kept until the next successful game execution
+    const folder = project.config.projectFolderPath;
+    if (info.success && folder) {
+      extensionUI.clearExceptionDiagnostics(folder);
+    }
+  });
+  project.gameplay.onDidChangeExceptions((exceptions) => {
+    // Only the exception history of the active project is shown
+    if (project === extensionProject) {
+      extensionUI.showExceptionHistory(exceptions);
+    }
+  });
+
+  // Sets game output file system watcher callbacks
+  project.gameWatcher.onDidCreate((uri) => {
+    watcherGameOutputOnDidCreate(project, uri);
+  });
+
+  // Sets game log records file system watcher callbacks
+  project.recordsWatcher.onDidCreate((uri) => {
+    watcherGameRecordsOnDidChange(project, uri);
+  });
+  project.recordsWatcher.onDidChange((uri) => {
+    watcherGameRecordsOnDidChange(project, uri);
+  });
+
+  // Sets project settings file system watcher callbacks
+  project.configWatcher.onDidCreate((uri) => {
+    watcherConfigOnDidChange(uri);
+  });
+  project.configWatcher.onDidChange((uri) => {
+    watcherConfigOnDidChange(uri);
+  });
+  project.configWatcher.onDidDelete((uri) => {
+    watcherConfigOnDidChange(uri);
+  });
+  return project;
+}
 
-  // Updates the editor mode
-  if (value === strings.EDITOR_MODE_MERGE) {
-    extensionScripts.setEditorMode(ControllerEditorMode.MERGE);
-  } else if (value === strings.EDITOR_MODE_MOVE) {
-    extensionScripts.setEditorMode(ControllerEditorMode.MOVE);
+/**
+ * Asynchronously disposes the given project.
+ *
+ * Game processes of the project are killed.
+ * @param project Project
+ */
+async function disposeProject(project: Project) {
+  await project.gameplay.dispose();
+  await project.scriptsWatcher.dispose();
+  for (const watcher of project.bundlesWatchers) {
+    await watcher.dispose();
   }
+  await project.gameWatcher.dispose();
+  await project.recordsWatcher.dispose();
+  await project.configWatcher.dispose();
 }
 
 /**
- * Updates the selected script section on the tree view to match the file opened in the given text editor.
+ * Finds the opened project that owns the given uri.
  *
- * Extension auto-reveal functionality must be enabled.
- * @param editor Text editor instance.
- * @returns A promise.
+ * If the uri is inside of several projects, the innermost project is returned.
+ * @param uri Uri path
+ * @returns Project
  */
-export async function updateTextEditor(editor?: vscode.TextEditor) {
-  try {
-    if (editor && extensionConfig.configAutoReveal()) {
-      await extensionUI.revealInTreeView(editor.document.uri, {
-        select: true,
-        expand: true,
-      });
+function findProject(uri: vscode.Uri) {
+  let found: Project | undefined = undefined;
+  for (const project of extensionProjects) {
+    const folder = project.config.projectFolderPath;
+    if (!folder) {
+      continue;
+    }
+    const relative = path.relative(folder.fsPath, uri.fsPath);
+    if (
+      relative !== '..' &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative) &&
+      (!found ||
+        folder.fsPath.length > found.config.projectFolderPath!.fsPath.length)
+    ) {
+      found = project;
     }
-  } catch (error) {
-    logger.logErrorUnknown(error);
   }
+  return found;
 }
 
 /**
- * Disposes the extension upon deactivation.
+ * Finds the opened project whose folder is the given folder.
+ *
+ * Unlike {@link findProject}, projects that only contain the folder are not returned.
+ *
+ * Paths are compared case-insensitively on Windows.
+ * @param folder Project folder Uri
+ * @returns Project
  */
-export async function dispose() {
-  // Disposes the game controller
-  await extensionGameplay.dispose();
-  // Disposes UI elements
-  await extensionUI.dispose();
-  // Disposes script file system watcher
-  await extensionScriptsWatcher.dispose();
-  // Disposes game output file system watcher
-  await extensionGameWatcher.dispose();
-  // Disposes logger
-  await logger.dispose();
+function findOpenedProject(folder: vscode.Uri) {
+  return extensionProjects.find((project) => {
+    const projectFolder = project.config.projectFolderPath;
+    return (
+      projectFolder !== undefined &&
+      path.relative(projectFolder.fsPath, folder.fsPath) === ''
+    );
+  });
 }
 
 /**
- * Processes a configuration change event.
+ * Sets the given project as the active project.
  *
- * It will execute a callback if an important configuration value is changed
- * @param event Config change event
+ * Extension commands are executed on the active project.
+ * @param project Project
  */
-export async function onDidChangeConfiguration(
-  event: vscode.ConfigurationChangeEvent
-) {
-  if (event.affectsConfiguration('rgssScriptEditor.external.scriptsFolder')) {
-    // Restarts extension if the scripts folder path is changed
-    await restart();
-  } else if (
-    event.affectsConfiguration('rgssScriptEditor.external.gameLogFileFolder')
-  ) {
-    // Re-creates the script loader if user changes the game log folder path
-    await createScriptLoader();
-  }
+function activateProject(project: Project) {
+  extensionProject = project;
+  extensionConfig = project.config;
+  extensionScripts = project.scripts;
+  extensionGameplay = project.gameplay;
 }
 
 /**
- * Processes a script file system watcher creation event.
- * @param uri Entry uri
+ * Asynchronously switches the active project to the given opened project.
+ *
+ * The extension's UI and context are updated to match the project.
+ * @param project Project
  */
-async function watcherScriptOnDidCreate(uri: vscode.Uri) {
-  try {
-    // Check if it is root path
-    if (extensionScripts.root.isPath(uri)) {
-      return;
-    }
-
-    // Determine entry type
-    logger.logInfo(`(Watcher) Entry created: "${uri.fsPath}"`);
-    let type = extensionScripts.determineSectionType(uri.fsPath);
+async function switchProject(project: Project) {
+  logger.logInfo(
+    `Switching active project to: "${project.config.projectFolderName}"`
+  );
+  activateProject(project);
+  logger.update(extensionConfig);
+  await updateUI();
+  context.setOpenedProjectFolder(true);
+  context.setExtractedScripts(
+    (await extensionScripts.checkScripts()) ===
+      ScriptsController.SCRIPTS_EXTRACTED
+  );
+}
 
-    // Checks type validness
-    if (!type) {
-      return;
+/**
+ * Asynchronously updates the extension's UI with all opened projects.
+ *
+ * The status bar shows the active project.
+ *
+ * If several projects are opened, the tree roots are described with their project name.
+ */
+async function updateUI() {
+  for (const project of extensionProjects) {
+    for (const controller of controllers(project)) {
+      controller.root.setDescription(
+        extensionProjects.length > 1
+          ? `${project.config.projectFolderName}: ${controller.bundleName}`
+          : controller.bundleName
+      );
     }
+  }
+  await extensionUI.update({
+    treeRoots: allControllers().map((controller) => controller.root),
+    statusBarOptions: {
+      projectFolder: extensionConfig.projectFolderName!,
+      launchProfile: extensionConfig.determineLaunchProfile()?.name,
+    },
+  });
+  extensionUI.showExceptionHistory(extensionGameplay.exceptions);
+}
 
-    // Checks if section exists already
-    if (extensionScripts.sectionFind(uri)) {
-      logger.logInfo(`(Watcher) A section already exists for: ${uri.fsPath}`);
-      return;
+/**
+ * Loads the project settings file of the current project folder.
+ *
+ * If the file is invalid, the workspace settings are used instead.
+ */
+function loadProjectConfig() {
+  try {
+    const ignored = extensionConfig.loadProjectConfig();
+    ignored.forEach((key) => {
+      logger.logWarning(
+        `Setting "${key}" of the project settings file is invalid and was ignored!`
+      );
+    });
+    if (ignored.length > 0) {
+      vscode.window.showWarningMessage(strings.PROJECT_CONFIG_INVALID);
     }
-
-    // Create new section
-    logger.logInfo(`(Watcher) Creating section: "${uri.fsPath}"`);
-    extensionScripts.sectionCreate(
-      {
-        parent: extensionScripts.root,
-        type: type,
-        uri: uri,
-      },
-      {
-        checkboxState: true,
-      }
-    );
-    await refresh();
   } catch (error) {
     logger.logErrorUnknown(error);
+    logger.logWarning(
+      'Project settings file ignored, using workspace settings'
+    );
+    vscode.window.showWarningMessage(strings.PROJECT_CONFIG_INVALID);
   }
 }
 
 /**
- * Processes a script file system watcher deletion event.
- * @param uri Entry uri
+ * Asynchronously updates the scripts controllers of all additional bundle files of the given project.
+ *
+ * Controllers and file system watchers of the previous bundles are discarded.
+ * @param project Project
  */
-async function watcherScriptOnDidDelete(uri: vscode.Uri) {
-  try {
-    logger.logInfo(`(Watcher) Entry deleted: "${uri.fsPath}"`);
+async function updateBundles(project: Project) {
+  // Disposes previous bundles
+  for (const watcher of project.bundlesWatchers) {
+    await watcher.dispose();
+  }
+  project.bundles.splice(0);
+  project.bundlesWatchers.splice(0);
+
+  // Creates a controller for each bundle
+  for (const bundle of project.config.determineAdditionalBundles()) {
+    logger.logInfo(`Additional bundle file: "${bundle.bundleFilePath.fsPath}"`);
+    const controller = new ScriptsController();
+    controller.setEditorMode(project.scripts.editorMode);
+    await controller.update(project.config, bundle);
+
+    // Creates the bundle scripts file system watcher
+    const watcher = new FileSystemWatcher();
+    watcher.onDidCreate((uri) => {
+      watcherScriptOnDidCreate(controller, uri);
+    });
+    watcher.onDidDelete((uri) => {
+      watcherScriptOnDidDelete(controller, uri);
+    });
+    watcher.onDidChange((uri) => {
+      watcherScriptOnDidChange(project, controller, uri);
+    });
+    await watcher.update(new vscode.RelativePattern(bundle.scriptsPath, '**'));
 
-    // Find child instance that matches the deleted path.
-    let child = extensionScripts.root.findChild((value) => {
-      return value.isPath(uri);
-    }, true);
+    project.bundles.push(controller);
+    project.bundlesWatchers.push(watcher);
+  }
+}
 
-    // Delete child if found.
-    if (child) {
-      logger.logInfo(
-        `(Watcher) Deleting section: "${child.resourceUri.fsPath}"`
-      );
-      extensionScripts.sectionDelete(child);
-      await refresh();
+/**
+ * Asynchronously checks the extraction status of all additional bundle files.
+ *
+ * The script loader of extracted bundles is re-created if the extension is configured to do so.
+ */
+async function checkBundles() {
+  for (const controller of extensionProject.bundles) {
+    try {
+      const response = await controller.checkScripts();
+      if (response === ScriptsController.SCRIPTS_EXTRACTED) {
+        if (extensionConfig.configRecreateScriptLoader()) {
+          logger.logInfo(
+            `Re-creating script loader of bundle: "${controller.bundleName}"...`
+          );
+          await controller.createLoader();
+        }
+      } else if (response === ScriptsController.SCRIPTS_NOT_EXTRACTED) {
+        logger.logWarning(
+          `Scripts of bundle: "${controller.bundleName}" are not extracted yet!`
+        );
+      }
+    } catch (error) {
+      logger.logErrorUnknown(error);
     }
-  } catch (error) {
-    logger.logErrorUnknown(error);
   }
 }
 
 /**
- * Processes a game output file system watcher creation event.
- * @param uri Entry uri
+ * Gets all scripts controllers of the given project.
+ *
+ * The project's bundle controller is always the first one.
+ * @param project Project
+ * @returns List of scripts controllers
  */
-async function watcherGameOutputOnDidCreate(uri: vscode.Uri) {
-  try {
-    extensionGameplay.createException(uri.fsPath);
-  } catch (error) {
-    logger.logErrorUnknown(error);
-  }
+function controllers(project: Project = extensionProject) {
+  return [project.scripts, ...project.bundles];
 }
 
 /**
- * Asynchronously refreshes the extension editor.
+ * Gets the scripts controllers of all opened projects.
+ * @returns List of scripts controllers
+ */
+function allControllers() {
+  return extensionProjects.flatMap((project) => controllers(project));
+}
+
+/**
+ * Gets the scripts controller that manages the given editor section.
  *
- * To ensure that the tree is refreshed this method should be awaited.
+ * All opened projects are searched.
  *
- * If a specific tree item is given, it will refresh that tree item and all of its children.
- * @param options Refresh options
+ * If no controller manages the section, it returns the active project's bundle controller.
+ * @param section Editor section
+ * @returns Scripts controller
  */
-async function refresh(options?: RefreshOptions) {
-  try {
-    let item = options?.treeItem ?? extensionScripts.root;
+function resolveController(section: EditorSectionBase) {
+  return (
+    allControllers().find(
+      (controller) =>
+        controller.root === section ||
+        controller.root.findChild((value) => value === section, true)
+    ) || extensionScripts
+  );
+}
 
-    // Refreshes item/root based on the given argument
-    extensionUI.refresh(item, !options?.treeItem);
+/**
+ * Checks if the given editor section is the root of a scripts controller.
+ * @param section Editor section
+ * @returns Whether it is a root or not
+ */
+function isRoot(section: EditorSectionBase) {
+  return allControllers().some((controller) => controller.root === section);
+}
 
-    // Checks if the load order file should be refreshed
-    if (options?.noLoadOrderRefresh) {
-      return;
-    }
+/**
+ * Asks the user to choose the target bundle file of an operation.
+ *
+ * If the project does not have additional bundle files, it returns the project's bundle controller.
+ * @returns Scripts controller
+ */
+async function pickController() {
+  if (extensionProject.bundles.length === 0) {
+    return extensionScripts;
+  }
+  const pick = await vscode.window.showQuickPick(
+    controllers().map((controller) => {
+      return {
+        label: controller.bundleName,
+        description: controller.bundleFilePath?.fsPath,
+        controller: controller,
+      };
+    }),
+    { placeHolder: strings.PICK_BUNDLE_PLACEHOLDER }
+  );
+  return pick?.controller;
+}
 
-    // Updates load order file to match the current VSCode editor tree
-    let response = await extensionScripts.updateLoadOrderFile();
-    if (response === 0) {
-      logger.logWarning('Load order TXT file is empty!');
-      logger.logWarning(
-        'You should use the RGSS Script Editor view in VSCode to load scripts'
-      );
-      logger.logWarning(
-        'If load order TXT file is left empty, the game will not work at all!'
-      );
-    } else {
-      logger.logInfo(
-        `${response} entries were written in the load order TXT file.`
-      );
-    }
-  } catch (error) {
-    logger.logErrorUnknown(error);
+/**
+ * Determines the compiled bundle file path of the given scripts controller.
+ *
+ * Additional bundle files are compiled into the compile folder with their own file name.
+ * @param controller Scripts controller
+ * @returns Compiled bundle file uri path
+ */
+function determineCompilePath(controller: ScriptsController) {
+  if (controller === extensionScripts) {
+    return extensionConfig.determineScriptsCompilePath();
   }
+  const folder = extensionConfig.determineScriptsCompilePath({
+    removeFilePart: true,
+  });
+  const bundleFilePath = controller.bundleFilePath;
+  return folder && bundleFilePath
+    ? vscode.Uri.joinPath(folder, path.basename(bundleFilePath.fsPath))
+    : undefined;
 }
 
 /**
@@ -1433,8 +3202,9 @@ function validateUserInput(
   uri: vscode.Uri,
   name: string
 ): string | null {
-  let nameValidness = extensionScripts.validateName(name);
-  let sectionValidness = extensionScripts.sectionFind(uri, parent);
+  let controller = resolveController(parent);
+  let nameValidness = controller.validateName(name);
+  let sectionValidness = controller.sectionFind(uri, parent);
   // Checks name validness
   if (nameValidness) {
     return vscode.l10n.t(strings.VALIDATE_INPUT_NAME, nameValidness.toString());
@@ -1459,6 +3229,10 @@ function fetchWorkspaceFolders() {
   }
   let validFolders = [];
   for (let folder of folders) {
+    // Bundle files opened as folders are not real folders
+    if (folder.uri.scheme !== 'file') {
+      continue;
+    }
     if (extensionConfig.checkFolder(folder.uri)) {
       validFolders.push(folder);
     }
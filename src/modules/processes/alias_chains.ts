@@ -0,0 +1,165 @@
+import {
+  ControllerScriptSymbols,
+  EditorSectionBase,
+} from './scripts_controller';
+import {
+  flattenRubySymbols,
+  rubySymbolFullName,
+  RubySymbol,
+  RubySymbolKind,
+} from './ruby_syntax';
+
+/**
+ * Alias chain conflict enumerator.
+ */
+export const enum AliasChainConflict {
+  /**
+   * The alias name was already used by a previous alias.
+   *
+   * The previous alias is overwritten, so the method that calls it may call itself.
+   */
+  AliasReused = 1,
+
+  /**
+   * The method is redefined without aliasing the previous definition.
+   *
+   * The previous definition was chained with an alias, its changes are lost.
+   */
+  Overwritten,
+}
+
+/**
+ * Alias chain step type.
+ *
+ * Each step is a definition or an alias of the method.
+ */
+export type AliasChainStep = {
+  /**
+   * Script section of the step.
+   */
+  section: EditorSectionBase;
+
+  /**
+   * Method or alias symbol.
+   */
+  symbol: RubySymbol;
+
+  /**
+   * Definition saved by an alias step.
+   *
+   * It is ``undefined`` if the alias saves a built-in method.
+   */
+  captured?: AliasChainStep;
+
+  /**
+   * Whether the definition is the one used at runtime or not.
+   */
+  active: boolean;
+
+  /**
+   * Conflict found in this step.
+   */
+  conflict?: AliasChainConflict;
+
+  /**
+   * Previous step that conflicts with this step.
+   */
+  conflictWith?: AliasChainStep;
+};
+
+/**
+ * Alias chain type.
+ */
+export type AliasChain = {
+  /**
+   * Method full name (``Scene_Map#update``).
+   */
+  name: string;
+
+  /**
+   * Definitions and aliases of the method in load order.
+   */
+  steps: AliasChainStep[];
+};
+
+/**
+ * Reconstructs the alias chains of all aliased methods of the given scripts.
+ *
+ * Scripts must be given in load order, each alias saves the definition of the
+ * method at the moment the script is loaded.
+ *
+ * Chains are returned in the order the methods are aliased for the first time.
+ * @param entries List of script symbols
+ * @returns List of alias chains
+ */
+export function buildAliasChains(
+  entries: readonly ControllerScriptSymbols[]
+): AliasChain[] {
+  const history = new Map<string, AliasChainStep[]>();
+  const implementations = new Map<string, AliasChainStep | undefined>();
+  const definitions = new Map<string, AliasChainStep>();
+  const aliases = new Map<string, AliasChainStep>();
+  const aliased = new Set<string>();
+  const wrapped = new Set<string>();
+  const chains = new Set<string>();
+
+  // Adds the step to the history of the given method
+  const record = (name: string, step: AliasChainStep) => {
+    history.set(name, [...(history.get(name) ?? []), step]);
+  };
+
+  entries.forEach((entry) => {
+    flattenRubySymbols(entry.symbols).forEach((symbol) => {
+      if (symbol.kind === RubySymbolKind.Method) {
+        const name = rubySymbolFullName(symbol);
+        const step: AliasChainStep = {
+          section: entry.section,
+          symbol: symbol,
+          active: false,
+        };
+        // A definition that wraps the method must alias it first
+        if (wrapped.has(name) && !aliased.has(name)) {
+          step.conflict = AliasChainConflict.Overwritten;
+          step.conflictWith = definitions.get(name);
+        }
+        if (aliased.has(name)) {
+          wrapped.add(name);
+        } else {
+          wrapped.delete(name);
+        }
+        aliased.delete(name);
+        definitions.set(name, step);
+        implementations.set(name, step);
+        record(name, step);
+      } else if (symbol.kind === RubySymbolKind.Alias && symbol.original) {
+        const name = rubySymbolFullName(symbol);
+        const original = rubySymbolFullName({
+          ...symbol,
+          name: symbol.original,
+        });
+        const step: AliasChainStep = {
+          section: entry.section,
+          symbol: symbol,
+          captured: implementations.get(original),
+          active: false,
+        };
+        const previous = aliases.get(name);
+        if (previous) {
+          step.conflict = AliasChainConflict.AliasReused;
+          step.conflictWith = previous;
+        }
+        aliases.set(name, step);
+        aliased.add(original);
+        implementations.set(name, step.captured);
+        chains.add(original);
+        record(original, step);
+      }
+    });
+  });
+
+  // The last definition of each method is used at runtime
+  definitions.forEach((step) => (step.active = true));
+  return Array.from(chains).map((name) => {
+    return { name: name, steps: history.get(name) ?? [] };
+  });
+}
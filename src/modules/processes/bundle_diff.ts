@@ -0,0 +1,139 @@
+import { BundleSection } from './scripts_controller';
+
+/**
+ * Bundle difference status enumerator.
+ */
+export const enum BundleDiffStatus {
+  /**
+   * Section only exists in the modified bundle.
+   */
+  Added = 1,
+
+  /**
+   * Section only exists in the original bundle.
+   */
+  Removed,
+
+  /**
+   * Section name changed.
+   */
+  Renamed,
+
+  /**
+   * Section name and code changed.
+   */
+  RenamedModified,
+
+  /**
+   * Section code changed.
+   */
+  Modified,
+
+  /**
+   * Section did not change.
+   */
+  Unchanged,
+}
+
+/**
+ * Bundle difference entry type.
+ */
+export type BundleDiffEntry = {
+  /**
+   * Difference status.
+   */
+  status: BundleDiffStatus;
+
+  /**
+   * Section of the original bundle.
+   *
+   * It is ``undefined`` for added sections.
+   */
+  original?: BundleSection;
+
+  /**
+   * Section of the modified bundle.
+   *
+   * It is ``undefined`` for removed sections.
+   */
+  modified?: BundleSection;
+};
+
+/**
+ * Computes the differences between the ``original`` and the ``modified`` bundles.
+ *
+ * Sections are matched by ID first, then by name and finally by code.
+ *
+ * The ``.rb`` extension is ignored when comparing names, since bundle files created by
+ * RPG Maker do not include it.
+ *
+ * Entries are returned in the order of the modified bundle, removed sections are appended at the end.
+ * @param original Original bundle sections
+ * @param modified Modified bundle sections
+ * @returns List of differences
+ */
+export function diffBundles(
+  original: readonly BundleSection[],
+  modified: readonly BundleSection[]
+): BundleDiffEntry[] {
+  const matches = new Map<BundleSection, BundleSection>();
+  const matched = new Set<BundleSection>();
+
+  // Matches sections using the given comparison
+  const match = (compare: (a: BundleSection, b: BundleSection) => boolean) => {
+    for (const section of modified) {
+      if (matches.has(section)) {
+        continue;
+      }
+      const other = original.find(
+        (value) => !matched.has(value) && compare(value, section)
+      );
+      if (other) {
+        matches.set(section, other);
+        matched.add(other);
+      }
+    }
+  };
+
+  match((a, b) => a.id === b.id);
+  match((a, b) => normalizeName(a.name) === normalizeName(b.name));
+  match((a, b) => a.code.trim().length > 0 && a.code.trim() === b.code.trim());
+
+  // Determines the status of each section
+  const entries: BundleDiffEntry[] = modified.map((section) => {
+    const other = matches.get(section);
+    if (!other) {
+      return { status: BundleDiffStatus.Added, modified: section };
+    }
+    const renamed = normalizeName(other.name) !== normalizeName(section.name);
+    const changed = other.code.trim() !== section.code.trim();
+    return {
+      status: renamed
+        ? changed
+          ? BundleDiffStatus.RenamedModified
+          : BundleDiffStatus.Renamed
+        : changed
+        ? BundleDiffStatus.Modified
+        : BundleDiffStatus.Unchanged,
+      original: other,
+      modified: section,
+    };
+  });
+
+  // Appends removed sections
+  for (const section of original) {
+    if (!matched.has(section)) {
+      entries.push({ status: BundleDiffStatus.Removed, original: section });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Normalizes the given section name for comparison.
+ * @param name Section name
+ * @returns Normalized name
+ */
+function normalizeName(name: string) {
+  return name.trim().replace(/\.rb$/i, '');
+}
@@ -0,0 +1,634 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import * as strings from '../utils/strings';
+import { Configuration } from '../utils/configuration';
+import { logger } from '../utils/logger';
+import { GameChannel } from './game_channel';
+import { GameExitInfo, GameplayController } from './gameplay_controller';
+
+/**
+ * Debugger type contributed by the extension.
+ */
+export const DEBUG_TYPE = 'rgss';
+
+/**
+ * Debug adapter protocol request type.
+ *
+ * Only the attributes used by the debug adapter are typed.
+ */
+type DebugRequest = {
+  /**
+   * Request sequence number.
+   */
+  seq: number;
+
+  /**
+   * Message type.
+   */
+  type: string;
+
+  /**
+   * Request command.
+   */
+  command: string;
+
+  /**
+   * Request arguments.
+   *
+   * Each request narrows them to its own arguments type.
+   */
+  arguments?: unknown;
+};
+
+/**
+ * Set breakpoints request arguments type.
+ */
+type SetBreakpointsArguments = {
+  /**
+   * Source of the breakpoints.
+   */
+  source?: { path?: string };
+
+  /**
+   * List of breakpoints of the source.
+   */
+  breakpoints?: { line: number }[];
+};
+
+/**
+ * Scopes request arguments type.
+ */
+type ScopesArguments = {
+  /**
+   * Frame index.
+   */
+  frameId: number;
+};
+
+/**
+ * Variables request arguments type.
+ */
+type VariablesArguments = {
+  /**
+   * Variables reference of the scope.
+   */
+  variablesReference: number;
+};
+
+/**
+ * Evaluate request arguments type.
+ */
+type EvaluateArguments = {
+  /**
+   * Expression to evaluate.
+   */
+  expression: string;
+
+  /**
+   * Frame index where the expression is evaluated.
+   */
+  frameId?: number;
+};
+
+/**
+ * Disconnect and terminate requests arguments type.
+ */
+type DisconnectArguments = {
+  /**
+   * Whether the game process is stopped or not.
+   */
+  terminateDebuggee?: boolean;
+};
+
+/**
+ * Game debug frame type.
+ */
+type GameDebugFrame = {
+  /**
+   * File path relative to the project folder.
+   */
+  file: string;
+
+  /**
+   * Line number.
+   */
+  line: number;
+
+  /**
+   * Method name.
+   */
+  name: string;
+};
+
+/**
+ * Time (in milliseconds) to wait for the debug agent to start.
+ */
+const DEBUG_AGENT_TIMEOUT = 15_000;
+
+/**
+ * Time (in milliseconds) to wait for a debug agent response.
+ */
+const DEBUG_QUERY_TIMEOUT = 5_000;
+
+/**
+ * Thread ID reported to VSCode.
+ *
+ * The game is debugged as a single thread.
+ */
+const DEBUG_THREAD_ID = 1;
+
+/**
+ * Game debug adapter class.
+ *
+ * Implements the debug adapter protocol to debug the game scripts.
+ *
+ * The game is launched with the script loader debug agent enabled, which stops
+ * the game at breakpoints and steps using ``set_trace_func``.
+ */
+export class GameDebugAdapter implements vscode.DebugAdapter {
+  /**
+   * Extension configuration instance.
+   */
+  private _config: Configuration;
+
+  /**
+   * Gameplay controller instance.
+   */
+  private _gameplay: GameplayController;
+
+  /**
+   * Debug channel instance.
+   *
+   * It is ``undefined`` until the game is launched.
+   */
+  private _channel?: GameChannel;
+
+  /**
+   * Debugged game process PID.
+   */
+  private _pid?: number;
+
+  /**
+   * Breakpoints lines by file path (relative to the project folder).
+   */
+  private _breakpoints: Map<string, number[]>;
+
+  /**
+   * Frames of the last stop.
+   */
+  private _frames: GameDebugFrame[];
+
+  /**
+   * Pending debug agent queries by their sequence number.
+   */
+  private _queries: Map<string, (fields: string[]) => void>;
+
+  /**
+   * Debug agent queries sequence number.
+   */
+  private _querySeq: number;
+
+  /**
+   * Debug adapter protocol messages sequence number.
+   */
+  private _seq: number;
+
+  /**
+   * Whether the game is paused or not.
+   */
+  private _paused: boolean;
+
+  /**
+   * Configuration done promise resolver.
+   */
+  private _configurationDone: () => void;
+
+  /**
+   * Configuration done promise.
+   *
+   * The game is launched after the client sends all breakpoints.
+   */
+  private _configured: Promise<void>;
+
+  /**
+   * Debug agent start timer.
+   */
+  private _agentTimer?: NodeJS.Timeout;
+
+  /**
+   * Game process exit listener.
+   */
+  private _exitListener: vscode.Disposable;
+
+  /**
+   * Event fired when the debug adapter sends a message to VSCode.
+   */
+  private _onDidSendMessageEmitter =
+    new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+  readonly onDidSendMessage: vscode.Event<vscode.DebugProtocolMessage> =
+    this._onDidSendMessageEmitter.event;
+
+  /**
+   * Constructor.
+   * @param config Configuration instance.
+   * @param gameplay Gameplay controller instance.
+   */
+  constructor(config: Configuration, gameplay: GameplayController) {
+    this._config = config;
+    this._gameplay = gameplay;
+    this._channel = undefined;
+    this._pid = undefined;
+    this._breakpoints = new Map();
+    this._frames = [];
+    this._queries = new Map();
+    this._querySeq = 0;
+    this._seq = 1;
+    this._paused = false;
+    this._configurationDone = () => {};
+    this._configured = new Promise((resolve) => {
+      this._configurationDone = resolve;
+    });
+    this._agentTimer = undefined;
+    this._exitListener = this._gameplay.onDidExit((info) =>
+      this._onGameExit(info)
+    );
+  }
+
+  /**
+   * Handles a debug adapter protocol message sent by VSCode.
+   *
+   * Errors are sent back as an error response.
+   * @param message Debug adapter protocol message.
+   */
+  handleMessage(message: vscode.DebugProtocolMessage): void {
+    const request = message as DebugRequest;
+    if (request.type !== 'request') {
+      return;
+    }
+    this._handleRequest(request).catch((error) => {
+      logger.logErrorUnknown(error);
+      this._sendResponse(request, undefined, this._errorMessage(error));
+    });
+  }
+
+  /**
+   * Disposes the debug adapter.
+   *
+   * The game process is not killed.
+   */
+  dispose() {
+    clearTimeout(this._agentTimer);
+    this._exitListener.dispose();
+    this._channel?.close();
+    this._channel = undefined;
+    this._onDidSendMessageEmitter.dispose();
+  }
+
+  /**
+   * Asynchronously handles the given request.
+   * @param request Request.
+   * @returns A promise
+   * @throws An error if the request cannot be processed
+   */
+  private async _handleRequest(request: DebugRequest) {
+    switch (request.command) {
+      case 'initialize': {
+        this._sendResponse(request, {
+          supportsConfigurationDoneRequest: true,
+          supportsEvaluateForHovers: true,
+          supportTerminateDebuggee: true,
+        });
+        this._sendEvent('initialized');
+        break;
+      }
+      case 'launch': {
+        await this._configured;
+        await this._launch();
+        this._sendResponse(request);
+        break;
+      }
+      case 'setBreakpoints': {
+        const args = (request.arguments ?? {}) as SetBreakpointsArguments;
+        const lines = (args.breakpoints ?? []).map(
+          (breakpoint) => breakpoint.line
+        );
+        const file = this._toRelative(args.source?.path ?? '');
+        this._breakpoints.set(file, lines);
+        this._channel?.send('breakpoints', file, lines.join(','));
+        this._sendResponse(request, {
+          breakpoints: lines.map((line) => {
+            return { verified: true, line: line };
+          }),
+        });
+        break;
+      }
+      case 'configurationDone': {
+        this._configurationDone();
+        this._sendResponse(request);
+        break;
+      }
+      case 'threads': {
+        this._sendResponse(request, {
+          threads: [{ id: DEBUG_THREAD_ID, name: 'Game' }],
+        });
+        break;
+      }
+      case 'stackTrace': {
+        this._sendResponse(request, {
+          stackFrames: this._frames.map((frame, index) => {
+            const file = this._toAbsolute(frame.file);
+            return {
+              id: index,
+              name: frame.name,
+              line: frame.line,
+              column: 1,
+              source: fs.existsSync(file)
+                ? { name: path.basename(file), path: file }
+                : { name: frame.file, presentationHint: 'deemphasize' },
+            };
+          }),
+          totalFrames: this._frames.length,
+        });
+        break;
+      }
+      case 'scopes': {
+        const args = request.arguments as ScopesArguments;
+        this._sendResponse(request, {
+          scopes: [
+            {
+              name: 'Locals',
+              presentationHint: 'locals',
+              variablesReference: args.frameId + 1,
+              expensive: false,
+            },
+          ],
+        });
+        break;
+      }
+      case 'variables': {
+        const args = request.arguments as VariablesArguments;
+        const fields = this._paused
+          ? await this._query('variables', args.variablesReference - 1)
+          : [];
+        const variables = [];
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+          variables.push({
+            name: fields[i],
+            value: fields[i + 1],
+            variablesReference: 0,
+          });
+        }
+        this._sendResponse(request, { variables: variables });
+        break;
+      }
+      case 'evaluate': {
+        if (!this._paused) {
+          throw new Error(strings.DEBUG_NOT_PAUSED);
+        }
+        const args = request.arguments as EvaluateArguments;
+        const [result, failed] = await this._query(
+          'evaluate',
+          args.frameId ?? 0,
+          args.expression
+        );
+        if (failed === '1') {
+          throw new Error(result);
+        }
+        this._sendResponse(request, { result: result, variablesReference: 0 });
+        break;
+      }
+      case 'continue': {
+        this._resume('continue');
+        this._sendResponse(request, { allThreadsContinued: true });
+        break;
+      }
+      case 'next':
+      case 'stepIn':
+      case 'stepOut': {
+        this._resume(request.command);
+        this._sendResponse(request);
+        break;
+      }
+      case 'pause': {
+        this._channel?.send('pause');
+        this._sendResponse(request);
+        break;
+      }
+      case 'disconnect':
+      case 'terminate': {
+        const args = (request.arguments ?? {}) as DisconnectArguments;
+        this._channel?.send('disconnect');
+        this._paused = false;
+        if (this._pid && args.terminateDebuggee !== false) {
+          this._gameplay.stopGame(this._pid);
+        }
+        this._sendResponse(request);
+        if (request.command === 'terminate') {
+          this._sendEvent('terminated');
+        }
+        break;
+      }
+      default: {
+        throw new Error(`Unsupported debug request: "${request.command}"`);
+      }
+    }
+  }
+
+  /**
+   * Asynchronously launches the game with the debug agent enabled.
+   *
+   * All breakpoints are sent before the game is launched.
+   * @returns A promise
+   * @throws An error if the game cannot be launched
+   */
+  private async _launch() {
+    const eventsPath = this._config.determineDebugEventsPath()?.fsPath;
+    const commandsPath = this._config.determineDebugCommandsPath()?.fsPath;
+    if (!this._config.isValid() || !eventsPath || !commandsPath) {
+      throw new Error(strings.DEBUG_INVALID_PROJECT);
+    }
+
+    // Opens the channel with all breakpoints
+    this._channel = new GameChannel(eventsPath, commandsPath);
+    this._channel.open();
+    this._channel.onDidReceive((fields) => this._onAgentEvent(fields));
+    this._breakpoints.forEach((lines, file) => {
+      this._channel?.send('breakpoints', file, lines.join(','));
+    });
+
+    // Launches the game
+    logger.logInfo('Launching the game with the debug agent enabled...');
+    this._pid = await this._gameplay.runGame({ debug: true });
+    if (!this._pid) {
+      throw new Error(strings.DEBUG_LAUNCH_FAILED);
+    }
+
+    // Old script loaders do not include the debug agent
+    this._agentTimer = setTimeout(() => {
+      logger.logWarning(
+        'The debug agent did not start, the script loader may be outdated!'
+      );
+      vscode.window.showWarningMessage(strings.DEBUG_AGENT_NOT_FOUND);
+    }, DEBUG_AGENT_TIMEOUT);
+  }
+
+  /**
+   * Resumes the game execution with the given command.
+   * @param command Resume command.
+   */
+  private _resume(command: string) {
+    this._paused = false;
+    this._frames = [];
+    this._channel?.send(command);
+  }
+
+  /**
+   * Asynchronously sends a query to the debug agent and waits for its response.
+   * @param command Query command.
+   * @param args Query arguments.
+   * @returns A promise resolved with the response fields
+   * @throws An error if the debug agent does not respond in time
+   */
+  private _query(command: string, ...args: (string | number)[]) {
+    const seq = (++this._querySeq).toString();
+    return new Promise<string[]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this._queries.delete(seq);
+        reject(new Error(`Debug agent did not respond to: "${command}"`));
+      }, DEBUG_QUERY_TIMEOUT);
+      this._queries.set(seq, (fields) => {
+        clearTimeout(timer);
+        resolve(fields);
+      });
+      this._channel?.send(command, seq, ...args);
+    });
+  }
+
+  /**
+   * Method called when the debug agent writes an event.
+   * @param fields Event fields.
+   */
+  private _onAgentEvent([event, ...fields]: string[]) {
+    switch (event) {
+      case 'ready': {
+        logger.logInfo('The debug agent started successfully!');
+        clearTimeout(this._agentTimer);
+        break;
+      }
+      case 'stopped': {
+        const [reason, ...frames] = fields;
+        this._frames = [];
+        for (let i = 0; i + 2 < frames.length; i += 3) {
+          this._frames.push({
+            file: frames[i],
+            line: parseInt(frames[i + 1]),
+            name: frames[i + 2],
+          });
+        }
+        this._paused = true;
+        this._sendEvent('stopped', {
+          reason: reason,
+          threadId: DEBUG_THREAD_ID,
+          allThreadsStopped: true,
+        });
+        break;
+      }
+      case 'variables':
+      case 'evaluate': {
+        const [seq, ...response] = fields;
+        this._queries.get(seq)?.(response);
+        this._queries.delete(seq);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Method called when a game process finishes its execution.
+   *
+   * The debug session ends when the debugged game process finishes.
+   * @param info Game process exit information.
+   */
+  private _onGameExit(info: GameExitInfo) {
+    if (info.pid !== this._pid) {
+      return;
+    }
+    clearTimeout(this._agentTimer);
+    this._pid = undefined;
+    this._paused = false;
+    this._sendEvent('exited', { exitCode: info.code ?? 0 });
+    this._sendEvent('terminated');
+  }
+
+  /**
+   * Converts the given absolute path into a path relative to the project folder.
+   *
+   * Path segments are separated with forward slashes, as the debug agent does.
+   * @param file Absolute path.
+   * @returns Relative path.
+   */
+  private _toRelative(file: string) {
+    return (this._config.fromProject(vscode.Uri.file(file)) ?? file)
+      .split(path.sep)
+      .join('/');
+  }
+
+  /**
+   * Converts the given path relative to the project folder into an absolute path.
+   * @param file Relative path.
+   * @returns Absolute path.
+   */
+  private _toAbsolute(file: string) {
+    return path.resolve(this._config.projectFolderPath?.fsPath ?? '', file);
+  }
+
+  /**
+   * Sends a response of the given request to VSCode.
+   *
+   * The request fails if an error message is given.
+   * @param request Request.
+   * @param body Response body.
+   * @param message Error message.
+   */
+  private _sendResponse(
+    request: DebugRequest,
+    body?: object,
+    message?: string
+  ) {
+    this._send({
+      type: 'response',
+      request_seq: request.seq,
+      command: request.command,
+      success: message === undefined,
+      message: message,
+      body: body,
+    });
+  }
+
+  /**
+   * Sends an event to VSCode.
+   * @param event Event name.
+   * @param body Event body.
+   */
+  private _sendEvent(event: string, body?: object) {
+    this._send({ type: 'event', event: event, body: body });
+  }
+
+  /**
+   * Sends the given message to VSCode.
+   * @param message Message.
+   */
+  private _send(message: object) {
+    this._onDidSendMessageEmitter.fire({ seq: this._seq++, ...message });
+  }
+
+  /**
+   * Gets the message of the given error.
+   * @param error Error.
+   * @returns Error message.
+   */
+  private _errorMessage(error: unknown) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
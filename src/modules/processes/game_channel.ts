@@ -0,0 +1,149 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { TextDecoder } from 'util';
+import { logger } from '../utils/logger';
+
+/**
+ * Interval (in milliseconds) used to check for new lines written by the game.
+ */
+const CHANNEL_POLL_INTERVAL = 100;
+
+/**
+ * Game channel class.
+ *
+ * Exchanges tab separated lines with the running game using two files.
+ *
+ * The game appends lines to the input file, the extension appends lines to the output file.
+ */
+export class GameChannel {
+  /**
+   * Input file path (written by the game).
+   */
+  private _inputPath: string;
+
+  /**
+   * Output file path (written by the extension).
+   */
+  private _outputPath: string;
+
+  /**
+   * Number of bytes of the input file that were already read.
+   */
+  private _offset: number;
+
+  /**
+   * Input file polling timer.
+   */
+  private _timer?: NodeJS.Timeout;
+
+  /**
+   * Text decoder instance.
+   */
+  private _textDecoder: TextDecoder;
+
+  /**
+   * Event fired when the game writes a line.
+   */
+  private _onDidReceiveEmitter = new vscode.EventEmitter<string[]>();
+  readonly onDidReceive: vscode.Event<string[]> =
+    this._onDidReceiveEmitter.event;
+
+  /**
+   * Constructor.
+   * @param inputPath Input file path.
+   * @param outputPath Output file path.
+   */
+  constructor(inputPath: string, outputPath: string) {
+    this._inputPath = inputPath;
+    this._outputPath = outputPath;
+    this._offset = 0;
+    this._timer = undefined;
+    this._textDecoder = new TextDecoder('utf8');
+  }
+
+  /**
+   * Opens the channel.
+   *
+   * Both files are emptied so the information of a previous channel is discarded.
+   */
+  open() {
+    fs.mkdirSync(path.dirname(this._inputPath), { recursive: true });
+    fs.mkdirSync(path.dirname(this._outputPath), { recursive: true });
+    fs.writeFileSync(this._inputPath, '');
+    fs.writeFileSync(this._outputPath, '');
+    this._offset = 0;
+    this._timer = setInterval(() => this._poll(), CHANNEL_POLL_INTERVAL);
+  }
+
+  /**
+   * Sends a line with the given fields to the game.
+   * @param fields Line fields.
+   */
+  send(...fields: (string | number)[]) {
+    const line = fields
+      .map((field) =>
+        field
+          .toString()
+          .replace(/\\/g, '\\\\')
+          .replace(/\t/g, '\\t')
+          .replace(/\r?\n/g, '\\n')
+      )
+      .join('\t');
+    fs.appendFileSync(this._outputPath, `${line}\n`);
+  }
+
+  /**
+   * Closes the channel.
+   */
+  close() {
+    clearInterval(this._timer);
+    this._timer = undefined;
+    this._onDidReceiveEmitter.dispose();
+  }
+
+  /**
+   * Reads all lines appended to the input file since the last read.
+   *
+   * Incomplete lines are left to be read with the next call.
+   */
+  private _poll() {
+    try {
+      if (!fs.existsSync(this._inputPath)) {
+        return;
+      }
+      const size = fs.statSync(this._inputPath).size;
+      if (size <= this._offset) {
+        return;
+      }
+      const contents = Buffer.alloc(size - this._offset);
+      const fd = fs.openSync(this._inputPath, 'r');
+      try {
+        fs.readSync(fd, contents, 0, contents.length, this._offset);
+      } finally {
+        fs.closeSync(fd);
+      }
+      const end = contents.lastIndexOf('\n');
+      if (end === -1) {
+        return;
+      }
+      this._offset += end + 1;
+      this._textDecoder
+        .decode(contents.subarray(0, end))
+        .split('\n')
+        .map((line) =>
+          line
+            .replace(/\r$/, '')
+            .split('\t')
+            .map((field) =>
+              field.replace(/\\(.)/g, (_match, char: string) =>
+                char === 't' ? '\t' : char === 'n' ? '\n' : char
+              )
+            )
+        )
+        .forEach((fields) => this._onDidReceiveEmitter.fire(fields));
+    } catch (error) {
+      logger.logErrorUnknown(error);
+    }
+  }
+}
@@ -3,8 +3,14 @@ import * as cp from 'child_process';
 import * as fs from 'fs';
 import * as vscode from 'vscode';
 import * as marshal from '@hyrious/marshal';
+import { Readable } from 'stream';
 import { TextDecoder } from 'util';
-import { Configuration, RunGameBehavior } from '../utils/configuration';
+import {
+  Configuration,
+  GameOutput,
+  GameRunner,
+  RunGameBehavior,
+} from '../utils/configuration';
 import { logger } from '../utils/logger';
 
 /**
@@ -29,6 +35,142 @@ type RubyExceptionInfo = {
   back: any[];
 };
 
+/**
+ * Ruby object type.
+ *
+ * Instance variables of a loaded Ruby object are stored as symbol keys (``@name``).
+ */
+type RubyObject = Record<symbol, unknown>;
+
+/**
+ * Game output line type.
+ */
+export type GameOutputLine = {
+  /**
+   * Game process PID.
+   */
+  pid: number;
+
+  /**
+   * Where the line is shown.
+   */
+  target: string;
+
+  /**
+   * Output line text.
+   *
+   * The line is prefixed with the process PID when several game processes are allowed.
+   */
+  text: string;
+
+  /**
+   * Whether the line was written to the standard error or not.
+   */
+  error: boolean;
+};
+
+/**
+ * Game process exit information type.
+ */
+export type GameExitInfo = {
+  /**
+   * Game process PID.
+   */
+  pid: number;
+
+  /**
+   * Exit code.
+   */
+  code: number | null;
+
+  /**
+   * Exit signal.
+   */
+  signal: NodeJS.Signals | null;
+
+  /**
+   * Whether the game finished by itself without any exception or not.
+   */
+  success: boolean;
+};
+
+/**
+ * Game run options type.
+ */
+export type GameRunOptions = {
+  /**
+   * Whether to enable the debug agent of the script loader or not.
+   */
+  debug?: boolean;
+
+  /**
+   * Whether to launch the game in battle test mode or not.
+   */
+  battleTest?: boolean;
+};
+
+/**
+ * Game troop information type.
+ */
+export type GameTroop = {
+  /**
+   * Troop ID.
+   */
+  id: number;
+
+  /**
+   * Troop name.
+   */
+  name: string;
+};
+
+/**
+ * Game log record type.
+ */
+export type GameLogRecord = {
+  /**
+   * Record level.
+   */
+  level: string;
+
+  /**
+   * Record message.
+   */
+  message: string;
+
+  /**
+   * Absolute path to the script that wrote the record.
+   *
+   * It is ``undefined`` if the script is not a file.
+   */
+  file?: string;
+
+  /**
+   * Line of the script that wrote the record.
+   */
+  line?: number;
+};
+
+/**
+ * Game exception serialized data type.
+ *
+ * Used to persist the exception history.
+ */
+type GameExceptionData = {
+  name: string;
+  message: string;
+  timestamp: string;
+  session: string;
+  backtrace: { file: string; line: number; message?: string; uri?: string }[];
+};
+
+/**
+ * Maximum number of exceptions kept in the exception history.
+ *
+ * The oldest exceptions are removed when the limit is reached.
+ */
+const EXCEPTION_HISTORY_LIMIT = 50;
+
 /**
  * Game exception regular expression.
  *
@@ -38,10 +180,51 @@ type RubyExceptionInfo = {
  */
 const GAME_EXCEPTION_REGEXP = /(.*):(\d+)(?::(.*))?/;
 
+/**
+ * RPG Maker bundle section backtrace regular expression.
+ *
+ * Matches the RGSS3 ``{0123}`` format and the RGSS1/RGSS2 ``Section123`` format.
+ *
+ * The section index is extracted with the first or the second group match.
+ */
+const GAME_SECTION_REGEXP = /^(?:\{(\d+)\}|Section(\d+))$/;
+
+/**
+ * Database files that the game loads in battle test mode.
+ *
+ * Each file is loaded with the ``BT_`` prefix, the system data file is written separately.
+ */
+const BATTLE_TEST_DATA_FILES = [
+  'Actors',
+  'Classes',
+  'Skills',
+  'Items',
+  'Weapons',
+  'Armors',
+  'Enemies',
+  'Troops',
+  'States',
+  'Animations',
+  'Tilesets',
+  'CommonEvents',
+];
+
+/**
+ * Bundle section resolver type.
+ *
+ * Determines the location of the script at the given position of the given bundle file.
+ *
+ * Used to resolve the backtrace lines of scripts inside the bundle file.
+ */
+export type BundleSectionResolver = (
+  bundleFile: vscode.Uri,
+  index: number
+) => vscode.Uri | undefined;
+
 /**
  * Exception backtrace information class.
  */
-class GameExceptionBacktrace {
+export class GameExceptionBacktrace {
   /**
    * Absolute path to the file.
    *
@@ -59,16 +242,25 @@ class GameExceptionBacktrace {
    */
   readonly message?: string;
 
+  /**
+   * Backtrace location URI.
+   *
+   * Scripts inside the bundle file are located with a bundle section URI.
+   */
+  readonly uri: vscode.Uri;
+
   /**
    * Constructor.
    * @param file File absolute path.
    * @param line Line number.
    * @param message Optional message.
+   * @param uri Optional location URI.
    */
-  constructor(file: string, line: number, message?: string) {
+  constructor(file: string, line: number, message?: string, uri?: vscode.Uri) {
     this.file = file;
     this.line = line;
     this.message = message;
+    this.uri = uri ?? vscode.Uri.file(file);
   }
 
   /**
@@ -103,6 +295,13 @@ export class GameException {
    */
   readonly timestamp: Date;
 
+  /**
+   * Launch timestamp of the game session that reported the exception.
+   *
+   * If the game was not launched by the extension, it is the exception creation timestamp.
+   */
+  readonly session: Date;
+
   /**
    * Backtrace list.
    */
@@ -112,22 +311,49 @@ export class GameException {
    * Constructor.
    * @param name Exception name.
    * @param message Exception message.
+   * @param timestamp Optional creation timestamp.
+   * @param session Optional game session timestamp.
    */
-  constructor(name: string, message: string) {
+  constructor(name: string, message: string, timestamp?: Date, session?: Date) {
     this.name = name;
     this.message = message;
-    this.timestamp = new Date();
+    this.timestamp = timestamp ?? new Date();
+    this.session = session ?? this.timestamp;
     this.backtrace = [];
   }
 
+  /**
+   * Creates a game exception instance from the given serialized data.
+   * @param data Serialized data.
+   * @returns Game exception instance.
+   */
+  static fromJSON(data: GameExceptionData) {
+    const exception = new GameException(
+      data.name,
+      data.message,
+      new Date(data.timestamp),
+      new Date(data.session)
+    );
+    data.backtrace.forEach((item) => {
+      exception.addTrace(
+        item.file,
+        item.line,
+        item.message,
+        item.uri ? vscode.Uri.parse(item.uri) : undefined
+      );
+    });
+    return exception;
+  }
+
   /**
    * Adds a new backtrace element with the given information.
    * @param file File absolute path.
    * @param line Line number.
    * @param message Optional message.
+   * @param uri Optional location URI.
    */
-  addTrace(file: string, line: number, message?: string) {
-    this.backtrace.push(new GameExceptionBacktrace(file, line, message));
+  addTrace(file: string, line: number, message?: string, uri?: vscode.Uri) {
+    this.backtrace.push(new GameExceptionBacktrace(file, line, message, uri));
   }
 
   /**
@@ -167,6 +393,27 @@ export class GameException {
     return mark;
   }
 
+  /**
+   * Converts the exception into a serializable object.
+   * @returns Serialized data.
+   */
+  toJSON(): GameExceptionData {
+    return {
+      name: this.name,
+      message: this.message,
+      timestamp: this.timestamp.toISOString(),
+      session: this.session.toISOString(),
+      backtrace: this.backtrace.map((item) => {
+        return {
+          file: item.file,
+          line: item.line,
+          message: item.message,
+          uri: item.uri.toString(),
+        };
+      }),
+    };
+  }
+
   /**
    * Converts the exception into a string instance.
    * @returns A string.
@@ -185,29 +432,92 @@ export class GameplayController {
    */
   private _config?: Configuration;
 
+  /**
+   * Bundle section resolver.
+   */
+  private _resolver: BundleSectionResolver;
+
   /**
    * Executable last exception.
    */
   private _lastException?: GameException;
 
+  /**
+   * Exception history.
+   *
+   * Exceptions are sorted from oldest to newest.
+   */
+  private _exceptions: GameException[];
+
+  /**
+   * Launch timestamp of the last game session.
+   */
+  private _session?: Date;
+
   /**
    * Executable processes.
    */
   private _executables: Map<number, cp.ChildProcess>;
 
+  /**
+   * Executable processes launch timestamps.
+   */
+  private _launchTimes: Map<number, Date>;
+
+  /**
+   * Executable processes console IDs.
+   *
+   * Used to name the console files of each game process.
+   */
+  private _consoleIds: Map<number, string>;
+
   /**
    * Text decoder instance.
    */
   private _textDecoder: TextDecoder;
 
+  /**
+   * Number of bytes of the log records file that were already read.
+   */
+  private _recordsOffset: number;
+
+  /**
+   * Event fired when a game process writes an output line.
+   */
+  private _onDidWriteOutputEmitter = new vscode.EventEmitter<GameOutputLine>();
+  readonly onDidWriteOutput: vscode.Event<GameOutputLine> =
+    this._onDidWriteOutputEmitter.event;
+
+  /**
+   * Event fired when a game process finishes its execution.
+   */
+  private _onDidExitEmitter = new vscode.EventEmitter<GameExitInfo>();
+  readonly onDidExit: vscode.Event<GameExitInfo> = this._onDidExitEmitter.event;
+
+  /**
+   * Event fired when the exception history changes.
+   */
+  private _onDidChangeExceptionsEmitter = new vscode.EventEmitter<
+    GameException[]
+  >();
+  readonly onDidChangeExceptions: vscode.Event<GameException[]> =
+    this._onDidChangeExceptionsEmitter.event;
+
   /**
    * Constructor.
+   * @param resolver Bundle section resolver.
    */
-  constructor() {
+  constructor(resolver: BundleSectionResolver) {
     this._config = undefined;
+    this._resolver = resolver;
     this._lastException = undefined;
+    this._exceptions = [];
+    this._session = undefined;
     this._executables = new Map();
+    this._launchTimes = new Map();
+    this._consoleIds = new Map();
     this._textDecoder = new TextDecoder('utf8');
+    this._recordsOffset = 0;
   }
 
   /**
@@ -220,6 +530,44 @@ export class GameplayController {
     return this._lastException;
   }
 
+  /**
+   * Gets the list of exceptions that the game executable reported.
+   *
+   * Exceptions are sorted from oldest to newest.
+   * @returns The exception history.
+   */
+  get exceptions() {
+    return this._exceptions;
+  }
+
+  /**
+   * Gets the PIDs of all running game processes.
+   * @returns List of PIDs
+   */
+  get processes() {
+    return Array.from(this._executables.keys());
+  }
+
+  /**
+   * Gets the launch timestamp of the given game process.
+   * @param pid Game process PID
+   * @returns Launch timestamp
+   */
+  getLaunchTime(pid: number) {
+    return this._launchTimes.get(pid);
+  }
+
+  /**
+   * Gets the console ID of the given game process.
+   *
+   * If the process is not running it returns ``undefined``.
+   * @param pid Game process PID
+   * @returns Console ID
+   */
+  getConsoleId(pid: number) {
+    return this._consoleIds.get(pid);
+  }
+
   /**
    * Gets if the game executable is currently running
    * @returns Whether it is running or not
@@ -238,6 +586,21 @@ export class GameplayController {
     // Make sure to dispose so info does not mix up between projects
     await this.dispose();
     this._config = config;
+    this._loadExceptions();
+  }
+
+  /**
+   * Removes all exceptions from the exception history.
+   *
+   * The exception history file is deleted.
+   */
+  clearExceptions() {
+    this._exceptions = [];
+    const historyPath = this._config?.determineExceptionHistoryPath()?.fsPath;
+    if (historyPath && fs.existsSync(historyPath)) {
+      fs.unlinkSync(historyPath);
+    }
+    this._onDidChangeExceptionsEmitter.fire(this._exceptions);
   }
 
   /**
@@ -263,7 +626,10 @@ export class GameplayController {
 
       // Clears attributes and resolve
       this._executables.clear();
+      this._launchTimes.clear();
+      this._consoleIds.clear();
       this._lastException = undefined;
+      this._recordsOffset = 0;
       resolve();
     });
   }
@@ -274,10 +640,11 @@ export class GameplayController {
    * If the game is spawned successfully it resolves the promise with its PID.
    *
    * If the game fails to run it rejects the promise with an error.
+   * @param options Run options
    * @returns A promise
    * @throws An error when process cannot be executed
    */
-  async runGame() {
+  async runGame(options?: GameRunOptions) {
     logger.logInfo('Trying to run the game executable...');
     // Checks for configuration validness
     if (!this._config) {
@@ -305,57 +672,85 @@ export class GameplayController {
     // Preparation
     let workingDir = this._config.projectFolderPath?.fsPath;
     let gamePath = this._config.determineGamePath()?.fsPath;
-    let gameArgs = this._config.determineGameArgs();
+    let gameArgs = this._config.determineGameArgs({
+      battleTest: options?.battleTest,
+    });
+    let gameRunner = this._config.determineGameRunner();
     let exePath = '';
-    let exeArgs = [];
-    let usingWine = false;
+    let exeArgs: string[] = [];
     logger.logInfo(`Game working directory: "${workingDir}"`);
     logger.logInfo(`Game executable path: "${gamePath}"`);
     logger.logInfo(`Game executable arguments: "${gameArgs}"`);
+    logger.logInfo(`Game runner: "${gameRunner}"`);
+    logger.logInfo(
+      `Game launch profile: "${
+        this._config.determineLaunchProfile()?.name ?? '-'
+      }"`
+    );
 
     // Safe-check for variables validness
     if (!workingDir || !gamePath || !gameArgs) {
       throw new Error('Cannot run the game due to invalid values!');
     }
-    // Checks if executable path exists
-    if (!fs.existsSync(gamePath)) {
+    // Checks if executable path exists (mkxp-z runs the game folder instead)
+    if (gameRunner !== GameRunner.MKXP_Z && !fs.existsSync(gamePath)) {
       throw new Error(`Game executable path: "${gamePath}" does not exists!`);
     }
 
-    // Determine info based on the OS
-    logger.logInfo(`Resolving game information based on platform...`);
-    switch (process.platform) {
-      case 'win32': {
+    // Determine the runner based on the OS
+    if (gameRunner === GameRunner.AUTO) {
+      logger.logInfo(`Resolving game runner based on platform...`);
+      switch (process.platform) {
+        case 'win32': {
+          gameRunner = GameRunner.NATIVE;
+          break;
+        }
+        case 'darwin':
+        case 'linux': {
+          // It is likely that the game is a Windows executable if it is not a Linux one
+          gameRunner = this._isLinuxExecutable(gamePath)
+            ? GameRunner.NATIVE
+            : GameRunner.WINE;
+          break;
+        }
+        default: {
+          throw new Error(
+            `Cannot launch the game because the platform: "${process.platform}" is unknown or not supported!`
+          );
+        }
+      }
+    }
+
+    // Determine the process command based on the runner
+    const runnerCommand = this._config.determineRunnerCommand(gameRunner);
+    switch (gameRunner) {
+      case GameRunner.NATIVE: {
         exePath = gamePath;
         exeArgs = gameArgs;
         break;
       }
-      case 'darwin':
-      case 'linux': {
-        // Checks game executable
-        if (this._isLinuxExecutable(gamePath)) {
-          // It is a Linux executable, try to run it
-          exePath = gamePath;
-          exeArgs = gameArgs;
-        } else {
-          // It is likely that the game is a Windows executable, use Wine
-          const wineCommand = this._config.configUseWine();
-          if (wineCommand.length > 0) {
-            exePath = wineCommand;
-            exeArgs = [`"${gamePath}"`, ...gameArgs];
-            usingWine = true;
-          } else {
-            throw new Error(
-              'Cannot run the game because it seems like a Windows executable and the command to run Wine is empty, check the extension settings to fix this'
-            );
-          }
+      case GameRunner.WINE:
+      case GameRunner.PROTON:
+      case GameRunner.MKXP_Z: {
+        if (runnerCommand.length === 0) {
+          throw new Error(
+            `Cannot run the game because the command to run the "${gameRunner}" runner is empty, check the extension settings to fix this`
+          );
+        }
+        exePath = runnerCommand[0];
+        exeArgs = runnerCommand.slice(1);
+        // Proton needs the verb to run the executable, mkxp-z runs the game folder
+        if (gameRunner === GameRunner.PROTON) {
+          exeArgs.push('run');
+        }
+        if (gameRunner !== GameRunner.MKXP_Z) {
+          exeArgs.push(gamePath);
         }
+        exeArgs.push(...gameArgs);
         break;
       }
       default: {
-        throw new Error(
-          `Cannot launch the game because the platform: "${process.platform}" is unknown or not supported!`
-        );
+        throw new Error(`Unknown game runner: "${gameRunner}"!`);
       }
     }
 
@@ -363,13 +758,34 @@ export class GameplayController {
     logger.logInfo(`Resolved process command: "${exePath}"`);
     logger.logInfo(`Resolved process arguments: "${exeArgs}"`);
     logger.logInfo('Spawning process...');
-    // Process should not be piped because if 'console' is passed as an argument to a RGSS3
-    // executable, when the process spawns, it redirects $stdout and $stderr to the console window.
-    // Making it impossible for the extension to listen to either $stdout or $stderr.
+    // Process is only piped when the output is captured because if 'console' is passed as an
+    // argument to a RGSS3 executable, when the process spawns, it redirects $stdout and $stderr
+    // to the console window. Making it impossible for the extension to listen to either of them.
+    this._recordsOffset = 0;
+    const gameOutput = this._config.determineGameOutput();
+    const piped = gameOutput !== GameOutput.NONE;
+    if (piped && this._config.configExeConsole()) {
+      logger.logWarning(
+        'The native console is enabled, the game output may not be captured!'
+      );
+    }
+    if (options?.debug) {
+      logger.logInfo('The script loader debug agent is enabled');
+    }
+    if (options?.battleTest) {
+      logger.logInfo('The game is launched in battle test mode');
+    }
+    const consoleId = Date.now().toString(36);
     const gameProcess = cp.spawn(exePath, exeArgs, {
       cwd: workingDir,
-      stdio: ['ignore', 'ignore', 'ignore'],
-      shell: usingWine,
+      env: {
+        ...process.env,
+        ...this._config.determineGameEnvironment(),
+        RGSS_SCRIPT_EDITOR_RELOAD: '1',
+        RGSS_SCRIPT_EDITOR_CONSOLE: consoleId,
+        ...(options?.debug ? { RGSS_SCRIPT_EDITOR_DEBUG: '1' } : {}),
+      },
+      stdio: ['ignore', piped ? 'pipe' : 'ignore', piped ? 'pipe' : 'ignore'],
     });
 
     // Checks if the process spawned correctly
@@ -379,8 +795,30 @@ export class GameplayController {
         this._onProcessExit(gameProcess.pid!, code, signal)
       );
 
+      // Captures the game output
+      if (piped) {
+        const prefix =
+          this._config.determineGameBehavior() ===
+          RunGameBehavior.ALLOW_MULTIPLE
+            ? `[${gameProcess.pid}] `
+            : '';
+        this._pipeOutput(gameProcess.pid, gameProcess.stdout, {
+          target: gameOutput,
+          prefix: prefix,
+          error: false,
+        });
+        this._pipeOutput(gameProcess.pid, gameProcess.stderr, {
+          target: gameOutput,
+          prefix: prefix,
+          error: true,
+        });
+      }
+
       // Tracks the game process
+      this._session = new Date();
       this._executables.set(gameProcess.pid, gameProcess);
+      this._launchTimes.set(gameProcess.pid, this._session);
+      this._consoleIds.set(gameProcess.pid, consoleId);
 
       return gameProcess.pid;
     } else {
@@ -388,6 +826,129 @@ export class GameplayController {
     }
   }
 
+  /**
+   * Kills the game process with the given PID.
+   *
+   * Nothing happens if the process is not running.
+   * @param pid Game process PID
+   */
+  stopGame(pid: number) {
+    this._executables.get(pid)?.kill();
+  }
+
+  /**
+   * Reloads the given script file in all running game processes.
+   *
+   * The script path is appended to the reloads file, the script loader evaluates it again.
+   * @param scriptUri Script file uri
+   * @throws An error if the game is not running
+   * @throws An error if the script path cannot be determined
+   */
+  reloadScript(scriptUri: vscode.Uri) {
+    if (!this.isRunning()) {
+      throw new Error(
+        'Cannot reload a script because the game is not running!'
+      );
+    }
+    const reloadsPath = this._config?.determineGameReloadsPath();
+    const scriptPath = this._config?.fromProject(scriptUri);
+    if (!reloadsPath || !scriptPath) {
+      throw new Error(
+        `Cannot reload script: "${scriptUri.fsPath}" due to invalid values!`
+      );
+    }
+    logger.logInfo(`Reloading script: "${scriptPath}" in the running game...`);
+    fs.appendFileSync(
+      reloadsPath.fsPath,
+      `${scriptPath.replace(/\\/g, '/')}\n`
+    );
+  }
+
+  /**
+   * Reads the list of troops from the game troops data file.
+   * @returns List of troops
+   * @throws An error if the troops data file does not exists
+   */
+  readTroops(): GameTroop[] {
+    const troopsPath = this._config?.determineDataFilePath('Troops');
+    if (!troopsPath || !fs.existsSync(troopsPath.fsPath)) {
+      throw new Error(
+        `Troops data file: "${troopsPath?.fsPath}" does not exists!`
+      );
+    }
+    const troops: unknown = marshal.load(fs.readFileSync(troopsPath.fsPath), {
+      string: 'binary',
+    });
+    let list: GameTroop[] = [];
+    if (!Array.isArray(troops)) {
+      return list;
+    }
+    troops.forEach((troop: unknown) => {
+      if (troop && typeof troop === 'object') {
+        const id = (troop as RubyObject)[Symbol.for('@id')];
+        const name = (troop as RubyObject)[Symbol.for('@name')];
+        if (typeof id === 'number') {
+          list.push({
+            id: id,
+            name:
+              name instanceof Uint8Array ? this._textDecoder.decode(name) : '',
+          });
+        }
+      }
+    });
+    return list;
+  }
+
+  /**
+   * Creates the data files that the game loads in battle test mode.
+   *
+   * The database files are copied to their battle test counterparts (``BT_*``) and
+   * the system data file is written with the given troop as the test troop.
+   *
+   * The test party is the one configured in the RPG Maker editor.
+   * @param troopId Troop ID
+   * @returns Number of battlers in the test party
+   * @throws An error if the system data file does not exists
+   * @throws An error if the system data file is invalid
+   */
+  createBattleTestData(troopId: number) {
+    const systemPath = this._config?.determineDataFilePath('System');
+    if (!systemPath || !fs.existsSync(systemPath.fsPath)) {
+      throw new Error(
+        `System data file: "${systemPath?.fsPath}" does not exists!`
+      );
+    }
+    // Numeric, hash and regexp values are wrapped so the data is dumped back unchanged
+    const data: unknown = marshal.load(fs.readFileSync(systemPath.fsPath), {
+      numeric: 'wrap',
+      hash: 'wrap',
+      regexp: 'wrap',
+    });
+    if (!data || typeof data !== 'object') {
+      throw new Error(
+        `System data file: "${systemPath.fsPath}" is not a valid data file!`
+      );
+    }
+    const system = data as RubyObject;
+    logger.logInfo(`Creating battle test data for troop: ${troopId}...`);
+    for (const name of BATTLE_TEST_DATA_FILES) {
+      const dataPath = this._config!.determineDataFilePath(name)!;
+      if (fs.existsSync(dataPath.fsPath)) {
+        fs.copyFileSync(
+          dataPath.fsPath,
+          this._config!.determineDataFilePath(`BT_${name}`)!.fsPath
+        );
+      }
+    }
+    system[Symbol.for('@test_troop_id')] = troopId;
+    fs.writeFileSync(
+      this._config!.determineDataFilePath('BT_System')!.fsPath,
+      marshal.dump(system)
+    );
+    const battlers = system[Symbol.for('@test_battlers')];
+    return Array.isArray(battlers) ? battlers.length : 0;
+  }
+
   /**
    * Creates a ruby exception object from the given exception file
    * @param exceptionFilePath Exception file path
@@ -413,35 +974,155 @@ export class GameplayController {
     let mesg = this._textDecoder.decode(rubyError.mesg);
     let back = rubyError.back.map((item) => this._textDecoder.decode(item));
     // Build the extension error instance
-    let exception = new GameException(type, mesg);
+    let exception = new GameException(type, mesg, new Date(), this._session);
+    let bundleFile = this._config?.determineBundleFilePath();
     back.forEach((backtrace) => {
       let match = backtrace.match(GAME_EXCEPTION_REGEXP);
       if (match) {
         let file = match[1];
         let line = parseInt(match[2]);
         let mesg = match[3];
-        // Skips invalid backtrace lines, only files that exists.
-        // RPG Maker includes backtrace lines of scripts inside its built-in editor.
+        let section = file.match(GAME_SECTION_REGEXP);
         if (fs.existsSync(file)) {
           exception.addTrace(file, line, mesg);
+        } else if (bundleFile && fs.existsSync(bundleFile.fsPath) && section) {
+          // RPG Maker includes backtrace lines of scripts inside its built-in editor.
+          let uri = this._resolver(
+            bundleFile,
+            parseInt(section[1] ?? section[2])
+          );
+          if (uri) {
+            exception.addTrace(file, line, mesg, uri);
+          }
         }
+        // Other invalid backtrace lines are skipped
       }
     });
-    // Updates last exception.
+    // Updates last exception and the exception history.
     this._lastException = exception;
+    this._exceptions.push(exception);
+    this._exceptions.splice(
+      0,
+      this._exceptions.length - EXCEPTION_HISTORY_LIMIT
+    );
+    this._saveExceptions();
+    this._onDidChangeExceptionsEmitter.fire(this._exceptions);
     // Deletes output for next game run
     fs.unlinkSync(exceptionFilePath);
     // Executes command to process the exception.
     vscode.commands.executeCommand('rgss-script-editor.processGameException');
   }
 
+  /**
+   * Reads all log records appended to the given log records file since the last read.
+   *
+   * If the file was truncated by a new game session, it is read from the beginning.
+   *
+   * Incomplete lines are left to be read with the next call.
+   * @param recordsFilePath Log records file path
+   * @returns List of log records
+   */
+  readLogRecords(recordsFilePath: string): GameLogRecord[] {
+    if (!fs.existsSync(recordsFilePath)) {
+      return [];
+    }
+
+    // Reads the new contents
+    const size = fs.statSync(recordsFilePath).size;
+    if (size < this._recordsOffset) {
+      this._recordsOffset = 0;
+    }
+    const contents = Buffer.alloc(size - this._recordsOffset);
+    const fd = fs.openSync(recordsFilePath, 'r');
+    try {
+      fs.readSync(fd, contents, 0, contents.length, this._recordsOffset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    const end = contents.lastIndexOf('\n');
+    if (end === -1) {
+      return [];
+    }
+    this._recordsOffset += end + 1;
+
+    // Parses each record
+    const workingDir = this._config?.projectFolderPath?.fsPath ?? '';
+    return this._textDecoder
+      .decode(contents.subarray(0, end))
+      .split('\n')
+      .map((record) => record.replace(/\r$/, '').split('\t'))
+      .filter((fields) => fields.length >= 4)
+      .map(([level, script, line, ...message]) => {
+        const file = script ? path.resolve(workingDir, script) : undefined;
+        const valid = !!file && fs.existsSync(file);
+        return {
+          level: level,
+          message: message
+            .join('\t')
+            .replace(/\\(.)/g, (_match, char: string) =>
+              char === 't' ? '\t' : char === 'n' ? '\n' : char
+            ),
+          file: valid ? file : undefined,
+          line: valid && line ? parseInt(line) : undefined,
+        };
+      });
+  }
+
+  /**
+   * Loads the exception history from the exception history file.
+   *
+   * The exception history is emptied if the file does not exist or it is invalid.
+   */
+  private _loadExceptions() {
+    this._exceptions = [];
+    const historyPath = this._config?.determineExceptionHistoryPath()?.fsPath;
+    if (historyPath && fs.existsSync(historyPath)) {
+      try {
+        const contents = JSON.parse(fs.readFileSync(historyPath, 'utf8'));
+        if (Array.isArray(contents)) {
+          this._exceptions = contents
+            .slice(-EXCEPTION_HISTORY_LIMIT)
+            .map((data: GameExceptionData) => GameException.fromJSON(data));
+        }
+      } catch (error) {
+        logger.logErrorUnknown(error);
+        this._exceptions = [];
+      }
+    }
+    this._onDidChangeExceptionsEmitter.fire(this._exceptions);
+  }
+
+  /**
+   * Saves the exception history into the exception history file.
+   *
+   * Errors are logged since the history is not critical for the extension.
+   */
+  private _saveExceptions() {
+    const historyPath = this._config?.determineExceptionHistoryPath()?.fsPath;
+    if (!historyPath) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+      fs.writeFileSync(
+        historyPath,
+        JSON.stringify(this._exceptions, undefined, 2),
+        'utf8'
+      );
+    } catch (error) {
+      logger.logErrorUnknown(error);
+    }
+  }
+
   /**
    * Method called when the current game process finishes its execution.
+   *
+   * The game execution is successful if the game finished by itself and it did not report an exception.
    * @param pid Game process PID.
    * @param code Exit code.
    * @param signal Exit signal.
    */
-  private _onProcessExit(
+  private async _onProcessExit(
     pid: number,
     code: number | null,
     signal: NodeJS.Signals | null
@@ -451,16 +1132,86 @@ export class GameplayController {
     );
 
     // Resets for next game run
+    const launchTime = this._launchTimes.get(pid);
+    const consoleId = this._consoleIds.get(pid);
     this._executables.delete(pid);
+    this._launchTimes.delete(pid);
+    this._consoleIds.delete(pid);
 
     // Checks exception
     if (this._config) {
       // Checks output file for possible exceptions that killed the game
       let output = this._config.determineGameLogPath()?.fsPath;
       if (output && fs.existsSync(output)) {
-        this.createException(output);
+        try {
+          await this.createException(output);
+        } catch (error) {
+          logger.logErrorUnknown(error);
+        }
+      }
+      // Deletes the console files of the game process
+      if (consoleId) {
+        [
+          this._config.determineConsoleRequestsPath(consoleId)?.fsPath,
+          this._config.determineConsoleResultsPath(consoleId)?.fsPath,
+        ].forEach((file) => {
+          if (file && fs.existsSync(file)) {
+            fs.unlinkSync(file);
+          }
+        });
       }
     }
+
+    // Notifies the game execution result
+    const crashed =
+      !!this._lastException &&
+      !!launchTime &&
+      this._lastException.timestamp >= launchTime;
+    this._onDidExitEmitter.fire({
+      pid: pid,
+      code: code,
+      signal: signal,
+      success: signal === null && !crashed,
+    });
+  }
+
+  /**
+   * Splits the data of the given game process stream into lines.
+   *
+   * Each line is fired with the output event, the last line is fired when the stream ends.
+   * @param pid Game process PID.
+   * @param stream Game process stream.
+   * @param options Output options.
+   */
+  private _pipeOutput(
+    pid: number,
+    stream: Readable | null,
+    options: { target: string; prefix: string; error: boolean }
+  ) {
+    // Each stream needs its own decoder to handle split characters
+    const decoder = new TextDecoder('utf8');
+    let buffer = '';
+    const fire = (line: string) => {
+      this._onDidWriteOutputEmitter.fire({
+        pid: pid,
+        target: options.target,
+        text: options.prefix.concat(line),
+        error: options.error,
+      });
+    };
+    stream?.on('data', (chunk: Buffer) => {
+      const lines = buffer
+        .concat(decoder.decode(chunk, { stream: true }))
+        .split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      lines.forEach((line) => fire(line));
+    });
+    stream?.on('end', () => {
+      if (buffer.length > 0) {
+        fire(buffer);
+        buffer = '';
+      }
+    });
   }
 
   /**
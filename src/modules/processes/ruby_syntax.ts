@@ -0,0 +1,1447 @@
+/**
+ * Ruby symbol kind enumerator.
+ */
+export const enum RubySymbolKind {
+  Class = 1,
+  Module,
+  Method,
+  Alias,
+}
+
+/**
+ * Method name regular expression.
+ *
+ * Matches an identifier, including the predicate and bang method suffixes.
+ */
+export const METHOD_NAME_REGEXP =
+  /[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*[?!]?/;
+
+/**
+ * Ruby syntax error type.
+ */
+export type RubySyntaxError = {
+  /**
+   * Error message.
+   */
+  message: string;
+
+  /**
+   * Error line (1-based).
+   */
+  line: number;
+
+  /**
+   * Error column (0-based).
+   */
+  column: number;
+};
+
+/**
+ * Ruby code location type.
+ */
+export type RubyLocation = {
+  /**
+   * Line (1-based).
+   */
+  line: number;
+
+  /**
+   * Column (0-based).
+   */
+  column: number;
+};
+
+/**
+ * Ruby code range type.
+ */
+export type RubyRange = {
+  /**
+   * Range start location.
+   */
+  start: RubyLocation;
+
+  /**
+   * Range end location.
+   */
+  end: RubyLocation;
+};
+
+/**
+ * Ruby symbol type.
+ *
+ * Represents a class, module, method or alias defined in the code.
+ */
+export type RubySymbol = {
+  /**
+   * Symbol kind.
+   */
+  kind: RubySymbolKind;
+
+  /**
+   * Symbol name.
+   *
+   * Class and module names are written as they appear in the code (``Foo::Bar``).
+   *
+   * Method names do not include the receiver (``def self.name``).
+   */
+  name: string;
+
+  /**
+   * Full name of the class or module where the symbol is defined.
+   *
+   * It is an empty string for symbols defined at the top level.
+   */
+  owner: string;
+
+  /**
+   * Whether the method is a singleton method (``def self.name``) or not.
+   */
+  singleton: boolean;
+
+  /**
+   * Original method name of an alias.
+   */
+  original?: string;
+
+  /**
+   * Range of the whole definition.
+   */
+  range: RubyRange;
+
+  /**
+   * Range of the symbol name.
+   */
+  nameRange: RubyRange;
+
+  /**
+   * Symbols defined inside this symbol.
+   */
+  children: RubySymbol[];
+};
+
+/**
+ * Ruby block type.
+ *
+ * Blocks are opened by keywords (closed with ``end``), brackets and string interpolations.
+ */
+type RubyBlock = {
+  /**
+   * Keyword or bracket that opened the block.
+   */
+  opener: string;
+
+  /**
+   * Offset of the opener.
+   */
+  offset: number;
+
+  /**
+   * Indentation of the line where the block was opened.
+   */
+  indent: number;
+
+  /**
+   * Whether a ``do`` keyword belongs to this loop block or not.
+   *
+   * It is only set by loop keywords until the loop condition finishes.
+   */
+  loopDo?: boolean;
+
+  /**
+   * Whether the bracket encloses the parameters of a method definition or not.
+   */
+  parameters?: boolean;
+
+  /**
+   * Symbol defined by the block.
+   */
+  symbol?: RubySymbol;
+
+  /**
+   * Full name of the class or module opened by the block.
+   */
+  scope?: string;
+
+  /**
+   * Whether the block opens a singleton class (``class << self``) or not.
+   */
+  singleton?: boolean;
+};
+
+/**
+ * Ruby heredoc type.
+ */
+type RubyHeredoc = {
+  /**
+   * Heredoc terminator.
+   */
+  id: string;
+
+  /**
+   * Whether the terminator can be indented or not.
+   */
+  indented: boolean;
+
+  /**
+   * Offset of the heredoc start.
+   */
+  offset: number;
+};
+
+/**
+ * Ruby lexer state type.
+ *
+ * Saved while a string interpolation is scanned.
+ */
+type RubyLexerState = {
+  exprBeg: boolean;
+  command: boolean;
+  name: boolean;
+};
+
+/**
+ * Ruby keywords.
+ */
+const RUBY_KEYWORDS = new Set([
+  'BEGIN',
+  'END',
+  '__ENCODING__',
+  '__FILE__',
+  '__LINE__',
+  'alias',
+  'and',
+  'begin',
+  'break',
+  'case',
+  'class',
+  'def',
+  'defined?',
+  'do',
+  'else',
+  'elsif',
+  'end',
+  'ensure',
+  'false',
+  'for',
+  'if',
+  'in',
+  'module',
+  'next',
+  'nil',
+  'not',
+  'or',
+  'redo',
+  'rescue',
+  'retry',
+  'return',
+  'self',
+  'super',
+  'then',
+  'true',
+  'undef',
+  'unless',
+  'until',
+  'when',
+  'while',
+  'yield',
+]);
+
+/**
+ * Ruby keywords that can be used as modifiers after an expression.
+ */
+const MODIFIER_KEYWORDS = new Set(['if', 'unless', 'while', 'until']);
+
+/**
+ * Ruby keywords that finish an expression.
+ *
+ * A modifier keyword after them does not open a block.
+ */
+const VALUE_KEYWORDS = new Set([
+  '__ENCODING__',
+  '__FILE__',
+  '__LINE__',
+  'break',
+  'end',
+  'false',
+  'next',
+  'nil',
+  'redo',
+  'retry',
+  'return',
+  'self',
+  'super',
+  'true',
+  'yield',
+]);
+
+/**
+ * Ruby keywords that finish an expression but can take arguments.
+ *
+ * Literals after them are handled like the arguments of a method call.
+ */
+const COMMAND_KEYWORDS = new Set(['break', 'next', 'return', 'super', 'yield']);
+
+/**
+ * Closing character of each bracket.
+ */
+const BRACKET_PAIRS: Record<string, string> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+  '<': '>',
+};
+
+/**
+ * Identifier regular expression.
+ */
+const IDENTIFIER_REGEXP = /^[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*/;
+
+/**
+ * Instance and class variable regular expression.
+ */
+const INSTANCE_REGEXP = /^@@?[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*/;
+
+/**
+ * Global variable regular expression.
+ */
+const GLOBAL_REGEXP =
+  /^\$(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*|-\w|\d+|[~*$?!@/\\;,.=:<>"&`'+])/;
+
+/**
+ * Number regular expression.
+ */
+const NUMBER_REGEXP =
+  /^(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO]?[0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)/;
+
+/**
+ * Operator regular expression.
+ */
+const OPERATOR_REGEXP =
+  /^(?:\*\*=|<=>|===|\.\.\.|<<=|>>=|&&=|\|\|=|\*\*|==|=~|!=|!~|>=|<=|&&|\|\||<<|>>|=>|->|&\.|\.\.|[+\-*/%&|^]=|[+\-*/%=<>!&|^~?])/;
+
+/**
+ * Operator method name regular expression.
+ *
+ * Used for method names after ``def`` and symbols.
+ */
+const METHOD_OPERATOR_REGEXP =
+  /^(?:\[\]=?|<=>|===?|=~|![=~]?|<<|>>|<=|>=|\*\*|[+\-~!]@?|[*/%^&|<>`])/;
+
+/**
+ * Heredoc start regular expression.
+ *
+ * The terminator is extracted with the third (quoted) or the fourth group match.
+ */
+const HEREDOC_REGEXP = /^<<([-~]?)(?:(["'`])([^\r\n]*?)\2|([A-Za-z_]\w*))/;
+
+/**
+ * Percent literal start regular expression.
+ *
+ * The literal type and the delimiter are extracted with the first and the second group match.
+ */
+const PERCENT_REGEXP = /^%([qQwWiIrsx]?)([^\w\s])/;
+
+/**
+ * Class or module name regular expression.
+ */
+const CONSTANT_PATH_REGEXP =
+  /^[ \t]+((?:::)?[A-Z][\w\u0080-\uffff]*(?:::[A-Z][\w\u0080-\uffff]*)*)/;
+
+/**
+ * Arguments of the ``alias_method`` method regular expression.
+ */
+const ALIAS_METHOD_REGEXP =
+  /^[ \t]*\(?[ \t]*(?::["']?|["'])([\w\u0080-\uffff]+[?!=]?)["']?[ \t]*,[ \t]*(?::["']?|["'])([\w\u0080-\uffff]+[?!=]?)/;
+
+/**
+ * Ruby syntax exception class.
+ *
+ * Thrown to stop the scan when a syntax error is found.
+ */
+class RubySyntaxException extends Error {
+  /**
+   * Offset of the syntax error.
+   */
+  offset: number;
+
+  /**
+   * Constructor.
+   * @param message Error message
+   * @param offset Error offset
+   */
+  constructor(message: string, offset: number) {
+    super(message);
+    this.offset = offset;
+  }
+}
+
+/**
+ * Ruby syntax checker class.
+ *
+ * Scans the code with a lightweight lexer and checks that all blocks, brackets,
+ * strings, regular expressions, heredocs and comments are terminated.
+ *
+ * It does not validate the grammar of the expressions.
+ *
+ * The classes, modules, methods and aliases defined in the code are collected while scanning.
+ */
+class RubySyntaxChecker {
+  /**
+   * Ruby code.
+   */
+  private _code: string;
+
+  /**
+   * Current offset.
+   */
+  private _pos: number;
+
+  /**
+   * Open blocks stack.
+   */
+  private _stack: RubyBlock[];
+
+  /**
+   * Heredocs whose body starts on the next line.
+   */
+  private _heredocs: RubyHeredoc[];
+
+  /**
+   * Whether the lexer is at the beginning of an expression or not.
+   */
+  private _exprBeg: boolean;
+
+  /**
+   * Whether the previous token is a method name followed by a whitespace or not.
+   *
+   * Literals after a method name are ambiguous (``split /,/`` or ``width / 2``).
+   */
+  private _command: boolean;
+
+  /**
+   * Whether the next token is a method name (after a dot) instead of a keyword or not.
+   */
+  private _name: boolean;
+
+  /**
+   * First keyword that does not match the indentation of the open blocks.
+   *
+   * Used to locate a missing ``end`` keyword.
+   */
+  private _mismatch?: { offset: number; block: RubyBlock };
+
+  /**
+   * Offsets of the beginning of each line.
+   */
+  private _lines: number[];
+
+  /**
+   * Top level symbols.
+   */
+  private _symbols: RubySymbol[];
+
+  /**
+   * Constructor.
+   * @param code Ruby code
+   */
+  constructor(code: string) {
+    this._code = code;
+    this._pos = 0;
+    this._stack = [];
+    this._heredocs = [];
+    this._exprBeg = true;
+    this._command = false;
+    this._name = false;
+    this._mismatch = undefined;
+    this._symbols = [];
+    this._lines = [0];
+    for (let i = 0; i < code.length; i++) {
+      if (code[i] === '\n') {
+        this._lines.push(i + 1);
+      }
+    }
+  }
+
+  /**
+   * Top level symbols defined in the code.
+   *
+   * Symbols are collected when the code is checked.
+   */
+  get symbols() {
+    return this._symbols;
+  }
+
+  /**
+   * Checks the code syntax.
+   *
+   * If the code is valid it returns ``undefined``.
+   * @returns Syntax error
+   */
+  check(): RubySyntaxError | undefined {
+    try {
+      this._scanCode(false);
+      this._checkEnd();
+      return undefined;
+    } catch (error) {
+      if (error instanceof RubySyntaxException) {
+        return { message: error.message, ...this._location(error.offset) };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Checks that all blocks are closed at the end of the code.
+   * @throws A syntax exception if a block is not closed
+   */
+  private _checkEnd() {
+    const block = this._stack[this._stack.length - 1];
+    if (!block) {
+      return;
+    }
+    const closer = BRACKET_PAIRS[block.opener];
+    if (closer) {
+      throw new RubySyntaxException(
+        `missing '${closer}' for '${block.opener}'`,
+        block.offset
+      );
+    }
+    // A keyword with a different indentation is likely where the 'end' is missing
+    if (this._mismatch) {
+      const line = this._lineIndex(this._mismatch.block.offset) + 1;
+      throw new RubySyntaxException(
+        `missing 'end' for '${this._mismatch.block.opener}' at line ${line}`,
+        this._mismatch.offset
+      );
+    }
+    throw new RubySyntaxException(
+      `missing 'end' for '${block.opener}'`,
+      block.offset
+    );
+  }
+
+  /**
+   * Scans code until the end of the code or the end of the current interpolation.
+   * @param interpolation Whether the code is inside a string interpolation or not
+   * @throws A syntax exception if the code is invalid
+   */
+  private _scanCode(interpolation: boolean) {
+    const code = this._code;
+    while (this._pos < code.length) {
+      const start = this._pos;
+      const char = code[start];
+      const rest = code.substring(start, start + 256);
+
+      // Line start tokens
+      if (start === 0 || code[start - 1] === '\n') {
+        if (/^=begin(?:\s|$)/.test(rest)) {
+          this._skipDocument();
+          continue;
+        }
+        if (/^__END__\r?(?:\n|$)/.test(rest)) {
+          this._pos = code.length;
+          return;
+        }
+      }
+
+      // Whitespaces
+      if (char === ' ' || char === '\t' || char === '\r' || char === '\f') {
+        this._pos++;
+        continue;
+      }
+      if (char === '\\' && /^\\\r?\n/.test(rest)) {
+        this._pos += rest[1] === '\r' ? 3 : 2;
+        continue;
+      }
+      if (char === '\n') {
+        this._newLine();
+        continue;
+      }
+      if (char === '#') {
+        const end = code.indexOf('\n', start);
+        this._pos = end === -1 ? code.length : end;
+        continue;
+      }
+
+      // Literals after a method name followed by a whitespace are arguments
+      const command =
+        this._command && /\s/.test(code[start - 1]) && !/^.[\s=]/.test(rest);
+      const literal = this._exprBeg || command;
+      const name = this._name;
+      this._command = false;
+      this._name = false;
+
+      // Identifiers and keywords
+      const identifier = rest.match(IDENTIFIER_REGEXP);
+      if (identifier) {
+        let word = identifier[0];
+        const suffix = code[start + word.length];
+        if (
+          (suffix === '?' || suffix === '!') &&
+          code[start + word.length + 1] !== '='
+        ) {
+          word += suffix;
+        }
+        this._pos += word.length;
+        this._scanWord(word, start, name);
+        continue;
+      }
+      if (char === '@' || char === '$') {
+        const variable = rest.match(
+          char === '@' ? INSTANCE_REGEXP : GLOBAL_REGEXP
+        );
+        this._pos += variable ? variable[0].length : 1;
+        this._exprBeg = false;
+        continue;
+      }
+      const number = rest.match(NUMBER_REGEXP);
+      if (number) {
+        this._pos += number[0].length;
+        this._exprBeg = false;
+        continue;
+      }
+
+      // Strings and literals
+      switch (char) {
+        case '"':
+        case '`': {
+          this._pos++;
+          this._scanString(char, true, 'string', start);
+          this._exprBeg = false;
+          continue;
+        }
+        case "'": {
+          this._pos++;
+          this._scanString(char, false, 'string', start);
+          this._exprBeg = false;
+          continue;
+        }
+        case ':': {
+          if (rest[1] === ':') {
+            this._pos += 2;
+            this._name = true;
+            this._exprBeg = true;
+            continue;
+          }
+          if (rest[1] === '"' || rest[1] === "'") {
+            this._pos += 2;
+            this._scanString(rest[1], rest[1] === '"', 'symbol', start);
+            this._exprBeg = false;
+            continue;
+          }
+          const symbol =
+            rest.substring(1).match(IDENTIFIER_REGEXP) ||
+            rest.substring(1).match(INSTANCE_REGEXP) ||
+            rest.substring(1).match(GLOBAL_REGEXP) ||
+            rest.substring(1).match(METHOD_OPERATOR_REGEXP);
+          if (symbol) {
+            this._pos += symbol[0].length + 1;
+            if (/^[?!=]/.test(code[this._pos]) && /^[\w]/.test(symbol[0])) {
+              this._pos += /^=[=~>]/.test(code.substring(this._pos)) ? 0 : 1;
+            }
+            this._exprBeg = false;
+            continue;
+          }
+          this._pos++;
+          this._exprBeg = true;
+          continue;
+        }
+        case '?': {
+          if (literal && rest.length > 1 && !/\s/.test(rest[1])) {
+            this._pos += rest[1] === '\\' ? 3 : 2;
+            this._exprBeg = false;
+            continue;
+          }
+          break;
+        }
+        case '/': {
+          if (this._exprBeg || (command && this._closesInLine('/'))) {
+            this._pos++;
+            this._scanString('/', true, 'regexp', start);
+            this._pos += (code.substring(this._pos).match(/^[a-z]*/) ?? [
+              '',
+            ])[0].length;
+            this._exprBeg = false;
+            continue;
+          }
+          break;
+        }
+        case '%': {
+          const percent = rest.match(PERCENT_REGEXP);
+          if (percent && literal) {
+            this._pos += percent[0].length;
+            this._scanString(
+              BRACKET_PAIRS[percent[2]] ?? percent[2],
+              !/^[qwis]$/.test(percent[1]),
+              percent[1] === 'r' ? 'regexp' : 'string',
+              start,
+              BRACKET_PAIRS[percent[2]] ? percent[2] : undefined
+            );
+            if (percent[1] === 'r') {
+              this._pos += (code.substring(this._pos).match(/^[a-z]*/) ?? [
+                '',
+              ])[0].length;
+            }
+            this._exprBeg = false;
+            continue;
+          }
+          break;
+        }
+        case '<': {
+          const heredoc = rest.match(HEREDOC_REGEXP);
+          if (heredoc && literal) {
+            const id = heredoc[3] ?? heredoc[4];
+            const indented = heredoc[1] !== '';
+            if (this._exprBeg || this._hasHeredocEnd(id, indented)) {
+              this._heredocs.push({ id, indented, offset: start });
+              this._pos += heredoc[0].length;
+              this._exprBeg = false;
+              continue;
+            }
+          }
+          break;
+        }
+      }
+
+      // Brackets
+      if (char === '(' || char === '[' || char === '{') {
+        this._push(char, start);
+        this._pos++;
+        this._exprBeg = true;
+        continue;
+      }
+      if (char === ')' || char === ']' || char === '}') {
+        const block = this._stack[this._stack.length - 1];
+        if (interpolation && char === '}' && block?.opener === '#{') {
+          this._stack.pop();
+          this._pos++;
+          return;
+        }
+        if (!block || BRACKET_PAIRS[block.opener] !== char) {
+          throw new RubySyntaxException(`unexpected '${char}'`, start);
+        }
+        this._stack.pop();
+        this._pos++;
+        // The method body starts after the parameters
+        if (block.parameters) {
+          this._scanEndlessMethod();
+        }
+        this._exprBeg = !!block.parameters;
+        continue;
+      }
+
+      // Separators
+      if (char === ';') {
+        this._endStatement();
+        this._pos++;
+        this._exprBeg = true;
+        continue;
+      }
+      if (char === ',') {
+        this._pos++;
+        this._exprBeg = true;
+        continue;
+      }
+      if (char === '.' && rest[1] !== '.') {
+        this._pos++;
+        this._name = true;
+        this._exprBeg = true;
+        continue;
+      }
+
+      // Operators
+      const operator = rest.match(OPERATOR_REGEXP);
+      if (operator) {
+        this._pos += operator[0].length;
+        this._name = operator[0] === '&.';
+        this._exprBeg = true;
+        continue;
+      }
+
+      // Unknown characters are skipped
+      this._pos++;
+    }
+  }
+
+  /**
+   * Processes an identifier or keyword.
+   * @param word Identifier
+   * @param start Identifier offset
+   * @param name Whether the identifier is a method name or not
+   * @throws A syntax exception if the keyword is unexpected
+   */
+  private _scanWord(word: string, start: number, name: boolean) {
+    const code = this._code;
+    const label = code[this._pos] === ':' && code[this._pos + 1] !== ':';
+    // Identifiers after a dot, labels and names are never keywords
+    if (name || label || !RUBY_KEYWORDS.has(word)) {
+      if (!name && word === 'alias_method') {
+        const args = code
+          .substring(this._pos, this._pos + 256)
+          .match(ALIAS_METHOD_REGEXP);
+        if (args) {
+          this._addAlias(
+            args[1],
+            this._pos + args[0].indexOf(args[1]),
+            args[2],
+            start,
+            this._pos + args[0].length
+          );
+        }
+      }
+      this._command =
+        /^[a-z_]/.test(word) || /[?!]$/.test(word) || code[start - 1] === '.';
+      this._exprBeg = false;
+      return;
+    }
+    switch (word) {
+      case 'def': {
+        const block = this._push(word, start);
+        this._addMethod(block, this._scanMethodName(true));
+        if (code[this._pos] === '(') {
+          this._push('(', this._pos).parameters = true;
+          this._pos++;
+        } else {
+          this._scanEndlessMethod();
+        }
+        this._exprBeg = true;
+        return;
+      }
+      case 'class': {
+        const block = this._push(word, start);
+        // Singleton class ('class << self') is not a heredoc
+        const singleton = code.substring(this._pos).match(/^[ \t]*<</);
+        if (singleton) {
+          this._pos += singleton[0].length;
+          const target = code.substring(this._pos).match(CONSTANT_PATH_REGEXP);
+          block.scope = target
+            ? target[1].replace(/^::/, '')
+            : this._scope()?.scope ?? '';
+          block.singleton = true;
+        } else {
+          this._addNamespace(block, RubySymbolKind.Class);
+        }
+        this._exprBeg = true;
+        return;
+      }
+      case 'module': {
+        this._addNamespace(this._push(word, start), RubySymbolKind.Module);
+        this._exprBeg = true;
+        return;
+      }
+      case 'begin':
+      case 'case': {
+        this._push(word, start);
+        this._exprBeg = true;
+        return;
+      }
+      case 'for': {
+        this._push(word, start).loopDo = true;
+        this._exprBeg = true;
+        return;
+      }
+      case 'do': {
+        const block = this._stack[this._stack.length - 1];
+        if (block?.loopDo) {
+          block.loopDo = false;
+        } else {
+          this._push(word, start);
+        }
+        this._exprBeg = true;
+        return;
+      }
+      case 'end': {
+        this._pop(start);
+        this._exprBeg = false;
+        return;
+      }
+      case 'elsif': {
+        this._expect(['if', 'unless'], word, start);
+        this._exprBeg = true;
+        return;
+      }
+      case 'when': {
+        this._expect(['case'], word, start);
+        this._exprBeg = true;
+        return;
+      }
+      case 'alias': {
+        const offset = this._scanMethodName(false);
+        const alias = code.substring(offset, this._pos);
+        const original = this._scanMethodName(false);
+        this._addAlias(
+          alias,
+          offset,
+          code.substring(original, this._pos),
+          start,
+          this._pos
+        );
+        this._exprBeg = false;
+        return;
+      }
+      case 'undef': {
+        this._scanMethodName(false);
+        this._exprBeg = false;
+        return;
+      }
+    }
+    if (MODIFIER_KEYWORDS.has(word)) {
+      // Keywords after an expression are modifiers
+      if (this._exprBeg) {
+        this._push(word, start).loopDo = word === 'while' || word === 'until';
+      }
+      this._exprBeg = true;
+      return;
+    }
+    this._exprBeg = !VALUE_KEYWORDS.has(word);
+    this._command = COMMAND_KEYWORDS.has(word);
+  }
+
+  /**
+   * Skips a method name after the ``def``, ``alias`` and ``undef`` keywords.
+   *
+   * Method names can be keywords, operators and symbols.
+   * @param receiver Whether the name can include a receiver (``self.name``) or not
+   * @returns Offset of the method name
+   */
+  private _scanMethodName(receiver: boolean) {
+    const code = this._code;
+    const spaces = code.substring(this._pos).match(/^[ \t]*:?/);
+    this._pos += spaces![0].length;
+    const start = this._pos;
+    for (;;) {
+      const rest = code.substring(this._pos, this._pos + 256);
+      const name =
+        rest.match(IDENTIFIER_REGEXP) ||
+        rest.match(INSTANCE_REGEXP) ||
+        rest.match(GLOBAL_REGEXP);
+      if (name) {
+        this._pos += name[0].length;
+        // Predicate, bang and setter methods
+        if (/^(?:[?!]|=(?![=~>]))/.test(code.substring(this._pos))) {
+          this._pos++;
+        }
+      } else {
+        const operator = rest.match(METHOD_OPERATOR_REGEXP);
+        this._pos += operator ? operator[0].length : 0;
+        return start;
+      }
+      if (!receiver || code[this._pos] !== '.' || code[this._pos + 1] === '.') {
+        return start;
+      }
+      this._pos++;
+    }
+  }
+
+  /**
+   * Closes the current method definition if it is an endless method (``def name = value``).
+   *
+   * The method definition ends at the end of the line.
+   */
+  private _scanEndlessMethod() {
+    if (/^[ \t]*=(?![=~>])/.test(this._code.substring(this._pos))) {
+      const block = this._stack.pop();
+      if (block?.symbol) {
+        const line = this._code.indexOf('\n', this._pos);
+        block.symbol.range.end = this._location(
+          line === -1 ? this._code.length : line
+        );
+      }
+    }
+  }
+
+  /**
+   * Adds the class or module opened by the given block.
+   *
+   * Names starting with ``::`` are defined at the top level.
+   * @param block Class or module block
+   * @param kind Symbol kind
+   */
+  private _addNamespace(block: RubyBlock, kind: RubySymbolKind) {
+    const path = this._code.substring(this._pos).match(CONSTANT_PATH_REGEXP);
+    if (!path) {
+      return;
+    }
+    const absolute = path[1].startsWith('::');
+    const name = absolute ? path[1].substring(2) : path[1];
+    const symbol = this._addSymbol(
+      kind,
+      name,
+      this._pos + path[0].length - name.length,
+      block.offset
+    );
+    symbol.owner = absolute ? '' : symbol.owner;
+    symbol.singleton = false;
+    block.symbol = symbol;
+    block.scope = symbol.owner ? `${symbol.owner}::${name}` : name;
+  }
+
+  /**
+   * Adds the method defined by the given block.
+   *
+   * Methods with a receiver (``def self.name``) are singleton methods.
+   * @param block Method definition block
+   * @param offset Offset of the method name
+   */
+  private _addMethod(block: RubyBlock, offset: number) {
+    const text = this._code.substring(offset, this._pos);
+    const dot = text.lastIndexOf('.');
+    const name = text.substring(dot + 1);
+    if (!name) {
+      return;
+    }
+    const symbol = this._addSymbol(
+      RubySymbolKind.Method,
+      name,
+      offset + dot + 1,
+      block.offset
+    );
+    if (dot !== -1) {
+      const receiver = text.substring(0, dot);
+      symbol.owner = /^[A-Z]/.test(receiver) ? receiver : symbol.owner;
+      symbol.singleton = true;
+    }
+    block.symbol = symbol;
+  }
+
+  /**
+   * Adds a method alias (``alias`` keyword or ``alias_method`` method).
+   *
+   * Global variable aliases are ignored.
+   * @param alias Alias name
+   * @param offset Offset of the alias name
+   * @param original Original method name
+   * @param start Definition offset
+   * @param end Definition end offset
+   */
+  private _addAlias(
+    alias: string,
+    offset: number,
+    original: string,
+    start: number,
+    end: number
+  ) {
+    if (!alias || !original || alias.startsWith('$')) {
+      return;
+    }
+    const symbol = this._addSymbol(RubySymbolKind.Alias, alias, offset, start);
+    symbol.original = original;
+    symbol.range.end = this._location(end);
+  }
+
+  /**
+   * Adds a new symbol defined in the code.
+   *
+   * The symbol is added as a child of the symbol of the closest open block.
+   * @param kind Symbol kind
+   * @param name Symbol name
+   * @param offset Offset of the symbol name
+   * @param start Definition offset
+   * @returns The symbol
+   */
+  private _addSymbol(
+    kind: RubySymbolKind,
+    name: string,
+    offset: number,
+    start: number
+  ) {
+    const scope = this._scope();
+    const symbol: RubySymbol = {
+      kind: kind,
+      name: name,
+      owner: scope?.scope ?? '',
+      singleton: !!scope?.singleton,
+      range: {
+        start: this._location(start),
+        end: this._location(offset + name.length),
+      },
+      nameRange: {
+        start: this._location(offset),
+        end: this._location(offset + name.length),
+      },
+      children: [],
+    };
+    const parent = this._stack
+      .slice()
+      .reverse()
+      .find((block) => block.symbol);
+    (parent?.symbol?.children ?? this._symbols).push(symbol);
+    return symbol;
+  }
+
+  /**
+   * Gets the closest open block that opens a class or module.
+   * @returns The block
+   */
+  private _scope() {
+    for (let i = this._stack.length - 1; i >= 0; i--) {
+      if (this._stack[i].scope !== undefined) {
+        return this._stack[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Scans a string-like literal until its terminator.
+   *
+   * The literal opener must be already skipped.
+   * @param terminator Terminator character
+   * @param interpolate Whether the literal allows interpolation or not
+   * @param kind Literal kind (used in error messages)
+   * @param start Literal offset
+   * @param opener Opener character for bracket delimiters
+   * @throws A syntax exception if the literal is not terminated
+   */
+  private _scanString(
+    terminator: string,
+    interpolate: boolean,
+    kind: string,
+    start: number,
+    opener?: string
+  ) {
+    const code = this._code;
+    let depth = 0;
+    while (this._pos < code.length) {
+      const char = code[this._pos];
+      if (char === '\\') {
+        this._pos += 2;
+        continue;
+      }
+      if (interpolate && char === '#' && code[this._pos + 1] === '{') {
+        this._scanInterpolation();
+        continue;
+      }
+      this._pos++;
+      if (opener && char === opener) {
+        depth++;
+      } else if (char === terminator) {
+        if (depth === 0) {
+          return;
+        }
+        depth--;
+      }
+    }
+    throw new RubySyntaxException(
+      `unterminated ${kind} meets end of file`,
+      start
+    );
+  }
+
+  /**
+   * Scans a string interpolation (``#{...}``).
+   *
+   * The lexer state is restored after the interpolation.
+   */
+  private _scanInterpolation() {
+    const state: RubyLexerState = {
+      exprBeg: this._exprBeg,
+      command: this._command,
+      name: this._name,
+    };
+    this._push('#{', this._pos);
+    this._pos += 2;
+    this._exprBeg = true;
+    this._command = false;
+    this._name = false;
+    this._scanCode(true);
+    this._exprBeg = state.exprBeg;
+    this._command = state.command;
+    this._name = state.name;
+  }
+
+  /**
+   * Skips an embedded document (``=begin`` ... ``=end``).
+   * @throws A syntax exception if the document is not terminated
+   */
+  private _skipDocument() {
+    const end = this._code.substring(this._pos).search(/\n=end(?:\s|$)/);
+    if (end === -1) {
+      throw new RubySyntaxException(
+        'embedded document meets end of file',
+        this._pos
+      );
+    }
+    const line = this._code.indexOf('\n', this._pos + end + 1);
+    this._pos = line === -1 ? this._code.length : line;
+  }
+
+  /**
+   * Processes a new line.
+   *
+   * The body of the pending heredocs is skipped.
+   * @throws A syntax exception if a heredoc is not terminated
+   */
+  private _newLine() {
+    if (!this._exprBeg) {
+      this._endStatement();
+    }
+    this._pos++;
+    this._exprBeg = true;
+    this._command = false;
+    const heredocs = this._heredocs;
+    this._heredocs = [];
+    for (const heredoc of heredocs) {
+      const end = this._findHeredocEnd(heredoc.id, heredoc.indented, this._pos);
+      if (end === undefined) {
+        throw new RubySyntaxException(
+          `can't find string "${heredoc.id}" anywhere before EOF`,
+          heredoc.offset
+        );
+      }
+      this._pos = end;
+    }
+  }
+
+  /**
+   * Finishes the current statement.
+   *
+   * The loop condition finishes with the statement, a ``do`` keyword after it opens a block.
+   */
+  private _endStatement() {
+    const block = this._stack[this._stack.length - 1];
+    if (block?.loopDo) {
+      block.loopDo = false;
+    }
+  }
+
+  /**
+   * Checks if a heredoc with the given terminator is terminated after the current line.
+   * @param id Heredoc terminator
+   * @param indented Whether the terminator can be indented or not
+   * @returns Whether it is terminated or not
+   */
+  private _hasHeredocEnd(id: string, indented: boolean) {
+    const line = this._code.indexOf('\n', this._pos);
+    return (
+      line !== -1 && this._findHeredocEnd(id, indented, line + 1) !== undefined
+    );
+  }
+
+  /**
+   * Finds the end of a heredoc body.
+   *
+   * If the heredoc is not terminated it returns ``undefined``.
+   * @param id Heredoc terminator
+   * @param indented Whether the terminator can be indented or not
+   * @param offset Offset of the heredoc body
+   * @returns Offset after the terminator line
+   */
+  private _findHeredocEnd(id: string, indented: boolean, offset: number) {
+    const code = this._code;
+    while (offset < code.length) {
+      let end = code.indexOf('\n', offset);
+      end = end === -1 ? code.length : end;
+      let line = code.substring(offset, end).replace(/\r$/, '');
+      if ((indented ? line.trim() : line) === id) {
+        return Math.min(end + 1, code.length);
+      }
+      offset = end + 1;
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks if the given terminator is found before the end of the current line.
+   * @param terminator Terminator character
+   * @param skip Number of characters of the literal opener
+   * @returns Whether it is found or not
+   */
+  private _closesInLine(terminator: string, skip: number = 1) {
+    const code = this._code;
+    for (let i = this._pos + skip; i < code.length && code[i] !== '\n'; i++) {
+      if (code[i] === '\\') {
+        i++;
+      } else if (code[i] === terminator) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Opens a new block.
+   * @param opener Block opener
+   * @param offset Opener offset
+   * @returns The block
+   */
+  private _push(opener: string, offset: number) {
+    const block: RubyBlock = {
+      opener: opener,
+      offset: offset,
+      indent: this._indentation(offset),
+    };
+    // Keywords at the beginning of the line must be indented inside the current block
+    const current = this._stack[this._stack.length - 1];
+    if (
+      !this._mismatch &&
+      current &&
+      RUBY_KEYWORDS.has(opener) &&
+      RUBY_KEYWORDS.has(current.opener) &&
+      this._isLineStart(offset) &&
+      this._lineIndex(current.offset) !== this._lineIndex(offset) &&
+      block.indent <= current.indent
+    ) {
+      this._mismatch = { offset, block: current };
+    }
+    this._stack.push(block);
+    return block;
+  }
+
+  /**
+   * Closes the current block with the ``end`` keyword.
+   * @param offset Keyword offset
+   * @throws A syntax exception if the current block is not closed with ``end``
+   */
+  private _pop(offset: number) {
+    const block = this._stack[this._stack.length - 1];
+    if (!block || block.opener in BRACKET_PAIRS || block.opener === '#{') {
+      throw new RubySyntaxException(`unexpected 'end'`, offset);
+    }
+    this._stack.pop();
+    if (block.symbol) {
+      block.symbol.range.end = this._location(offset + 3);
+    }
+    // Only keywords at the beginning of the line are compared, they can be
+    // aligned with the line of the block or the block keyword ('x = if ...')
+    const line = this._lines[this._lineIndex(offset)];
+    const opener = this._lines[this._lineIndex(block.offset)];
+    if (
+      !this._mismatch &&
+      this._isLineStart(offset) &&
+      offset - line !== block.indent &&
+      offset - line !== block.offset - opener
+    ) {
+      this._mismatch = { offset, block };
+    }
+  }
+
+  /**
+   * Checks that the current block was opened by any of the given keywords.
+   * @param openers Valid block openers
+   * @param keyword Keyword
+   * @param offset Keyword offset
+   * @throws A syntax exception if the current block is not valid
+   */
+  private _expect(openers: string[], keyword: string, offset: number) {
+    const block = this._stack[this._stack.length - 1];
+    if (!block || !openers.includes(block.opener)) {
+      throw new RubySyntaxException(`unexpected '${keyword}'`, offset);
+    }
+  }
+
+  /**
+   * Checks if the given offset is the first token of its line.
+   * @param offset Offset
+   * @returns Whether it is the first token or not
+   */
+  private _isLineStart(offset: number) {
+    const line = this._lines[this._lineIndex(offset)];
+    return /^[ \t]*$/.test(this._code.substring(line, offset));
+  }
+
+  /**
+   * Gets the indentation of the line of the given offset.
+   * @param offset Offset
+   * @returns Indentation
+   */
+  private _indentation(offset: number) {
+    const line = this._lines[this._lineIndex(offset)];
+    return this._code.substring(line, offset).match(/^[ \t]*/)![0].length;
+  }
+
+  /**
+   * Gets the location of the given offset.
+   * @param offset Offset
+   * @returns Location
+   */
+  private _location(offset: number): RubyLocation {
+    const line = this._lineIndex(offset);
+    return { line: line + 1, column: offset - this._lines[line] };
+  }
+
+  /**
+   * Gets the line index (0-based) of the given offset.
+   * @param offset Offset
+   * @returns Line index
+   */
+  private _lineIndex(offset: number) {
+    let low = 0;
+    let high = this._lines.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this._lines[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * Checks the syntax of the given Ruby code.
+ *
+ * Only the structure of the code is checked: blocks closed with ``end``, brackets,
+ * strings, regular expressions, heredocs and embedded documents.
+ *
+ * If the code is valid it returns ``undefined``.
+ * @param code Ruby code
+ * @returns The first syntax error found
+ */
+export function checkRubySyntax(code: string): RubySyntaxError | undefined {
+  // The byte order mark is ignored like Ruby does
+  return new RubySyntaxChecker(code.replace(/^\uFEFF/, '')).check();
+}
+
+/**
+ * Parses the classes, modules, methods and aliases defined in the given Ruby code.
+ *
+ * Symbols are returned as a tree, symbols defined inside a class, module or method
+ * are children of it.
+ *
+ * If the code has syntax errors, the symbols defined before the error are returned.
+ * @param code Ruby code
+ * @returns List of top level symbols
+ */
+export function parseRubySymbols(code: string): RubySymbol[] {
+  const checker = new RubySyntaxChecker(code.replace(/^\uFEFF/, ''));
+  checker.check();
+  return checker.symbols;
+}
+
+/**
+ * Gets the full name of the given symbol.
+ *
+ * Instance methods are separated from their owner with ``#`` (``Game_Actor#setup``)
+ * and singleton methods with ``.`` (``Cache.load_bitmap``).
+ * @param symbol Ruby symbol
+ * @returns Full name
+ */
+export function rubySymbolFullName(symbol: RubySymbol) {
+  if (!symbol.owner) {
+    return symbol.name;
+  }
+  switch (symbol.kind) {
+    case RubySymbolKind.Class:
+    case RubySymbolKind.Module:
+      return `${symbol.owner}::${symbol.name}`;
+    default:
+      return `${symbol.owner}${symbol.singleton ? '.' : '#'}${symbol.name}`;
+  }
+}
+
+/**
+ * Flattens the given symbol tree.
+ *
+ * Symbols are returned in the order they are defined in the code.
+ * @param symbols List of symbols
+ * @returns List of all symbols
+ */
+export function flattenRubySymbols(symbols: RubySymbol[]): RubySymbol[] {
+  return symbols.flatMap((symbol) => [
+    symbol,
+    ...flattenRubySymbols(symbol.children),
+  ]);
+}
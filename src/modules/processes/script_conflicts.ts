@@ -0,0 +1,117 @@
+import {
+  ControllerScriptSymbols,
+  EditorSectionBase,
+} from './scripts_controller';
+import {
+  flattenRubySymbols,
+  rubySymbolFullName,
+  RubySymbol,
+  RubySymbolKind,
+} from './ruby_syntax';
+
+/**
+ * Shadowed method type.
+ */
+export type ShadowedMethod = {
+  /**
+   * Method full name (``Scene_Map#update``).
+   */
+  name: string;
+
+  /**
+   * Definition that is never used at runtime.
+   */
+  shadowed: RubySymbol;
+
+  /**
+   * Definition of the later script that replaces it.
+   */
+  shadowing: RubySymbol;
+};
+
+/**
+ * Script conflict type.
+ *
+ * Groups all methods of a script that are shadowed by the same later script.
+ */
+export type ScriptConflict = {
+  /**
+   * Script section whose definitions are dead code.
+   */
+  shadowed: EditorSectionBase;
+
+  /**
+   * Script section loaded later that redefines the methods.
+   */
+  shadowing: EditorSectionBase;
+
+  /**
+   * List of shadowed methods.
+   */
+  methods: ShadowedMethod[];
+};
+
+/**
+ * Finds all methods whose definitions are shadowed by a script loaded later.
+ *
+ * A definition is shadowed when another script fully redefines the method
+ * without aliasing it first, so the previous definition is never called.
+ *
+ * Redefinitions inside the same script are ignored.
+ *
+ * Scripts must be given in load order, conflicts are returned grouped by
+ * script pair in the order they are found.
+ * @param entries List of script symbols
+ * @returns List of script conflicts
+ */
+export function findShadowedMethods(
+  entries: readonly ControllerScriptSymbols[]
+): ScriptConflict[] {
+  const definitions = new Map<
+    string,
+    { section: EditorSectionBase; symbol: RubySymbol }
+  >();
+  const aliased = new Set<string>();
+  const conflicts: ScriptConflict[] = [];
+
+  entries.forEach((entry) => {
+    flattenRubySymbols(entry.symbols).forEach((symbol) => {
+      if (symbol.kind === RubySymbolKind.Method) {
+        const name = rubySymbolFullName(symbol);
+        const previous = definitions.get(name);
+        if (
+          previous &&
+          previous.section !== entry.section &&
+          !aliased.has(name)
+        ) {
+          let conflict = conflicts.find(
+            (conflict) =>
+              conflict.shadowed === previous.section &&
+              conflict.shadowing === entry.section
+          );
+          if (!conflict) {
+            conflict = {
+              shadowed: previous.section,
+              shadowing: entry.section,
+              methods: [],
+            };
+            conflicts.push(conflict);
+          }
+          conflict.methods.push({
+            name: name,
+            shadowed: previous.symbol,
+            shadowing: symbol,
+          });
+        }
+        aliased.delete(name);
+        definitions.set(name, { section: entry.section, symbol: symbol });
+      } else if (symbol.kind === RubySymbolKind.Alias && symbol.original) {
+        // The alias keeps the previous definition reachable
+        aliased.add(rubySymbolFullName({ ...symbol, name: symbol.original }));
+        // The alias replaces the definition of the method with its name
+        definitions.delete(rubySymbolFullName(symbol));
+      }
+    });
+  });
+  return conflicts;
+}
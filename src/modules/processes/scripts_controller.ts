@@ -7,8 +7,18 @@ import * as vscode from 'vscode';
 import * as fileutils from '../utils/fileutils';
 import * as strings from '../utils/strings';
 import { TextDecoder } from 'util';
-import { Configuration } from '../utils/configuration';
+import { BundleInfo, Configuration } from '../utils/configuration';
 import { logger } from '../utils/logger';
+import { BundleDiffStatus, diffBundles } from './bundle_diff';
+import {
+  checkRubySyntax,
+  flattenRubySymbols,
+  parseRubySymbols,
+  rubySymbolFullName,
+  RubySymbol,
+  RubySymbolKind,
+  RubySyntaxError,
+} from './ruby_syntax';
 
 /**
  * Editor section instance type enumerator.
@@ -38,6 +48,160 @@ export const enum ControllerEditorMode {
   MOVE,
 }
 
+/**
+ * Bundle file system URI scheme.
+ *
+ * Sections inside bundle files are located with this scheme.
+ *
+ * The URI path is formed by the bundle file path and the section path, as it would be extracted.
+ */
+export const BUNDLE_FILE_SCHEME = 'rgss-bundle';
+
+/**
+ * RPG Maker bundle section type.
+ */
+export type BundleSection = {
+  /**
+   * RPG Maker section ID.
+   */
+  id: number;
+
+  /**
+   * Section name.
+   */
+  name: string;
+
+  /**
+   * Section code (inflated).
+   */
+  code: string;
+
+  /**
+   * Location of the section code.
+   *
+   * Scripts inside a bundle file are located with a bundle file system URI.
+   *
+   * It is ``undefined`` for sections that are not scripts.
+   */
+  uri?: vscode.Uri;
+};
+
+/**
+ * Controller merge change type.
+ *
+ * Each change represents a section of the merged bundle file.
+ */
+export type ControllerMergeChange = {
+  /**
+   * Change status.
+   *
+   * Renamed sections are considered modified only if their code changed.
+   */
+  status: BundleDiffStatus;
+
+  /**
+   * Editor section matched with the bundle section.
+   *
+   * It is ``undefined`` for added sections.
+   */
+  section?: EditorSectionBase;
+
+  /**
+   * Section of the merged bundle file.
+   *
+   * It is ``undefined`` for removed sections.
+   */
+  bundleSection?: BundleSection;
+
+  /**
+   * Section loaded status in the merged bundle file.
+   */
+  loaded: boolean;
+
+  /**
+   * Whether the loaded status of the merged bundle file is different from the editor section one.
+   *
+   * It is always ``false`` for added and removed sections.
+   */
+  loadChanged: boolean;
+};
+
+/**
+ * Controller bundle entry type.
+ *
+ * Each entry represents a section of a bundle file as it would be extracted.
+ */
+export type ControllerBundleEntry = {
+  /**
+   * Entry type (script or folder).
+   */
+  type: EditorSectionType;
+
+  /**
+   * Entry path relative to the bundle file.
+   *
+   * Path segments are always separated with forward slashes.
+   */
+  path: string;
+
+  /**
+   * Script code (empty for folders).
+   */
+  code: string;
+};
+
+/**
+ * Controller syntax error type.
+ */
+export type ControllerSyntaxError = RubySyntaxError & {
+  /**
+   * Script file path.
+   */
+  uri: vscode.Uri;
+};
+
+/**
+ * Controller script symbols type.
+ */
+export type ControllerScriptSymbols = {
+  /**
+   * Script section.
+   */
+  section: EditorSectionBase;
+
+  /**
+   * Symbols defined in the script.
+   */
+  symbols: RubySymbol[];
+};
+
+/**
+ * Controller method definition type.
+ */
+export type ControllerMethodDefinition = {
+  /**
+   * Script section where the method is defined.
+   */
+  section: EditorSectionBase;
+
+  /**
+   * Method or alias symbol.
+   */
+  symbol: RubySymbol;
+
+  /**
+   * Method full name (``Game_Actor#setup``).
+   */
+  fullName: string;
+
+  /**
+   * Whether this definition is the one used at runtime or not.
+   *
+   * It is the last definition of the method loaded by the game.
+   */
+  active: boolean;
+};
+
 /**
  * Controller create options type.
  */
@@ -63,6 +227,59 @@ type ControllerCreateOptions = {
    * Whether to overwrite a editor section entry or not.
    */
   overwrite?: boolean;
+
+  /**
+   * Sets the RPG Maker section ID.
+   */
+  sectionId?: number;
+};
+
+/**
+ * Section ID record type.
+ *
+ * Each record is saved into the section IDs file.
+ */
+type SectionIdRecord = {
+  /**
+   * Editor section path relative to the scripts folder.
+   */
+  path: string;
+
+  /**
+   * RPG Maker section ID.
+   */
+  id: number;
+};
+
+/**
+ * Controller extract options type.
+ */
+type ControllerExtractOptions = {
+  /**
+   * Whether to overwrite the current editor sections with the bundle file contents or not.
+   *
+   * Editor sections that are not present in the bundle file will be removed.
+   */
+  overwrite?: boolean;
+};
+
+/**
+ * Controller bundle creation options type.
+ */
+type ControllerBundleOptions = {
+  /**
+   * Whether to keep disabled editor sections inside the bundle file or not.
+   *
+   * Disabled sections are marked so RPG Maker does not evaluate them.
+   */
+  markDisabled?: boolean;
+
+  /**
+   * Whether to create the bundle file deterministically or not.
+   *
+   * Section IDs are derived from the relative path of each section, ignoring the original section IDs.
+   */
+  deterministic?: boolean;
 };
 
 /**
@@ -141,6 +358,48 @@ type LoaderScriptConfig = {
    */
   errorFilePath: string;
 
+  /**
+   * Log records file path.
+   *
+   * The file where the loader and the game scripts append log records.
+   */
+  logFilePath: string;
+
+  /**
+   * Debugger events file path.
+   *
+   * The file where the debug agent appends its events.
+   */
+  debugEventsFilePath: string;
+
+  /**
+   * Debugger commands file path.
+   *
+   * The file where the extension debugger appends its commands.
+   */
+  debugCommandsFilePath: string;
+
+  /**
+   * Script reloads file path.
+   *
+   * The file where the extension appends the scripts to reload.
+   */
+  reloadsFilePath: string;
+
+  /**
+   * Console requests file path.
+   *
+   * ``%s`` is replaced with the console ID of the game process.
+   */
+  consoleRequestsFilePath: string;
+
+  /**
+   * Console results file path.
+   *
+   * ``%s`` is replaced with the console ID of the game process.
+   */
+  consoleResultsFilePath: string;
+
   /**
    * Skip script character.
    */
@@ -173,11 +432,31 @@ const BLACKLIST_OPT_REGEXP = /[^\x20-\x7E]/gi;
  */
 const SEPARATORS = /[\\\/]+/gi;
 
+/**
+ * Compression options used to deflate the code of each RPG Maker script entry.
+ *
+ * All parameters are fixed so the same code always produces the same compressed data.
+ */
+const BUNDLE_COMPRESSION_OPTIONS: zlib.ZlibOptions = {
+  level: zlib.constants.Z_BEST_COMPRESSION,
+  memLevel: 8,
+  windowBits: 15,
+  strategy: zlib.constants.Z_DEFAULT_STRATEGY,
+  finishFlush: zlib.constants.Z_FINISH,
+};
+
 /**
  * Load order file name within the scripts folder.
  */
 const LOAD_ORDER_FILE_NAME = 'load_order.txt';
 
+/**
+ * Section IDs file name within the scripts folder.
+ *
+ * This file keeps the original RPG Maker section IDs of the editor sections.
+ */
+const SECTION_IDS_FILE_NAME = 'section_ids.json';
+
 /**
  * Name for the editor section separator instance.
  *
@@ -193,6 +472,23 @@ const EDITOR_SECTION_SEPARATOR = '*separator*';
 const EDITOR_SECTION_FOLDER_CONTENTS =
   '# RGSS Script Editor folder (PLEASE DO NOT MODIFY THIS SCRIPT AT ALL)';
 
+/**
+ * Header used to mark an editor section as disabled inside a RPG Maker bundle file.
+ *
+ * RPG Maker evaluates every section of the bundle file, ``__END__`` stops Ruby from parsing
+ * the rest of the section, so the original contents can be kept untouched below it.
+ */
+const EDITOR_SECTION_DISABLED_HEADER =
+  '# RGSS Script Editor disabled section (delete these two lines to enable it)\n__END__\n';
+
+/**
+ * Regexp to detect the disabled section header inside a RPG Maker script entry.
+ *
+ * The RPG Maker built-in editor may change the end of line of the header.
+ */
+const EDITOR_SECTION_DISABLED_REGEXP =
+  /^# RGSS Script Editor disabled section.*\r?\n__END__(\r?\n|$)/;
+
 /**
  * Character used to mark a editor section as skipped.
  *
@@ -266,6 +562,13 @@ export abstract class EditorSectionBase extends vscode.TreeItem {
    */
   protected _parent?: EditorSectionBase;
 
+  /**
+   * RPG Maker section ID.
+   *
+   * Used to keep the original section ID when creating a bundle file.
+   */
+  private _sectionId?: number;
+
   /**
    * Editor section ID.
    */
@@ -356,6 +659,13 @@ export abstract class EditorSectionBase extends vscode.TreeItem {
     return this._parent;
   }
 
+  /**
+   * RPG Maker section ID.
+   */
+  get sectionId() {
+    return this._sectionId;
+  }
+
   /**
    * Gets the count of children instances of this editor section.
    * @returns Children list size.
@@ -398,6 +708,14 @@ export abstract class EditorSectionBase extends vscode.TreeItem {
     this._parent = section;
   }
 
+  /**
+   * Sets this editor section RPG Maker section ID.
+   * @param id Section ID.
+   */
+  setSectionId(id?: number) {
+    this._sectionId = id;
+  }
+
   /**
    * Sets this editor section description text on the tree view.
    *
@@ -1078,6 +1396,11 @@ export class ScriptsController {
    */
   public static readonly SCRIPTS_IMPORTED = 180;
 
+  /**
+   * Determines if the scripts were merged.
+   */
+  public static readonly SCRIPTS_MERGED = 190;
+
   /**
    * Determines if the script loader bundle was created.
    */
@@ -1088,16 +1411,43 @@ export class ScriptsController {
    */
   public static readonly BUNDLE_CREATED = 300;
 
+  /**
+   * Determines if the bundle file was restored with all editor sections.
+   */
+  public static readonly BUNDLE_RESTORED = 350;
+
+  /**
+   * Determines if the bundle file matches the editor sections.
+   */
+  public static readonly BUNDLE_VERIFIED = 400;
+
+  /**
+   * Determines if the bundle file does not match the editor sections.
+   */
+  public static readonly BUNDLE_MISMATCH = 450;
+
   /**
    * Extension configuration instance.
    */
   private _config?: Configuration;
 
+  /**
+   * Additional bundle file information.
+   *
+   * If it is ``undefined``, this instance handles the project's bundle file.
+   */
+  private _bundle?: BundleInfo;
+
   /**
    * Load order file Uri path.
    */
   private _loadOrderFilePath?: vscode.Uri;
 
+  /**
+   * Section IDs file Uri path.
+   */
+  private _sectionIdsFilePath?: vscode.Uri;
+
   /**
    * Script section root instance.
    */
@@ -1125,6 +1475,11 @@ export class ScriptsController {
    */
   private _textDecoder: TextDecoder;
 
+  /**
+   * Symbols of each script file, stored with the file modification time.
+   */
+  private _symbolsCache: Map<string, [number, RubySymbol[]]>;
+
   /**
    * Constructor.
    */
@@ -1134,6 +1489,25 @@ export class ScriptsController {
     this._textDecoder = new TextDecoder('utf8');
     this._clipboard = [];
     this._clipboardCut = false;
+    this._symbolsCache = new Map();
+  }
+
+  /**
+   * Bundle name.
+   *
+   * The project's bundle is named after its bundle file.
+   */
+  get bundleName() {
+    return (
+      this._bundle?.name || path.basename(this.bundleFilePath?.fsPath || '')
+    );
+  }
+
+  /**
+   * Bundle file Uri path.
+   */
+  get bundleFilePath() {
+    return this._determineBundleFilePath();
   }
 
   /**
@@ -1183,10 +1557,14 @@ export class ScriptsController {
 
   /**
    * Updates the scripts controller instance attributes.
+   *
+   * If ``bundle`` is given, this instance handles that additional bundle file instead of the project's bundle file.
    * @param config Configuration.
+   * @param bundle Additional bundle file information.
    */
-  async update(config: Configuration) {
+  async update(config: Configuration, bundle?: BundleInfo) {
     this._config = config;
+    this._bundle = bundle;
     this._restart();
   }
 
@@ -1201,7 +1579,7 @@ export class ScriptsController {
    */
   async checkScripts(): Promise<number> {
     logger.logInfo(`Checking project's bundle scripts file status...`);
-    let bundleFilePath = this._config?.determineBundleFilePath();
+    let bundleFilePath = this._determineBundleFilePath();
 
     logger.logInfo(`Bundle file path is: "${bundleFilePath?.fsPath}"`);
     if (!bundleFilePath) {
@@ -1228,14 +1606,18 @@ export class ScriptsController {
    *
    * The root editor section instance is automatically updated with the new instances.
    *
+   * If ``overwrite`` is enabled, the current editor sections are replaced with the bundle
+   * file contents, this is used to extract the scripts again from a restored bundle file.
+   *
    * **The promise is resolved when the extraction is done with a code number.**
    *
    * **If the extraction was impossible it rejects the promise with an error.**
+   * @param options Extract options
    * @returns A promise
    * @throws An error if extraction is not possible
    */
-  async extractScripts(): Promise<number> {
-    const bundleFilePath = this._config?.determineBundleFilePath();
+  async extractScripts(options?: ControllerExtractOptions): Promise<number> {
+    const bundleFilePath = this._determineBundleFilePath();
     logger.logInfo('Extracting scripts from RPG Maker bundle file...');
     logger.logInfo(`Bundle file path is: "${bundleFilePath?.fsPath}"`);
     logger.logInfo(`Scripts root path is: "${this._root.resourceUri}"`);
@@ -1253,6 +1635,12 @@ export class ScriptsController {
       return ScriptsController.SCRIPTS_NOT_EXTRACTED;
     }
 
+    // Remembers the current editor sections when overwriting them
+    const oldSections = options?.overwrite ? this._root.nestedChildren() : [];
+    if (options?.overwrite) {
+      this._root.clear();
+    }
+
     // Iterate through the bundle file extracting each script section
     for (let i = 0; i < bundle.length; i++) {
       // Gets bundle entry info
@@ -1267,10 +1655,10 @@ export class ScriptsController {
 
       // Determines section's base info
       const baseName = this._processScriptPath(bundleName);
-      const baseCode = bundleCode.trim();
+      const baseCode = this._processScriptCode(bundleCode);
 
       // Determine editor section type
-      let sectionType = this.determineSectionType(baseName, baseCode);
+      let sectionType = this.determineSectionType(baseName, baseCode.code);
       if (!sectionType) {
         continue;
       }
@@ -1282,10 +1670,27 @@ export class ScriptsController {
         this._root,
         {
           ignoreEditorMode: true,
-          avoidOverwrite: true,
+          avoidOverwrite: !options?.overwrite,
         }
       );
 
+      // Avoids overwriting a script extracted in this same operation
+      if (
+        options?.overwrite &&
+        sectionType === EditorSectionType.Script &&
+        this.sectionFind(sectionInfo.uri)
+      ) {
+        sectionInfo = this.determineSectionInfo(
+          sectionType,
+          baseName,
+          this._root,
+          {
+            ignoreEditorMode: true,
+            avoidOverwrite: true,
+          }
+        );
+      }
+
       // Create the new section
       this.sectionCreate(
         {
@@ -1294,9 +1699,23 @@ export class ScriptsController {
           uri: sectionInfo.uri,
           position: sectionInfo.position,
         },
-        { checkboxState: true, contents: baseCode }
+        {
+          checkboxState: baseCode.loaded,
+          contents: baseCode.code,
+          overwrite: options?.overwrite,
+          sectionId: bundleNumber,
+        }
       );
     }
+
+    // Removes old editor sections that are not present in the bundle file anymore
+    // Sections are processed in reverse order so nested children are removed first
+    for (const section of oldSections.reverse()) {
+      if (!this.sectionFind(section.resourceUri)) {
+        logger.logInfo(`Removing section: "${section.resourceUri.fsPath}"`);
+        this._deleteEntry(section);
+      }
+    }
     return ScriptsController.SCRIPTS_EXTRACTED;
   }
 
@@ -1348,10 +1767,10 @@ export class ScriptsController {
 
       // Determines section's base info
       const baseName = this._processScriptPath(bundleName);
-      const baseCode = bundleCode.trim();
+      const baseCode = this._processScriptCode(bundleCode);
 
       // Determine editor section type
-      const sectionType = this.determineSectionType(baseName, baseCode);
+      const sectionType = this.determineSectionType(baseName, baseCode.code);
       if (!sectionType) {
         continue;
       }
@@ -1369,71 +1788,295 @@ export class ScriptsController {
 
       // Create the new section
       this.sectionCreate(sectionInfo, {
-        checkboxState: true,
-        contents: baseCode,
+        checkboxState: baseCode.loaded,
+        contents: baseCode.code,
       });
     }
     return ScriptsController.SCRIPTS_IMPORTED;
   }
 
   /**
-   * Asynchronously creates a RPG Maker bundle file.
+   * Determines the changes needed to merge the given RPG Maker bundle file into the editor sections.
    *
-   * This method will create a packaged RPG Maker bundle file with all of the given editor sections
+   * Sections are matched against the current editor sections, nothing is written.
    *
-   * This method creates all nested folders needed to create the bundle file.
+   * Changes are returned in the order of the bundle file, removed sections are appended at the end.
+   * @param targetBundle Target bundle file
+   * @returns List of changes
+   * @throws An error if the bundle file cannot be read
+   */
+  determineMergeChanges(targetBundle: vscode.Uri): ControllerMergeChange[] {
+    logger.logInfo(`Determining merge changes of: "${targetBundle.fsPath}"`);
+    const sections = this._root.nestedChildren();
+    const editorSections = this._toBundleSections(
+      this._decodeBundle(this._buildBundle(sections))
+    );
+    const loaded = new Map<BundleSection, boolean>();
+    const bundleSections = this.readBundleSections(targetBundle).map(
+      (bundleSection) => {
+        const bundleCode = this._processScriptCode(bundleSection.code);
+        const section = { ...bundleSection, code: bundleCode.code };
+        loaded.set(section, bundleCode.loaded);
+        return section;
+      }
+    );
+
+    return diffBundles(editorSections, bundleSections).map((entry) => {
+      const section = entry.original
+        ? sections[editorSections.indexOf(entry.original)]
+        : undefined;
+
+      // Renamed sections keep their current path
+      let status = entry.status;
+      if (status === BundleDiffStatus.Renamed) {
+        status = BundleDiffStatus.Unchanged;
+      } else if (status === BundleDiffStatus.RenamedModified) {
+        status = BundleDiffStatus.Modified;
+      }
+      const sectionLoaded = entry.modified
+        ? loaded.get(entry.modified)!
+        : false;
+      return {
+        status: status,
+        section: section,
+        bundleSection: entry.modified,
+        loaded: sectionLoaded,
+        loadChanged:
+          !!section && !!entry.modified && section.isLoaded() !== sectionLoaded,
+      };
+    });
+  }
+
+  /**
+   * Asynchronously merges the given changes into the editor sections.
    *
-   * **The promise is resolved when the creation is done with a code number.**
+   * Only the ``selected`` changes are applied, the rest of changes are used to determine
+   * the position of new sections in the load order.
    *
-   * **If the creation was impossible it rejects the promise with an error.**
-   * @param sections List of editor sections
-   * @param destination Destination path
+   * Modified scripts are updated in place and added sections are inserted after the
+   * previous section of the merged bundle file.
+   *
+   * The loaded status of the sections is updated to the merged bundle file one.
+   *
+   * Removed sections are deleted only if they are selected.
+   *
+   * **The promise is resolved when the merge is done with a code number.**
+   *
+   * **If the merge was impossible it rejects the promise with an error.**
+   * @param changes List of all changes
+   * @param selected List of changes to apply
    * @returns A promise
-   * @throws An error if creation fails.
+   * @throws An error if merge is not possible
    */
-  async createBundle(
-    sections: readonly EditorSectionBase[],
-    destination: vscode.Uri
+  async mergeScripts(
+    changes: readonly ControllerMergeChange[],
+    selected: readonly ControllerMergeChange[]
   ): Promise<number> {
-    logger.logInfo('Creating bundle file...');
-    logger.logInfo(`Destination path: "${destination.fsPath}"`);
+    logger.logInfo('Merging scripts...');
+    let anchor: EditorSectionBase | undefined = undefined;
 
-    // Prepares RPG Maker bundle
-    let usedIds: number[] = [];
-    let bundle: any[][] = [];
+    for (const change of changes) {
+      const apply = selected.includes(change);
 
-    // Creation loop
-    sections.forEach((section, index) => {
-      // Initializes the ID for a new section
-      let id = this._generateScriptId(usedIds);
+      // Removed sections are kept in the editor unless they are selected
+      if (!change.bundleSection) {
+        if (apply && change.section) {
+          logger.logInfo(
+            `Deleting section: "${change.section.resourceUri.fsPath}"`
+          );
+          this.sectionDelete(change.section);
+        }
+        continue;
+      }
 
-      // Determines RPG Maker script section name
-      let name = this._root.relative(section.resourceUri);
+      // Updates the loaded status of the section
+      if (apply && change.section && change.loadChanged) {
+        logger.logInfo(
+          `Updating section load status: "${change.section.resourceUri.fsPath}"`
+        );
+        this.sectionAlternateLoad(change.section, change.loaded);
+      }
 
-      // Formats the code based on the editor section
-      let code = section.isType(EditorSectionType.Script)
-        ? fs.readFileSync(section.resourceUri.fsPath, { encoding: 'utf8' })
-        : section.isType(EditorSectionType.Folder)
-        ? EDITOR_SECTION_FOLDER_CONTENTS
-        : '';
+      // Process section based on the change
+      switch (change.status) {
+        case BundleDiffStatus.Added: {
+          if (!apply) {
+            break;
+          }
 
-      // Creates a new bundle section
-      bundle[index] = [];
-      bundle[index][0] = id;
-      bundle[index][1] = name;
-      bundle[index][2] = zlib.deflateSync(code, {
-        level: zlib.constants.Z_BEST_COMPRESSION,
-        finishFlush: zlib.constants.Z_FINISH,
-      });
+          // Determines section's base info
+          const baseName = this._processScriptPath(change.bundleSection.name);
+          const sectionType = this.determineSectionType(
+            baseName,
+            change.bundleSection.code
+          );
+          if (!sectionType) {
+            break;
+          }
+          let sectionInfo = this.determineSectionInfo(
+            sectionType,
+            baseName,
+            this._root,
+            { ignoreEditorMode: true, avoidOverwrite: true }
+          );
 
-      // Remembers the recently-used unique ID
-      usedIds.push(id);
-    });
+          // Inserts the section after the previous one if they share the parent
+          const parentUri = vscode.Uri.file(
+            path.dirname(sectionInfo.uri.fsPath)
+          );
+          if (anchor?.parent?.isPath(parentUri)) {
+            sectionInfo.position = anchor.parent.getChildPos(anchor) + 1;
+          }
 
-    // Marshalizes the bundle file contents
-    let bundleMarshalized = marshal.dump(bundle, {
-      hashStringKeysToSymbol: true,
-    });
+          logger.logInfo(`Adding section: "${sectionInfo.uri.fsPath}"`);
+          anchor =
+            this.sectionCreate(sectionInfo, {
+              checkboxState: change.loaded,
+              contents: change.bundleSection.code,
+            }) || anchor;
+          break;
+        }
+        case BundleDiffStatus.Modified: {
+          anchor = change.section;
+          if (!apply || !change.section?.isType(EditorSectionType.Script)) {
+            break;
+          }
+
+          // Updates the script contents in place
+          logger.logInfo(
+            `Updating section: "${change.section.resourceUri.fsPath}"`
+          );
+          fs.writeFileSync(
+            change.section.resourceUri.fsPath,
+            this._formatScriptCode(change.bundleSection.code),
+            { encoding: 'utf8', flag: 'w' }
+          );
+          break;
+        }
+        default: {
+          anchor = change.section;
+          break;
+        }
+      }
+    }
+    return ScriptsController.SCRIPTS_MERGED;
+  }
+
+  /**
+   * Reads all sections of the given RPG Maker bundle file.
+   *
+   * Scripts are located with a bundle file system URI.
+   *
+   * This extension loader script is ignored.
+   * @param bundleFile Bundle file path
+   * @returns List of bundle sections
+   * @throws An error if the bundle file cannot be read
+   */
+  readBundleSections(bundleFile: vscode.Uri): BundleSection[] {
+    const bundle = this._readBundleFile(bundleFile.fsPath);
+    return this._toBundleSections(
+      bundle,
+      this._toBundleEntries(bundle).map((entry) =>
+        entry?.type === EditorSectionType.Script
+          ? this._bundleEntryUri(bundleFile, entry.path)
+          : undefined
+      )
+    );
+  }
+
+  /**
+   * Reads all sections of the given RPG Maker bundle file as extraction entries.
+   *
+   * Entries paths are determined the same way the scripts are extracted.
+   *
+   * Separators and this extension loader script are ignored.
+   * @param bundleFile Bundle file path
+   * @returns List of bundle entries
+   * @throws An error if the bundle file cannot be read
+   */
+  readBundleEntries(bundleFile: vscode.Uri): ControllerBundleEntry[] {
+    const entries: ControllerBundleEntry[] = [];
+    this._toBundleEntries(this._readBundleFile(bundleFile.fsPath)).forEach(
+      (entry) => {
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+    );
+    return entries;
+  }
+
+  /**
+   * Determines the URI of the script at the given position of the given RPG Maker bundle file.
+   *
+   * The position is the one that RPG Maker uses in the backtrace lines of the
+   * scripts inside the bundle file, so this extension loader script is not ignored.
+   *
+   * If there is no script at the given position, it returns ``undefined``.
+   * @param bundleFile Bundle file path
+   * @param index Section position
+   * @returns Bundle file system URI
+   * @throws An error if the bundle file cannot be read
+   */
+  determineBundleSectionUri(bundleFile: vscode.Uri, index: number) {
+    const entry = this._toBundleEntries(
+      this._readBundleFile(bundleFile.fsPath)
+    ).at(index);
+    return entry?.type === EditorSectionType.Script
+      ? this._bundleEntryUri(bundleFile, entry.path)
+      : undefined;
+  }
+
+  /**
+   * Gets the bundle sections of the given list of editor sections.
+   *
+   * The sections are the same as the ones written when restoring the bundle file.
+   *
+   * Scripts are located with their file URI.
+   *
+   * If no sections are given, all editor sections are used.
+   * @param sections List of editor sections
+   * @returns List of bundle sections
+   */
+  readEditorSections(sections?: readonly EditorSectionBase[]): BundleSection[] {
+    const editorSections = sections || this._root.nestedChildren();
+    const bundle = this._buildBundle(editorSections, { markDisabled: true });
+    return this._toBundleSections(
+      this._decodeBundle(bundle),
+      editorSections.map((section) =>
+        section.isType(EditorSectionType.Script)
+          ? section.resourceUri
+          : undefined
+      )
+    );
+  }
+
+  /**
+   * Asynchronously creates a RPG Maker bundle file.
+   *
+   * This method will create a packaged RPG Maker bundle file with all of the given editor sections
+   *
+   * This method creates all nested folders needed to create the bundle file.
+   *
+   * **The promise is resolved when the creation is done with a code number.**
+   *
+   * **If the creation was impossible it rejects the promise with an error.**
+   * @param sections List of editor sections
+   * @param destination Destination path
+   * @param options Bundle options
+   * @returns A promise
+   * @throws An error if creation fails.
+   */
+  async createBundle(
+    sections: readonly EditorSectionBase[],
+    destination: vscode.Uri,
+    options?: ControllerBundleOptions
+  ): Promise<number> {
+    logger.logInfo('Creating bundle file...');
+    logger.logInfo(`Destination path: "${destination.fsPath}"`);
+
+    // Builds the bundle file contents
+    let bundleMarshalized = this._buildBundle(sections, options);
 
     // Creates the folder if it does not exists already
     fileutils.createFolder(path.dirname(destination.fsPath), {
@@ -1448,6 +2091,179 @@ export class ScriptsController {
     return ScriptsController.BUNDLE_CREATED;
   }
 
+  /**
+   * Asynchronously verifies that the given bundle file ``target`` matches the given list of editor sections.
+   *
+   * The bundle file contents are compared byte per byte with the bundle that would be created with the same sections and options.
+   *
+   * Differences between both bundles are logged.
+   *
+   * **The promise is resolved when the verification is done with a code number.**
+   *
+   * **If the verification was impossible it rejects the promise with an error.**
+   * @param sections List of editor sections
+   * @param target Bundle file path
+   * @param options Bundle options
+   * @returns A promise
+   * @throws An error if verification fails.
+   */
+  async verifyBundle(
+    sections: readonly EditorSectionBase[],
+    target: vscode.Uri,
+    options?: ControllerBundleOptions
+  ): Promise<number> {
+    logger.logInfo('Verifying bundle file...');
+    logger.logInfo(`Bundle file path: "${target.fsPath}"`);
+
+    // Checks for bundle file existence
+    if (!fs.existsSync(target.fsPath)) {
+      throw new Error(
+        `Cannot verify the bundle file because it does not exists!`
+      );
+    }
+
+    // Builds the expected bundle file contents
+    const expected = Buffer.from(this._buildBundle(sections, options));
+    const actual = fs.readFileSync(target.fsPath);
+    if (expected.equals(actual)) {
+      return ScriptsController.BUNDLE_VERIFIED;
+    }
+
+    // Logs all differences between both bundles
+    const expectedBundle = this._decodeBundle(expected);
+    const actualBundle = this._readBundleFile(target.fsPath);
+    if (expectedBundle.length !== actualBundle.length) {
+      logger.logWarning(
+        `Number of sections differ, expected: ${expectedBundle.length}, got: ${actualBundle.length}`
+      );
+    }
+    const count = Math.max(expectedBundle.length, actualBundle.length);
+    for (let i = 0; i < count; i++) {
+      const expectedEntry = expectedBundle[i];
+      const actualEntry = actualBundle[i];
+      if (!expectedEntry || !actualEntry) {
+        const entry = expectedEntry || actualEntry;
+        logger.logWarning(
+          `Section #${i} ("${entry[1]}") is only present in the ${
+            expectedEntry ? 'editor' : 'bundle file'
+          }`
+        );
+        continue;
+      }
+      if (expectedEntry[0] !== actualEntry[0]) {
+        logger.logWarning(
+          `Section #${i} ("${expectedEntry[1]}") ID differs, expected: ${expectedEntry[0]}, got: ${actualEntry[0]}`
+        );
+      }
+      if (expectedEntry[1] !== actualEntry[1]) {
+        logger.logWarning(
+          `Section #${i} name differs, expected: "${expectedEntry[1]}", got: "${actualEntry[1]}"`
+        );
+      }
+      if (expectedEntry[2] !== actualEntry[2]) {
+        logger.logWarning(`Section #${i} ("${expectedEntry[1]}") code differs`);
+      }
+    }
+    return ScriptsController.BUNDLE_MISMATCH;
+  }
+
+  /**
+   * Checks the Ruby syntax of the given list of editor sections.
+   *
+   * Sections are checked in the given order, only script sections are checked.
+   * @param sections List of editor sections
+   * @returns List of syntax errors
+   * @throws An error if a script file cannot be read
+   */
+  checkSyntax(sections: readonly EditorSectionBase[]): ControllerSyntaxError[] {
+    const errors: ControllerSyntaxError[] = [];
+    sections.forEach((section) => {
+      if (!section.isType(EditorSectionType.Script)) {
+        return;
+      }
+      const code = fs.readFileSync(section.resourceUri.fsPath, {
+        encoding: 'utf8',
+      });
+      const error = checkRubySyntax(code);
+      if (error) {
+        errors.push({ ...error, uri: section.resourceUri });
+      }
+    });
+    return errors;
+  }
+
+  /**
+   * Reads the symbols defined in the given list of editor sections.
+   *
+   * Sections are read in the given order, only script sections are read.
+   *
+   * Symbols are parsed again only when the script file is modified.
+   * @param sections List of editor sections
+   * @returns List of script symbols
+   */
+  readSymbols(
+    sections: readonly EditorSectionBase[]
+  ): ControllerScriptSymbols[] {
+    const entries: ControllerScriptSymbols[] = [];
+    sections.forEach((section) => {
+      if (!section.isType(EditorSectionType.Script)) {
+        return;
+      }
+      const filePath = section.resourceUri.fsPath;
+      if (!fs.existsSync(filePath)) {
+        return;
+      }
+      const mtime = fs.statSync(filePath).mtimeMs;
+      let cached = this._symbolsCache.get(filePath);
+      if (!cached || cached[0] !== mtime) {
+        const code = fs.readFileSync(filePath, { encoding: 'utf8' });
+        cached = [mtime, parseRubySymbols(code)];
+        this._symbolsCache.set(filePath, cached);
+      }
+      entries.push({ section: section, symbols: cached[1] });
+    });
+    return entries;
+  }
+
+  /**
+   * Determines all definitions of the method with the given name.
+   *
+   * Definitions are returned in load order, aliases are included since they define a new method.
+   *
+   * For each method, the definition of the last loaded script is marked as active,
+   * definitions of disabled scripts are never active.
+   * @param name Method name
+   * @returns List of method definitions
+   */
+  determineMethodDefinitions(name: string): ControllerMethodDefinition[] {
+    const definitions: ControllerMethodDefinition[] = [];
+    this.readSymbols(this._root.nestedChildren()).forEach((entry) => {
+      flattenRubySymbols(entry.symbols).forEach((symbol) => {
+        if (
+          (symbol.kind === RubySymbolKind.Method ||
+            symbol.kind === RubySymbolKind.Alias) &&
+          symbol.name === name
+        ) {
+          definitions.push({
+            section: entry.section,
+            symbol: symbol,
+            fullName: rubySymbolFullName(symbol),
+            active: false,
+          });
+        }
+      });
+    });
+    // Later definitions overwrite the previous ones
+    const active = new Map<string, ControllerMethodDefinition>();
+    definitions.forEach((definition) => {
+      if (definition.section.isLoaded()) {
+        active.set(definition.fullName, definition);
+      }
+    });
+    active.forEach((definition) => (definition.active = true));
+    return definitions;
+  }
+
   /**
    * Creates a back up of the current load order file at the given URI path.
    *
@@ -1484,16 +2300,50 @@ export class ScriptsController {
    */
   async createLoader(): Promise<number> {
     logger.logInfo('Creating script loader bundle file...');
-    const bundleFilePath = this._config?.determineBundleFilePath();
-    const scriptsFolderPath = this._config?.configScriptsFolder();
+    const bundleFilePath = this._determineBundleFilePath();
+    const scriptsFolderPath = this._determineScriptsFolder();
     const gameOutputFile = this._config?.fromProject(
       this._config?.determineGameLogPath()
     );
+    const gameRecordsFile = this._config?.fromProject(
+      this._config?.determineGameRecordsPath()
+    );
+    const debugEventsFile = this._config?.fromProject(
+      this._config?.determineDebugEventsPath()
+    );
+    const debugCommandsFile = this._config?.fromProject(
+      this._config?.determineDebugCommandsPath()
+    );
+    const reloadsFile = this._config?.fromProject(
+      this._config?.determineGameReloadsPath()
+    );
+    const consoleRequestsFile = this._config?.fromProject(
+      this._config?.determineConsoleRequestsPath('%s')
+    );
+    const consoleResultsFile = this._config?.fromProject(
+      this._config?.determineConsoleResultsPath('%s')
+    );
 
     logger.logInfo(`RPG Maker bundle file path: "${bundleFilePath?.fsPath}"`);
     logger.logInfo(`Scripts folder relative path: "${scriptsFolderPath}"`);
     logger.logInfo(`Game output file: "${gameOutputFile}"`);
-    if (!bundleFilePath || !scriptsFolderPath || !gameOutputFile) {
+    logger.logInfo(`Game log records file: "${gameRecordsFile}"`);
+    logger.logInfo(`Game debugger events file: "${debugEventsFile}"`);
+    logger.logInfo(`Game debugger commands file: "${debugCommandsFile}"`);
+    logger.logInfo(`Game script reloads file: "${reloadsFile}"`);
+    logger.logInfo(`Game console requests file: "${consoleRequestsFile}"`);
+    logger.logInfo(`Game console results file: "${consoleResultsFile}"`);
+    if (
+      !bundleFilePath ||
+      !scriptsFolderPath ||
+      !gameOutputFile ||
+      !gameRecordsFile ||
+      !debugEventsFile ||
+      !debugCommandsFile ||
+      !reloadsFile ||
+      !consoleRequestsFile ||
+      !consoleResultsFile
+    ) {
       throw new Error(
         'Cannot create script loader bundle due to invalid values!'
       );
@@ -1502,24 +2352,7 @@ export class ScriptsController {
     // Checks if the backup is needed
     const oldBundle = this._readBundleFile(bundleFilePath.fsPath);
     if (this._checkValidExtraction(oldBundle)) {
-      const backUpFilePath = this._config?.processBackupFilePath(
-        path.basename(bundleFilePath.fsPath)
-      );
-
-      logger.logInfo(`Resolved backup file: "${backUpFilePath?.fsPath}"`);
-      if (!backUpFilePath) {
-        throw new Error(
-          `It was not possible to create a backup because the path: "${backUpFilePath}" is invalid!`
-        );
-      }
-
-      // Create backup of the bundle file
-      logger.logInfo('Backing up original RPG Maker bundle file...');
-      fileutils.copyFile(bundleFilePath.fsPath, backUpFilePath.fsPath, {
-        recursive: true,
-        overwrite: true,
-      });
-      logger.logInfo('Backup completed!');
+      this._createBundleBackUp(bundleFilePath);
     } else {
       logger.logInfo(`A backup of the RPG Maker bundle file is not necessary!`);
     }
@@ -1535,12 +2368,15 @@ export class ScriptsController {
         scriptName: LOADER_SCRIPT_NAME,
         loadOrderFileName: LOAD_ORDER_FILE_NAME,
         errorFilePath: gameOutputFile,
+        logFilePath: gameRecordsFile,
+        debugEventsFilePath: debugEventsFile,
+        debugCommandsFilePath: debugCommandsFile,
+        reloadsFilePath: reloadsFile,
+        consoleRequestsFilePath: consoleRequestsFile,
+        consoleResultsFilePath: consoleResultsFile,
         skipCharacter: EDITOR_SECTION_SKIPPED_CHARACTER,
       }),
-      {
-        level: zlib.constants.Z_BEST_COMPRESSION,
-        finishFlush: zlib.constants.Z_FINISH,
-      }
+      BUNDLE_COMPRESSION_OPTIONS
     );
 
     // Marshalizes the bundle file contents
@@ -1555,6 +2391,54 @@ export class ScriptsController {
     return ScriptsController.LOADER_BUNDLE_CREATED;
   }
 
+  /**
+   * Asynchronously overwrites the RPG Maker bundle file with all editor sections.
+   *
+   * The script loader is removed so the project can be used again with the RPG Maker built-in editor.
+   *
+   * Disabled editor sections are kept inside the bundle file, marked so RPG Maker does not evaluate them.
+   *
+   * For security reasons, it always creates a backup file of the bundle file inside the given folder.
+   *
+   * **The promise is resolved when the restoration is done with a code number.**
+   *
+   * **If the restoration was impossible it rejects the promise with an error.**
+   * @returns A promise
+   * @throws An error when restoration is not possible
+   */
+  async restoreBundle(): Promise<number> {
+    logger.logInfo('Restoring RPG Maker bundle file...');
+    const bundleFilePath = this._determineBundleFilePath();
+    const sections = this._root.nestedChildren();
+
+    logger.logInfo(`RPG Maker bundle file path: "${bundleFilePath?.fsPath}"`);
+    if (!bundleFilePath) {
+      throw new Error('Cannot restore the bundle file due to invalid values!');
+    }
+
+    // Checks if there is something to restore
+    if (sections.length === 0) {
+      throw new Error(
+        'Cannot restore the bundle file because there are no editor sections!'
+      );
+    }
+
+    // Checks the bundle file to avoid overwriting scripts
+    const oldBundle = this._readBundleFile(bundleFilePath.fsPath);
+    if (this._checkValidExtraction(oldBundle)) {
+      throw new Error(
+        'Cannot restore the bundle file because it still has valid scripts inside of it!'
+      );
+    }
+
+    // Create backup of the bundle file
+    this._createBundleBackUp(bundleFilePath);
+
+    // Overwrite bundle data with all editor sections
+    await this.createBundle(sections, bundleFilePath, { markDisabled: true });
+    return ScriptsController.BUNDLE_RESTORED;
+  }
+
   /**
    * Asynchronously updates the load order file within the scripts folder.
    *
@@ -1604,6 +2488,11 @@ export class ScriptsController {
       // Updates checkbox (loaded) state
       child.setCheckboxState(options?.checkboxState ?? child.isLoaded());
 
+      // Updates RPG Maker section ID (only if valid)
+      if (options?.sectionId !== undefined) {
+        child.setSectionId(options.sectionId);
+      }
+
       // Creates file system entry
       if (options?.overwrite || !fs.existsSync(child.resourceUri.fsPath)) {
         switch (child.type) {
@@ -1660,23 +2549,7 @@ export class ScriptsController {
 
     // Process child deletion if found
     if (child) {
-      // Deletes file system entry if it exists
-      if (fs.existsSync(child.resourceUri.fsPath)) {
-        switch (child.type) {
-          case EditorSectionType.Separator: {
-            // Separators are not real files.
-            break;
-          }
-          case EditorSectionType.Script: {
-            fs.unlinkSync(child.resourceUri.fsPath);
-            break;
-          }
-          case EditorSectionType.Folder: {
-            fs.rmSync(child.resourceUri.fsPath, { recursive: true });
-            break;
-          }
-        }
-      }
+      this._deleteEntry(child);
     }
     return child;
   }
@@ -2175,27 +3048,121 @@ export class ScriptsController {
   }
 
   /**
-   * Restarts this instance based on the current attributes.
+   * Deletes the file system entry of the given editor section if it exists.
+   *
+   * This method does not remove the section from the tree.
+   * @param section Editor section
    */
-  private _restart() {
-    let scriptsFolderPath = this._config?.determineScriptsPath();
-
-    // Checks scripts folder path validness
-    if (!scriptsFolderPath) {
+  private _deleteEntry(section: EditorSectionBase) {
+    // Checks file system entry existence
+    if (!fs.existsSync(section.resourceUri.fsPath)) {
       return;
     }
 
-    // Clears previous editor section root instance
-    this._root.clear();
-    this._root.rename(scriptsFolderPath);
-    this._clipboard = [];
+    // Deletes entry based on type
+    switch (section.type) {
+      case EditorSectionType.Separator: {
+        // Separators are not real files.
+        break;
+      }
+      case EditorSectionType.Script: {
+        fs.unlinkSync(section.resourceUri.fsPath);
+        break;
+      }
+      case EditorSectionType.Folder: {
+        fs.rmSync(section.resourceUri.fsPath, { recursive: true });
+        break;
+      }
+    }
+  }
 
-    // Updates load order file path
-    this._loadOrderFilePath = vscode.Uri.joinPath(
-      scriptsFolderPath,
+  /**
+   * Creates a back up of the given RPG Maker bundle file inside the back ups folder.
+   * @param bundleFilePath Bundle file path
+   * @throws An error if the back up path is invalid
+   */
+  private _createBundleBackUp(bundleFilePath: vscode.Uri) {
+    const backUpFilePath = this._config?.processBackupFilePath(
+      path.basename(bundleFilePath.fsPath)
+    );
+
+    logger.logInfo(`Resolved backup file: "${backUpFilePath?.fsPath}"`);
+    if (!backUpFilePath) {
+      throw new Error(
+        `It was not possible to create a backup because the path: "${backUpFilePath}" is invalid!`
+      );
+    }
+
+    // Create backup of the bundle file
+    logger.logInfo('Backing up original RPG Maker bundle file...');
+    fileutils.copyFile(bundleFilePath.fsPath, backUpFilePath.fsPath, {
+      recursive: true,
+      overwrite: true,
+    });
+    logger.logInfo('Backup completed!');
+  }
+
+  /**
+   * Determines the path to the bundle file handled by this instance.
+   * @returns Bundle file uri path
+   */
+  private _determineBundleFilePath() {
+    return this._bundle
+      ? this._bundle.bundleFilePath
+      : this._config?.determineBundleFilePath();
+  }
+
+  /**
+   * Determines the path to the scripts folder handled by this instance.
+   * @returns Scripts folder uri path
+   */
+  private _determineScriptsPath() {
+    return this._bundle
+      ? this._bundle.scriptsPath
+      : this._config?.determineScriptsPath();
+  }
+
+  /**
+   * Determines the scripts folder path relative to the project folder.
+   *
+   * The path uses forward slashes so the script loader can use it.
+   * @returns Scripts folder relative path
+   */
+  private _determineScriptsFolder() {
+    return this._bundle
+      ? this._config?.fromProject(this._bundle.scriptsPath)?.replace(/\\/g, '/')
+      : this._config?.configScriptsFolder();
+  }
+
+  /**
+   * Restarts this instance based on the current attributes.
+   */
+  private _restart() {
+    let scriptsFolderPath = this._determineScriptsPath();
+
+    // Checks scripts folder path validness
+    if (!scriptsFolderPath) {
+      return;
+    }
+
+    // Clears previous editor section root instance
+    this._root.clear();
+    this._root.rename(scriptsFolderPath);
+    this._root.setDescription(this.bundleName);
+    this._clipboard = [];
+
+    // Updates load order file path
+    this._loadOrderFilePath = vscode.Uri.joinPath(
+      scriptsFolderPath,
       LOAD_ORDER_FILE_NAME
     );
 
+    // Updates section IDs file path
+    this._sectionIdsFilePath = vscode.Uri.joinPath(
+      scriptsFolderPath,
+      SECTION_IDS_FILE_NAME
+    );
+
     // Create scripts folder path if it does not exists
     fileutils.createFolder(scriptsFolderPath.fsPath, { recursive: true });
 
@@ -2277,6 +3244,9 @@ export class ScriptsController {
       return false;
     }
 
+    // Gets the original section IDs
+    let sectionIds = this._readSectionIds();
+
     // Gets all entries from the load order
     let lines = fs
       .readFileSync(this._loadOrderFilePath.fsPath, {
@@ -2314,14 +3284,20 @@ export class ScriptsController {
         continue;
       }
 
+      // Gets the original section ID (if any)
+      let sectionId = sectionIds.get(sectionName)?.shift();
+
       // Child creation
       switch (sectionType) {
         case EditorSectionType.Separator: {
-          this.sectionCreate({
-            parent: this._root,
-            type: sectionType,
-            uri: sectionPath,
-          });
+          this.sectionCreate(
+            {
+              parent: this._root,
+              type: sectionType,
+              uri: sectionPath,
+            },
+            { sectionId: sectionId }
+          );
           break;
         }
 
@@ -2340,7 +3316,7 @@ export class ScriptsController {
               type: sectionType,
               uri: sectionPath,
             },
-            { checkboxState: sectionEnabled }
+            { checkboxState: sectionEnabled, sectionId: sectionId }
           );
           break;
         }
@@ -2368,11 +3344,19 @@ export class ScriptsController {
     let fd = fs.openSync(this._loadOrderFilePath.fsPath, 'w');
     let eol = this._config?.determineFileEOL() || '\n';
 
+    // Section IDs records
+    let records: SectionIdRecord[] = [];
+
     // Write all of the given sections
     for (const section of sections || []) {
       // Gets relative entry
       let entry = this._root.relative(section.resourceUri);
 
+      // Remembers the original section ID
+      if (section.sectionId !== undefined) {
+        records.push({ path: entry, id: section.sectionId });
+      }
+
       // Adds checkbox status
       entry = section.isLoaded()
         ? entry
@@ -2384,6 +3368,73 @@ export class ScriptsController {
 
     // Close file
     fs.closeSync(fd);
+
+    // Saves the section IDs along with the load order
+    this._saveSectionIds(records);
+    return true;
+  }
+
+  /**
+   * Reads the section IDs file.
+   *
+   * Sections with the same path (separators) are stored in the same order as the load order.
+   *
+   * If the section IDs file does not exists or it is invalid, it returns an empty map.
+   * @returns Map of section IDs by relative path.
+   */
+  private _readSectionIds() {
+    let sectionIds = new Map<string, number[]>();
+
+    // Checks for section IDs file existence
+    if (
+      !this._sectionIdsFilePath ||
+      !fs.existsSync(this._sectionIdsFilePath.fsPath)
+    ) {
+      return sectionIds;
+    }
+
+    try {
+      let records = JSON.parse(
+        fs.readFileSync(this._sectionIdsFilePath.fsPath, {
+          flag: 'r',
+          encoding: 'utf8',
+        })
+      ) as SectionIdRecord[];
+
+      for (const record of records) {
+        // Skips invalid records
+        if (typeof record.path !== 'string' || typeof record.id !== 'number') {
+          continue;
+        }
+        let ids = sectionIds.get(record.path) || [];
+        ids.push(record.id);
+        sectionIds.set(record.path, ids);
+      }
+    } catch (error) {
+      logger.logError(
+        `Failed to read section IDs file: "${this._sectionIdsFilePath.fsPath}"`
+      );
+      logger.logErrorUnknown(error);
+    }
+    return sectionIds;
+  }
+
+  /**
+   * Saves all given records into the section IDs file, overwriting it.
+   * @param records List of section IDs records.
+   * @returns Whether the save operation was successful or not.
+   */
+  private _saveSectionIds(records: SectionIdRecord[]): boolean {
+    // Checks if the path to the section IDs file is valid
+    if (!this._sectionIdsFilePath) {
+      return false;
+    }
+
+    fs.writeFileSync(
+      this._sectionIdsFilePath.fsPath,
+      JSON.stringify(records, null, 2),
+      { encoding: 'utf8', flag: 'w' }
+    );
     return true;
   }
 
@@ -2419,6 +3470,73 @@ export class ScriptsController {
     });
   }
 
+  /**
+   * Builds the RPG Maker bundle file contents with the given list of editor sections.
+   *
+   * The contents are the same as long as the sections, their contents and the options are the same.
+   * @param sections List of editor sections
+   * @param options Bundle options
+   * @returns The bundle file contents (marshalized)
+   */
+  private _buildBundle(
+    sections: readonly EditorSectionBase[],
+    options?: ControllerBundleOptions
+  ) {
+    // Prepares RPG Maker bundle
+    let usedIds: number[] = [];
+    let bundle: any[][] = [];
+
+    // Reserves the original section IDs so they are never given to new sections
+    const sectionIds = sections.map((section) => {
+      const id = section.sectionId;
+      if (
+        options?.deterministic ||
+        id === undefined ||
+        usedIds.includes(id) ||
+        this._isExtensionLoader(id)
+      ) {
+        return undefined;
+      }
+      usedIds.push(id);
+      return id;
+    });
+
+    // Creation loop
+    sections.forEach((section, index) => {
+      // Determines RPG Maker script section name
+      let name = this._root.relative(section.resourceUri);
+
+      // Reuses the original ID or generates a new one for new sections
+      let id = sectionIds[index] ?? this._generateScriptId(name, usedIds);
+
+      // Formats the code based on the editor section
+      let code = section.isType(EditorSectionType.Script)
+        ? fs.readFileSync(section.resourceUri.fsPath, { encoding: 'utf8' })
+        : section.isType(EditorSectionType.Folder)
+        ? EDITOR_SECTION_FOLDER_CONTENTS
+        : '';
+
+      // Marks the section as disabled so RPG Maker skips it
+      if (options?.markDisabled && !section.isLoaded()) {
+        code = EDITOR_SECTION_DISABLED_HEADER.concat(code);
+      }
+
+      // Creates a new bundle section
+      bundle[index] = [];
+      bundle[index][0] = id;
+      bundle[index][1] = name;
+      bundle[index][2] = zlib.deflateSync(code, BUNDLE_COMPRESSION_OPTIONS);
+
+      // Remembers the recently-used unique ID
+      usedIds.push(id);
+    });
+
+    // Marshalizes the bundle file contents
+    return marshal.dump(bundle, {
+      hashStringKeysToSymbol: true,
+    });
+  }
+
   /**
    * Reads the RPG Maker bundle file from the given path and marshalizes it.
    *
@@ -2430,10 +3548,21 @@ export class ScriptsController {
    * @throws An error if ``bundleFile`` cannot be read/processed.
    */
   private _readBundleFile(bundleFile: string): any[][] {
-    let output: any[][] = [];
-
     // Read binary data (may throw an error)
     let bundleContents = fs.readFileSync(bundleFile);
+    return this._decodeBundle(bundleContents);
+  }
+
+  /**
+   * Decodes the given RPG Maker bundle contents.
+   *
+   * It returns the bundle data converted.
+   * @param bundleContents Bundle contents (marshalized)
+   * @returns The bundle data
+   * @throws An error if ``bundleContents`` cannot be processed.
+   */
+  private _decodeBundle(bundleContents: Uint8Array): any[][] {
+    let output: any[][] = [];
 
     // Marshalizes the bundle file contents
     let bundleMarshalized = marshal.load(bundleContents, {
@@ -2449,6 +3578,106 @@ export class ScriptsController {
     return output;
   }
 
+  /**
+   * Converts the given bundle data into a list of bundle sections.
+   *
+   * The location of each section can be given in the same position as the section.
+   *
+   * This extension loader script is ignored.
+   * @param bundle Bundle data
+   * @param uris List of sections locations
+   * @returns List of bundle sections
+   */
+  private _toBundleSections(
+    bundle: any[][],
+    uris?: (vscode.Uri | undefined)[]
+  ): BundleSection[] {
+    return bundle
+      .map((entry, index) => {
+        return {
+          id: entry[0],
+          name: entry[1],
+          code: entry[2],
+          uri: uris?.[index],
+        };
+      })
+      .filter((section) => !this._isExtensionLoader(section.id));
+  }
+
+  /**
+   * Converts the given bundle data into a list of extraction entries.
+   *
+   * Entries are returned in the position of their section in the bundle data,
+   * separators and this extension loader script are ``undefined``.
+   * @param bundle Bundle data
+   * @returns List of bundle entries
+   */
+  private _toBundleEntries(bundle: any[][]) {
+    const entries: (ControllerBundleEntry | undefined)[] = [];
+    const exists = (entryPath: string) =>
+      entries.some((entry) => entry?.path === entryPath);
+    for (const [id, name, code] of bundle) {
+      // Ignores this extension loader script
+      if (this._isExtensionLoader(id)) {
+        entries.push(undefined);
+        continue;
+      }
+
+      // Determines section's base info
+      const baseName = this._processScriptPath(name);
+      const baseCode = this._processScriptCode(code);
+      const sectionType = this.determineSectionType(baseName, baseCode.code);
+      if (
+        sectionType !== EditorSectionType.Script &&
+        sectionType !== EditorSectionType.Folder
+      ) {
+        entries.push(undefined);
+        continue;
+      }
+
+      // Determines the entry path
+      const info = path.parse(baseName);
+      const dir = info.dir.split(SEPARATORS).filter((token) => token);
+      let entryPath: string;
+      if (sectionType === EditorSectionType.Folder) {
+        entryPath = path.posix.join(...dir, info.name || 'Untitled Folder');
+        if (exists(entryPath)) {
+          entries.push(undefined);
+          continue;
+        }
+      } else {
+        const script = info.name || 'Untitled Script';
+        entryPath = path.posix.join(...dir, script.concat('.rb'));
+        let index = 1;
+        while (exists(entryPath)) {
+          entryPath = path.posix.join(
+            ...dir,
+            `${script} (${index})`.concat('.rb')
+          );
+          index++;
+        }
+      }
+      entries.push({
+        type: sectionType,
+        path: entryPath,
+        code: sectionType === EditorSectionType.Script ? baseCode.code : '',
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Creates the bundle file system URI of the given bundle entry.
+   * @param bundleFile Bundle file path
+   * @param entryPath Entry path relative to the bundle file
+   * @returns Bundle file system URI
+   */
+  private _bundleEntryUri(bundleFile: vscode.Uri, entryPath: string) {
+    return vscode.Uri.joinPath(bundleFile, entryPath).with({
+      scheme: BUNDLE_FILE_SCHEME,
+    });
+  }
+
   /**
    * Gets the code of the script loader script.
    *
@@ -2460,7 +3689,7 @@ export class ScriptsController {
     return `#==============================================================================
 # ** ${config.scriptName}
 #------------------------------------------------------------------------------
-# Version: 1.5.1
+# Version: 1.7.0
 # Author: SnowSzn
 # Github: https://github.com/SnowSzn/
 # VSCode extension: https://github.com/SnowSzn/rgss-script-editor
@@ -2518,6 +3747,48 @@ module ScriptLoaderConfiguration
   # The extension uses this file to get information about the exception
   # 
   ERROR_FILE_PATH = '${config.errorFilePath}'
+
+  #
+  # Path to the log file where log records are written
+  #
+  # The extension shows these records while the game is running
+  #
+  LOG_FILE_PATH = '${config.logFilePath}'
+
+  #
+  # Path to the file where the debugger events are written
+  #
+  # The extension reads this file while the game is being debugged
+  #
+  DEBUG_EVENTS_FILE_PATH = '${config.debugEventsFilePath}'
+
+  #
+  # Path to the file where the debugger commands are written
+  #
+  # The extension writes this file while the game is being debugged
+  #
+  DEBUG_COMMANDS_FILE_PATH = '${config.debugCommandsFilePath}'
+
+  #
+  # Path to the file where the scripts to reload are written
+  #
+  # The extension writes this file while the game is running
+  #
+  RELOADS_FILE_PATH = '${config.reloadsFilePath}'
+
+  #
+  # Path to the file where the console requests are written
+  #
+  # The extension writes this file, %s is replaced with the console ID
+  #
+  CONSOLE_REQUESTS_FILE_PATH = '${config.consoleRequestsFilePath}'
+
+  #
+  # Path to the file where the console results are written
+  #
+  # The extension reads this file, %s is replaced with the console ID
+  #
+  CONSOLE_RESULTS_FILE_PATH = '${config.consoleResultsFilePath}'
 end
 
 ###############################################################################
@@ -2560,6 +3831,10 @@ module ScriptLoader
   # Loader run logic
   #
   def self.run
+    reset_log_file
+    ScriptDebugger.start if ScriptDebugger.enabled?
+    ScriptReloader.start if ScriptReloader.enabled?
+    ScriptConsole.start if ScriptConsole.enabled?
     begin
       ensure_file_descriptor_validness
       log("Running script loader...")
@@ -2568,6 +3843,7 @@ module ScriptLoader
 
       log("Scripts folder path is: '#{SCRIPTS_PATH}'")
       log("Game error log file path is: '#{ERROR_FILE_PATH}'")
+      log("Game log records file path is: '#{LOG_FILE_PATH}'")
       log("Load order file path is: '#{load_order_path}'")
 
       log("Reading load order file...")
@@ -2580,6 +3856,8 @@ module ScriptLoader
       log("Restarting script loader...")
       retry
     rescue => e
+      # Logs the exception where it was raised
+      log("#{e.class.name}: #{e.message}", :error, (e.backtrace || [])[0])
       # Creates the error log file directory
       create_dir(File.dirname(ERROR_FILE_PATH))
       # Notifies VSCode extension of the error
@@ -2765,34 +4043,661 @@ module ScriptLoader
   #
   # Logs the message.
   #
-  # Logging is deactivated in RGSS1 and RGSS2 to avoid message box spam.
+  # The message is also appended as a record to the log file, so the VSCode
+  # extension can show it. Game scripts can use this method too, for example:
+  #   ScriptLoader.log("Player spawned", :debug)
+  #
+  # Printing is deactivated in RGSS1 and RGSS2 to avoid message box spam.
   #
   # @param message [String] Message.
+  # @param level [Symbol] Level (:debug, :info, :warning or :error).
+  # @param location [String] Location (file:line), the caller by default.
   #
-  def self.log(message)
+  def self.log(message, level = :info, location = nil)
     print "[RGSS Script Editor Loader] #{message}\\n" if rgss3?
+    write_record(level, message, location || caller(1)[0])
+  end
+
+  #
+  # Appends a log record to the log file.
+  #
+  # Fields are separated by tabs: level, script, line and message.
+  #
+  # Logging must never crash the game, so all errors are ignored.
+  #
+  # @param level [Symbol] Level.
+  # @param message [String] Message.
+  # @param location [String] Location (file:line).
+  #
+  def self.write_record(level, message, location)
+    match = location.to_s.match(/^(.*?):(\\d+)/)
+    script = match ? match[1] : ''
+    line = match ? match[2] : ''
+    text = message.to_s.gsub("\\\\") { "\\\\\\\\" }
+    text = text.gsub("\\t") { "\\\\t" }.gsub("\\n") { "\\\\n" }
+    File.open(LOG_FILE_PATH, 'a') do |file|
+      file.write("#{level}\\t#{script}\\t#{line}\\t#{text}\\n")
+    end
+  rescue
+    nil
+  end
+
+  #
+  # Creates an empty log file for the current game session.
+  #
+  def self.reset_log_file
+    create_dir(File.dirname(LOG_FILE_PATH))
+    File.open(LOG_FILE_PATH, 'w') { |file| }
+  rescue
+    nil
   end
 end
 
+${this._scriptDebuggerCode()}
+${this._scriptReloaderCode()}
+${this._scriptConsoleCode()}
 # Start loader processing
 ScriptLoader.run
 `;
   }
 
   /**
-   * Generates a random number to be used as a script section ID for RPG Maker.
+   * Gets the code of the script debugger.
+   *
+   * The debug agent is included in the script loader script, it is only enabled
+   * when the game is launched by the extension debugger.
+   * @returns Debugger script code
+   */
+  private _scriptDebuggerCode(): string {
+    return `#
+# Script debugger
+#
+# Debug agent used by the VSCode extension to debug the game scripts.
+#
+# It is only enabled when the game is launched by the VSCode extension debugger.
+#
+# The agent communicates with the extension using two files:
+#   - Events file: The agent appends events (stops, variables...)
+#   - Commands file: The extension appends commands (breakpoints, steps...)
+#
+# Each line is an event or command with its fields separated by tabs.
+#
+module ScriptDebugger
+  include ScriptLoaderConfiguration
+
+  # Environment variable set by the VSCode extension to enable the debugger
+  DEBUG_ENV = 'RGSS_SCRIPT_EDITOR_DEBUG'
+
+  # Number of line events between each check of new commands
+  COMMANDS_CHECK_RATE = 1000
+
+  # Maximum length of the values shown in the VSCode extension
+  VALUE_MAX_LENGTH = 1000
+
+  #
+  # Checks if the debugger is enabled.
+  #
+  # @return [Boolean] Debugger enabled.
+  #
+  def self.enabled?
+    ENV[DEBUG_ENV] == '1'
+  end
+
+  #
+  # Starts the debugger.
+  #
+  # Commands sent before the game started (breakpoints) are processed.
+  #
+  def self.start
+    return if @started
+    @started = true
+    @breakpoints = {}
+    @paths = {}
+    @frames = []
+    @mode = :continue
+    @step_depth = 0
+    @events = 0
+    @commands_offset = 0
+    @pwd = Dir.pwd.gsub("\\\\", '/').downcase + '/'
+    process_commands
+    write_event('ready')
+    set_trace_func(proc { |event, file, line, id, binding, klass|
+      trace(event, file, line, id, binding)
+    })
+  end
+
+  #
+  # Stops the debugger.
+  #
+  def self.stop
+    set_trace_func(nil)
+    @mode = :continue
+    @breakpoints = {}
+  end
+
+  #
+  # Trace function callback.
+  #
+  # The stack of frames is tracked using the call and return events.
+  #
+  # @param event [String] Event name.
+  # @param file [String] File.
+  # @param line [Integer] Line.
+  # @param id [Symbol] Method name.
+  # @param binding [Binding] Binding.
+  #
+  def self.trace(event, file, line, id, binding)
+    case event
+    when 'call', 'class'
+      @frames.push([file, line, id, binding])
+    when 'return', 'end'
+      @frames.pop
+    when 'line'
+      @frames.push([file, line, id, binding]) if @frames.empty?
+      frame = @frames.last
+      frame[0] = file
+      frame[1] = line
+      frame[3] = binding
+      check_stop(file, line)
+    end
+  rescue
+    nil
+  end
+
+  #
+  # Checks if the game must be stopped at the given location.
+  #
+  # @param file [String] File.
+  # @param line [Integer] Line.
+  #
+  def self.check_stop(file, line)
+    reason = nil
+    case @mode
+    when :step_in
+      reason = 'step'
+    when :step_over
+      reason = 'step' if @frames.size <= @step_depth
+    when :step_out
+      reason = 'step' if @frames.size < @step_depth
+    when :pause
+      reason = 'pause'
+    end
+    if reason.nil? && !@breakpoints.empty?
+      lines = @breakpoints[relative_path(file).downcase]
+      reason = 'breakpoint' if lines && lines.include?(line)
+    end
+    if reason.nil?
+      @events += 1
+      if @events >= COMMANDS_CHECK_RATE
+        @events = 0
+        process_commands
+        reason = 'pause' if @mode == :pause
+      end
+    end
+    pause(reason) if reason
+  end
+
+  #
+  # Pauses the game until the VSCode extension resumes it.
+  #
+  # The screen is updated to avoid the game being considered hung.
+  #
+  # @param reason [String] Stop reason.
+  #
+  def self.pause(reason)
+    @mode = :paused
+    fields = []
+    @frames.reverse.each do |frame|
+      fields.push(relative_path(frame[0]), frame[1], frame[2] || '<main>')
+    end
+    write_event('stopped', reason, *fields)
+    while @mode == :paused
+      Graphics.update rescue sleep(0.05)
+      process_commands
+    end
+  end
+
+  #
+  # Reads and processes all new commands of the commands file.
+  #
+  def self.process_commands
+    return unless File.exist?(DEBUG_COMMANDS_FILE_PATH)
+    size = File.size(DEBUG_COMMANDS_FILE_PATH)
+    @commands_offset = 0 if size < @commands_offset
+    return if size == @commands_offset
+    contents = File.open(DEBUG_COMMANDS_FILE_PATH, 'rb') do |file|
+      file.seek(@commands_offset)
+      file.read(size - @commands_offset)
+    end
+    last = contents.rindex("\\n")
+    return unless last
+    @commands_offset += last + 1
+    contents[0, last].split("\\n").each do |command|
+      fields = command.chomp.split("\\t", -1).map { |field| unescape(field) }
+      process_command(*fields)
+    end
+  rescue
+    nil
+  end
+
+  #
+  # Processes the given command.
+  #
+  # @param name [String] Command name.
+  # @param args [Array<String>] Command arguments.
+  #
+  def self.process_command(name, *args)
+    case name
+    when 'breakpoints'
+      lines = args[1].to_s.split(',').map { |line| line.to_i }
+      @breakpoints.delete(args[0].to_s.downcase)
+      @breakpoints[args[0].to_s.downcase] = lines unless lines.empty?
+    when 'continue'
+      @mode = :continue
+    when 'next'
+      @mode = :step_over
+      @step_depth = @frames.size
+    when 'stepIn'
+      @mode = :step_in
+    when 'stepOut'
+      @mode = :step_out
+      @step_depth = @frames.size
+    when 'pause'
+      @mode = :pause unless @mode == :paused
+    when 'variables'
+      write_event('variables', args[0], *variables(args[1].to_i))
+    when 'evaluate'
+      write_event('evaluate', args[0], *evaluate(args[1].to_i, args[2].to_s))
+    when 'disconnect'
+      stop
+    end
+  end
+
+  #
+  # Gets the local variables of the given frame.
+  #
+  # @param index [Integer] Frame index (0 is the top frame).
+  #
+  # @return [Array<String>] Variables names and values.
+  #
+  def self.variables(index)
+    binding = frame_binding(index)
+    return [] unless binding
+    fields = ['self', inspect_value(eval('self', binding))]
+    eval('local_variables', binding).each do |name|
+      fields.push(name.to_s, inspect_value(eval(name.to_s, binding)))
+    end
+    return fields
+  end
+
+  #
+  # Evaluates the given expression in the given frame.
+  #
+  # @param index [Integer] Frame index (0 is the top frame).
+  # @param expression [String] Expression.
+  #
+  # @return [Array<String>] Result and whether it failed ('1') or not ('0').
+  #
+  def self.evaluate(index, expression)
+    binding = frame_binding(index) || TOPLEVEL_BINDING
+    return [inspect_value(eval(expression, binding)), '0']
+  rescue Exception => e
+    return ["#{e.class.name}: #{e.message}", '1']
+  end
+
+  #
+  # Gets the binding of the given frame.
+  #
+  # @param index [Integer] Frame index (0 is the top frame).
+  #
+  # @return [Binding, nil] Frame binding.
+  #
+  def self.frame_binding(index)
+    frame = @frames[@frames.size - 1 - index]
+    return frame ? frame[3] : nil
+  end
+
+  #
+  # Inspects the given value.
+  #
+  # @param value [Object] Value.
+  #
+  # @return [String] Value inspected.
+  #
+  def self.inspect_value(value)
+    text = value.inspect
+    return text.size > VALUE_MAX_LENGTH ? text[0, VALUE_MAX_LENGTH] + '...' : text
+  rescue Exception => e
+    return "#<#{e.class.name}>"
+  end
+
+  #
+  # Gets the given file path relative to the game folder.
+  #
+  # @param file [String] File path.
+  #
+  # @return [String] Relative path.
+  #
+  def self.relative_path(file)
+    path = @paths[file]
+    return path if path
+    path = file.to_s.gsub("\\\\", '/')
+    path = path[@pwd.size..-1] if path.downcase.index(@pwd) == 0
+    @paths[file] = path
+  end
+
+  #
+  # Appends an event to the events file.
+  #
+  # @param fields [Array<Object>] Event fields.
+  #
+  def self.write_event(*fields)
+    File.open(DEBUG_EVENTS_FILE_PATH, 'a') do |file|
+      file.write(fields.map { |field| escape(field) }.join("\\t") + "\\n")
+    end
+  rescue
+    nil
+  end
+
+  #
+  # Escapes the given field so it can be written in a single line.
+  #
+  # @param field [Object] Field.
+  #
+  # @return [String] Escaped field.
+  #
+  def self.escape(field)
+    text = field.to_s.gsub("\\\\") { "\\\\\\\\" }
+    text.gsub("\\t") { "\\\\t" }.gsub("\\n") { "\\\\n" }
+  end
+
+  #
+  # Unescapes the given field.
+  #
+  # @param field [String] Field.
+  #
+  # @return [String] Unescaped field.
+  #
+  def self.unescape(field)
+    field.gsub(/\\\\(.)/) { $1 == 't' ? "\\t" : $1 == 'n' ? "\\n" : $1 }
+  end
+end
+`;
+  }
+
+  /**
+   * Gets the code of the script reloader.
+   *
+   * The reloader is included in the script loader script, it is only enabled
+   * when the game is launched by the extension.
+   * @returns Reloader script code
+   */
+  private _scriptReloaderCode(): string {
+    return `#
+# Script reloader
+#
+# Reloads script files while the game is running.
+#
+# It is only enabled when the game is launched by the VSCode extension.
+#
+# The extension appends the path of each script to reload to the reload file,
+# the file is checked every few frames and each script is evaluated again.
+#
+module ScriptReloader
+  include ScriptLoaderConfiguration
+
+  # Environment variable set by the VSCode extension to enable the reloader
+  RELOAD_ENV = 'RGSS_SCRIPT_EDITOR_RELOAD'
+
+  # Number of frames between each check of the reload file
+  CHECK_RATE = 30
+
+  #
+  # Checks if the reloader is enabled.
+  #
+  # @return [Boolean] Reloader enabled.
+  #
+  def self.enabled?
+    ENV[RELOAD_ENV] == '1'
+  end
+
+  #
+  # Starts the reloader.
+  #
+  # The screen update method is extended to check the reload file.
+  #
+  def self.start
+    return if @started
+    @started = true
+    @frames = 0
+    @offset = 0
+    ScriptLoader.create_dir(File.dirname(RELOADS_FILE_PATH))
+    File.open(RELOADS_FILE_PATH, 'w') { |file| }
+    class << Graphics
+      alias_method(:script_reloader_update, :update)
+      def update
+        script_reloader_update
+        ScriptReloader.update
+      end
+    end
+  rescue
+    nil
+  end
+
+  #
+  # Checks the reload file every few frames.
+  #
+  def self.update
+    @frames += 1
+    return if @frames < CHECK_RATE
+    @frames = 0
+    size = File.size(RELOADS_FILE_PATH)
+    @offset = 0 if size < @offset
+    return if size == @offset
+    contents = File.open(RELOADS_FILE_PATH, 'rb') do |file|
+      file.seek(@offset)
+      file.read(size - @offset)
+    end
+    last = contents.rindex("\\n")
+    return unless last
+    @offset += last + 1
+    contents[0, last].split("\\n").each do |path|
+      reload_script(path.chomp)
+    end
+  rescue
+    nil
+  end
+
+  #
+  # Evaluates the given script again.
+  #
+  # Errors raised while evaluating the script are logged so the game does not crash.
+  #
+  # The extension does not reload scripts that alias methods, evaluating an
+  # alias again saves the new method, so the method would call itself forever.
+  #
+  # @param path [String] Script path (relative to the game folder).
+  #
+  def self.reload_script(path)
+    script_file = File.expand_path(path)
+    Kernel.eval(File.read(script_file), TOPLEVEL_BINDING, script_file)
+    ScriptLoader.log("Reloaded script: '#{path}'")
+  rescue Exception => e
+    ScriptLoader.log("#{e.class.name}: #{e.message}", :error, (e.backtrace || [])[0])
+  end
+end
+`;
+  }
+
+  /**
+   * Gets the code of the script console.
+   *
+   * The console is included in the script loader script, it is only enabled
+   * when the game is launched by the extension.
+   * @returns Console script code
+   */
+  private _scriptConsoleCode(): string {
+    return `#
+# Script console
+#
+# Evaluates the Ruby code sent by the VSCode extension console in the running game.
+#
+# It is only enabled when the game is launched by the VSCode extension.
+#
+# The console communicates with the extension using two files:
+#   - Requests file: The extension appends the code to evaluate
+#   - Results file: The console appends the result of each evaluation
+#
+# Each line is a request or result with its fields separated by tabs, they are
+# escaped the same way as the debugger events and commands.
+#
+module ScriptConsole
+  include ScriptLoaderConfiguration
+
+  # Environment variable set by the VSCode extension with the console ID
+  CONSOLE_ENV = 'RGSS_SCRIPT_EDITOR_CONSOLE'
+
+  # Number of frames between each check of the requests file
+  CHECK_RATE = 10
+
+  #
+  # Console output class.
+  #
+  # Captures the text written to the standard output while evaluating code.
+  #
+  class Output
+    attr_reader :text
+
+    def initialize
+      @text = ''
+    end
+
+    def write(*args)
+      args.each { |arg| @text << arg.to_s }
+      args.inject(0) { |size, arg| size + arg.to_s.size }
+    end
+
+    def flush
+      self
+    end
+  end
+
+  #
+  # Checks if the console is enabled.
+  #
+  # @return [Boolean] Console enabled.
+  #
+  def self.enabled?
+    !ENV[CONSOLE_ENV].to_s.empty?
+  end
+
+  #
+  # Starts the console.
+  #
+  # The screen update method is extended to check the requests file.
+  #
+  def self.start
+    return if @started
+    @started = true
+    @frames = 0
+    @offset = 0
+    @requests_path = sprintf(CONSOLE_REQUESTS_FILE_PATH, ENV[CONSOLE_ENV])
+    @results_path = sprintf(CONSOLE_RESULTS_FILE_PATH, ENV[CONSOLE_ENV])
+    class << Graphics
+      alias_method(:script_console_update, :update)
+      def update
+        script_console_update
+        ScriptConsole.update
+      end
+    end
+  rescue
+    nil
+  end
+
+  #
+  # Checks the requests file every few frames.
+  #
+  # The file is read from the beginning if the extension opens a new console.
+  #
+  def self.update
+    @frames += 1
+    return if @frames < CHECK_RATE
+    @frames = 0
+    return unless File.exist?(@requests_path)
+    size = File.size(@requests_path)
+    @offset = 0 if size < @offset
+    return if size == @offset
+    contents = File.open(@requests_path, 'rb') do |file|
+      file.seek(@offset)
+      file.read(size - @offset)
+    end
+    last = contents.rindex("\\n")
+    return unless last
+    @offset += last + 1
+    contents[0, last].split("\\n").each do |request|
+      fields = request.chomp.split("\\t", -1)
+      fields = fields.map { |field| ScriptDebugger.unescape(field) }
+      write_result(fields[0], *evaluate(fields[1].to_s))
+    end
+  rescue
+    nil
+  end
+
+  #
+  # Evaluates the given code in the top level binding.
+  #
+  # @param code [String] Code.
+  #
+  # @return [Array<String>] Output, result and whether it failed ('1') or not ('0').
+  #
+  def self.evaluate(code)
+    output = Output.new
+    stdout = $stdout
+    begin
+      $stdout = output
+      result = eval(code, TOPLEVEL_BINDING, '(console)')
+      return [output.text, result.inspect, '0']
+    rescue Exception => e
+      return [output.text, "#{e.class.name}: #{e.message}", '1']
+    ensure
+      $stdout = stdout
+    end
+  end
+
+  #
+  # Appends a result to the results file.
+  #
+  # @param fields [Array<Object>] Result fields.
+  #
+  def self.write_result(*fields)
+    line = fields.map { |field| ScriptDebugger.escape(field) }.join("\\t")
+    File.open(@results_path, 'a') { |file| file.write(line + "\\n") }
+  rescue
+    nil
+  end
+end
+`;
+  }
+
+  /**
+   * Generates a number to be used as a script section ID for RPG Maker.
+   *
+   * The ID is derived from the given section name, so the same name always generates the same ID.
    *
    * This method makes sure to always generate a number below {@link RPG_MAKER_SECTION_MAX_VAL} value.
    *
    * The generated ID won't be any of the given list of sections IDs.
+   * @param name Section name
    * @param usedIds List of sections IDs
    * @returns A valid section
    */
-  private _generateScriptId(usedIds: number[]): number {
-    let section = 0;
-    do {
-      section = Math.floor(Math.random() * RPG_MAKER_SECTION_MAX_VAL);
-    } while (usedIds.includes(section));
+  private _generateScriptId(name: string, usedIds: number[]): number {
+    let section =
+      crypto.createHash('sha256').update(name).digest().readUInt32BE(0) %
+      RPG_MAKER_SECTION_MAX_VAL;
+    while (usedIds.includes(section)) {
+      section = (section + 1) % RPG_MAKER_SECTION_MAX_VAL;
+    }
     return section;
   }
 
@@ -2815,6 +4720,22 @@ ScriptLoader.run
     return script;
   }
 
+  /**
+   * Process the section code extracted from a RPG Maker bundle file.
+   *
+   * If the section was marked as disabled, the disabled header is removed from the code.
+   * @param sectionCode Section code
+   * @returns The processed code and its load status
+   */
+  private _processScriptCode(sectionCode: string) {
+    const code = sectionCode.trim();
+    const match = code.match(EDITOR_SECTION_DISABLED_REGEXP);
+    return {
+      code: match ? code.slice(match[0].length).trim() : code,
+      loaded: !match,
+    };
+  }
+
   /**
    * Process the section path to remove invalid characters.
    *
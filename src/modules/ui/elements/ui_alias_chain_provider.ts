@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as strings from '../../utils/strings';
+import {
+  AliasChain,
+  AliasChainConflict,
+  AliasChainStep,
+} from '../../processes/alias_chains';
+import { RubySymbolKind } from '../../processes/ruby_syntax';
+
+/**
+ * Alias chains reader type.
+ *
+ * Reads the alias chains of the enabled scripts.
+ */
+export type AliasChainsReader = () => AliasChain[];
+
+/**
+ * Alias chain tree item class.
+ *
+ * Items are created with all of their children since chains are read-only.
+ */
+export class AliasChainItem extends vscode.TreeItem {
+  /**
+   * Children items.
+   */
+  readonly children: AliasChainItem[];
+
+  /**
+   * Constructor.
+   * @param label Item label.
+   * @param children Children items.
+   */
+  constructor(label: string, children: AliasChainItem[] = []) {
+    super(
+      label,
+      children.length === 0
+        ? vscode.TreeItemCollapsibleState.None
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.children = children;
+  }
+}
+
+/**
+ * A data provider that provides the alias chains tree data.
+ *
+ * Each aliased method lists its definitions and aliases in load order.
+ *
+ * Chains are read again every time the provider is refreshed.
+ */
+export class AliasChainProvider
+  implements vscode.TreeDataProvider<AliasChainItem>
+{
+  /**
+   * Alias chains reader.
+   */
+  private _reader: AliasChainsReader;
+
+  /**
+   * On did change tree data event emitter.
+   */
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    AliasChainItem | undefined | null | void
+  > = new vscode.EventEmitter<AliasChainItem | undefined | null | void>();
+
+  /**
+   * On did change tree data event.
+   */
+  readonly onDidChangeTreeData: vscode.Event<
+    AliasChainItem | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  /**
+   * Constructor.
+   * @param reader Alias chains reader.
+   */
+  constructor(reader: AliasChainsReader) {
+    this._reader = reader;
+  }
+
+  /**
+   * Refreshes the provider reading the alias chains again.
+   */
+  refresh() {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Disposes this provider.
+   */
+  dispose() {
+    this._onDidChangeTreeData.dispose();
+  }
+
+  /**
+   * Returns the UI representation (TreeItem) of the element that gets displayed in the view.
+   * @param element Element.
+   * @returns Tree item representation of the element.
+   */
+  getTreeItem(element: AliasChainItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Gets a list of tree items by the given base element.
+   *
+   * If base element is ``undefined`` it returns the aliased methods.
+   * @param element Base element.
+   * @returns Children elements.
+   */
+  getChildren(element?: AliasChainItem): AliasChainItem[] {
+    return element
+      ? element.children
+      : this._reader().map((chain) => this._createChainItem(chain));
+  }
+
+  /**
+   * Creates the tree item of an aliased method.
+   *
+   * Methods with conflicts are marked with a warning icon.
+   * @param chain Alias chain.
+   * @returns Tree item.
+   */
+  private _createChainItem(chain: AliasChain) {
+    const conflicts = chain.steps.filter((step) => step.conflict).length;
+    const aliases = chain.steps.filter(
+      (step) => step.symbol.kind === RubySymbolKind.Alias
+    ).length;
+    const item = new AliasChainItem(
+      chain.name,
+      chain.steps.map((step) => this._createStepItem(step))
+    );
+    item.description =
+      conflicts > 0
+        ? vscode.l10n.t(strings.ALIAS_CHAIN_CONFLICT_COUNT, conflicts)
+        : vscode.l10n.t(strings.ALIAS_CHAIN_ALIAS_COUNT, aliases);
+    item.iconPath =
+      conflicts > 0
+        ? new vscode.ThemeIcon(
+            'warning',
+            new vscode.ThemeColor('list.warningForeground')
+          )
+        : new vscode.ThemeIcon('symbol-method');
+    return item;
+  }
+
+  /**
+   * Creates the tree item of a definition or alias of the method.
+   *
+   * Clicking the item opens the step location.
+   * @param step Alias chain step.
+   * @returns Tree item.
+   */
+  private _createStepItem(step: AliasChainStep) {
+    const symbol = step.symbol;
+    const alias = symbol.kind === RubySymbolKind.Alias;
+    const item = new AliasChainItem(
+      alias ? `alias ${symbol.name} ${symbol.original}` : `def ${symbol.name}`
+    );
+    item.description = this._location(step);
+    item.tooltip = this._tooltip(step);
+    item.iconPath = step.conflict
+      ? new vscode.ThemeIcon(
+          'warning',
+          new vscode.ThemeColor('list.warningForeground')
+        )
+      : step.active
+      ? new vscode.ThemeIcon('check')
+      : new vscode.ThemeIcon(alias ? 'arrow-small-right' : 'symbol-method');
+    item.command = {
+      title: 'Open',
+      command: 'vscode.open',
+      arguments: [
+        step.section.resourceUri,
+        {
+          selection: new vscode.Range(
+            symbol.nameRange.start.line - 1,
+            symbol.nameRange.start.column,
+            symbol.nameRange.end.line - 1,
+            symbol.nameRange.end.column
+          ),
+        },
+      ],
+    };
+    return item;
+  }
+
+  /**
+   * Creates the tooltip of the given step.
+   *
+   * It explains what the alias saves and the conflict of the step.
+   * @param step Alias chain step.
+   * @returns Tooltip.
+   */
+  private _tooltip(step: AliasChainStep) {
+    const lines: string[] = [];
+    if (step.symbol.kind === RubySymbolKind.Alias) {
+      lines.push(
+        step.captured
+          ? vscode.l10n.t(
+              strings.ALIAS_CHAIN_CAPTURED,
+              this._location(step.captured)
+            )
+          : strings.ALIAS_CHAIN_CAPTURED_BUILT_IN
+      );
+    } else if (step.active) {
+      lines.push(strings.ALIAS_CHAIN_ACTIVE);
+    }
+    const previous = step.conflictWith ? this._location(step.conflictWith) : '';
+    switch (step.conflict) {
+      case AliasChainConflict.AliasReused: {
+        lines.push(
+          vscode.l10n.t(
+            strings.ALIAS_CHAIN_ALIAS_REUSED,
+            step.symbol.name,
+            previous
+          )
+        );
+        break;
+      }
+      case AliasChainConflict.Overwritten: {
+        lines.push(vscode.l10n.t(strings.ALIAS_CHAIN_OVERWRITTEN, previous));
+        break;
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Gets the location of the given step as a string.
+   * @param step Alias chain step.
+   * @returns Location.
+   */
+  private _location(step: AliasChainStep) {
+    return `${vscode.workspace.asRelativePath(step.section.resourceUri)}:${
+      step.symbol.nameRange.start.line
+    }`;
+  }
+}
@@ -0,0 +1,294 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BUNDLE_FILE_SCHEME,
+  ControllerBundleEntry,
+  EditorSectionType,
+} from '../../processes/scripts_controller';
+
+/**
+ * Bundle entries reader type.
+ *
+ * Reads all entries of the given bundle file.
+ */
+export type BundleEntriesReader = (
+  bundleFile: vscode.Uri
+) => ControllerBundleEntry[];
+
+/**
+ * Bundle file regular expression.
+ *
+ * Used to find the bundle file segment in the URI path.
+ */
+const BUNDLE_FILE_REGEXP = /\.(rxdata|rvdata|rvdata2)$/i;
+
+/**
+ * Bundle file cache type.
+ */
+type BundleCache = {
+  /**
+   * Bundle file modification time.
+   *
+   * The bundle file is read again when it changes.
+   */
+  mtime: number;
+
+  /**
+   * Bundle entries by their path.
+   */
+  entries: Map<string, ControllerBundleEntry>;
+
+  /**
+   * Folders children by the folder path.
+   *
+   * The root folder path is an empty string.
+   */
+  folders: Map<string, Map<string, vscode.FileType>>;
+};
+
+/**
+ * A read-only file system provider to browse the contents of bundle files.
+ *
+ * Each section of the bundle file is shown as a file or a folder, as it would be extracted.
+ *
+ * The URI path is formed by the bundle file path and the entry path.
+ */
+export class BundleFileSystemProvider implements vscode.FileSystemProvider {
+  /**
+   * Bundle file system URI scheme.
+   */
+  public static readonly SCHEME = BUNDLE_FILE_SCHEME;
+
+  /**
+   * Bundle entries reader.
+   */
+  private _reader: BundleEntriesReader;
+
+  /**
+   * Bundle files cache.
+   */
+  private _cache: Map<string, BundleCache>;
+
+  /**
+   * On did change file event emitter.
+   */
+  private _onDidChangeFile: vscode.EventEmitter<vscode.FileChangeEvent[]> =
+    new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+
+  /**
+   * On did change file event.
+   */
+  readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> =
+    this._onDidChangeFile.event;
+
+  /**
+   * Constructor.
+   * @param reader Bundle entries reader.
+   */
+  constructor(reader: BundleEntriesReader) {
+    this._reader = reader;
+    this._cache = new Map();
+  }
+
+  /**
+   * Creates the root URI of the given bundle file.
+   * @param bundleFile Bundle file path
+   * @returns Bundle root URI
+   */
+  static createUri(bundleFile: vscode.Uri) {
+    return bundleFile.with({ scheme: BundleFileSystemProvider.SCHEME });
+  }
+
+  /**
+   * Subscribes to file change events.
+   *
+   * Bundle files are read-only, so changes are never reported.
+   * @returns A disposable.
+   */
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  /**
+   * Retrieves metadata about a file.
+   * @param uri The uri of the file to retrieve metadata about.
+   * @returns The file metadata.
+   * @throws An error if the file does not exist.
+   */
+  stat(uri: vscode.Uri): vscode.FileStat {
+    const { bundleFile, entryPath } = this._parseUri(uri);
+    const bundle = this._readBundle(uri, bundleFile);
+    const stats = fs.statSync(bundleFile.fsPath);
+    const entry = bundle.entries.get(entryPath);
+    if (entry?.type === EditorSectionType.Script) {
+      return {
+        type: vscode.FileType.File,
+        ctime: stats.ctimeMs,
+        mtime: stats.mtimeMs,
+        size: Buffer.byteLength(entry.code),
+        permissions: vscode.FilePermission.Readonly,
+      };
+    } else if (bundle.folders.has(entryPath)) {
+      return {
+        type: vscode.FileType.Directory,
+        ctime: stats.ctimeMs,
+        mtime: stats.mtimeMs,
+        size: 0,
+        permissions: vscode.FilePermission.Readonly,
+      };
+    }
+    throw vscode.FileSystemError.FileNotFound(uri);
+  }
+
+  /**
+   * Retrieves all entries of a directory.
+   * @param uri The uri of the folder.
+   * @returns An array of name/type-tuples.
+   * @throws An error if the folder does not exist.
+   */
+  readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+    const { bundleFile, entryPath } = this._parseUri(uri);
+    const folder = this._readBundle(uri, bundleFile).folders.get(entryPath);
+    if (!folder) {
+      throw vscode.FileSystemError.FileNotADirectory(uri);
+    }
+    return Array.from(folder.entries());
+  }
+
+  /**
+   * Reads the entire contents of a file.
+   * @param uri The uri of the file.
+   * @returns An array of bytes.
+   * @throws An error if the file does not exist.
+   */
+  readFile(uri: vscode.Uri): Uint8Array {
+    const { bundleFile, entryPath } = this._parseUri(uri);
+    const entry = this._readBundle(uri, bundleFile).entries.get(entryPath);
+    if (entry?.type !== EditorSectionType.Script) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return Buffer.from(entry.code, 'utf8');
+  }
+
+  /**
+   * Bundle files are read-only.
+   * @param uri The uri of the folder.
+   * @throws A no permissions error.
+   */
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  /**
+   * Bundle files are read-only.
+   * @param uri The uri of the file.
+   * @throws A no permissions error.
+   */
+  writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  /**
+   * Bundle files are read-only.
+   * @param uri The resource that is to be deleted.
+   * @throws A no permissions error.
+   */
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  /**
+   * Bundle files are read-only.
+   * @param oldUri The existing file.
+   * @throws A no permissions error.
+   */
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  /**
+   * Disposes this provider.
+   */
+  dispose() {
+    this._onDidChangeFile.dispose();
+    this._cache.clear();
+  }
+
+  /**
+   * Splits the given URI into the bundle file path and the entry path.
+   * @param uri Bundle file system URI.
+   * @returns The bundle file and the entry path.
+   * @throws An error if the URI does not contain a bundle file.
+   */
+  private _parseUri(uri: vscode.Uri) {
+    const segments = uri.path.split('/');
+    const index = segments.findIndex((segment) =>
+      BUNDLE_FILE_REGEXP.test(segment)
+    );
+    if (index === -1) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return {
+      bundleFile: uri.with({
+        scheme: 'file',
+        path: segments.slice(0, index + 1).join('/'),
+      }),
+      entryPath: segments
+        .slice(index + 1)
+        .filter((segment) => segment)
+        .join('/'),
+    };
+  }
+
+  /**
+   * Reads the given bundle file.
+   *
+   * The bundle file is only read again if it was modified.
+   * @param uri Bundle file system URI.
+   * @param bundleFile Bundle file path.
+   * @returns The bundle file cache.
+   * @throws An error if the bundle file does not exist.
+   */
+  private _readBundle(uri: vscode.Uri, bundleFile: vscode.Uri) {
+    if (!fs.existsSync(bundleFile.fsPath)) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    const mtime = fs.statSync(bundleFile.fsPath).mtimeMs;
+    const cached = this._cache.get(bundleFile.fsPath);
+    if (cached && cached.mtime === mtime) {
+      return cached;
+    }
+
+    // Creates the folder structure of the bundle entries
+    const bundle: BundleCache = {
+      mtime: mtime,
+      entries: new Map(),
+      folders: new Map([['', new Map()]]),
+    };
+    for (const entry of this._reader(bundleFile)) {
+      bundle.entries.set(entry.path, entry);
+      let child = entry.path;
+      let type =
+        entry.type === EditorSectionType.Folder
+          ? vscode.FileType.Directory
+          : vscode.FileType.File;
+      if (type === vscode.FileType.Directory && !bundle.folders.has(child)) {
+        bundle.folders.set(child, new Map());
+      }
+      // Registers the entry in all of its parent folders
+      while (child.length > 0) {
+        const parent = path.posix.dirname(child);
+        const folder = parent === '.' ? '' : parent;
+        if (!bundle.folders.has(folder)) {
+          bundle.folders.set(folder, new Map());
+        }
+        bundle.folders.get(folder)!.set(path.posix.basename(child), type);
+        child = folder;
+        type = vscode.FileType.Directory;
+      }
+    }
+    this._cache.set(bundleFile.fsPath, bundle);
+    return bundle;
+  }
+}
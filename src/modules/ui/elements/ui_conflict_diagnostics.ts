@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as strings from '../../utils/strings';
+import { ScriptConflict } from '../../processes/script_conflicts';
+import { RubyRange } from '../../processes/ruby_syntax';
+
+/**
+ * Script conflict diagnostics class.
+ *
+ * Publishes the shadowed method definitions of the scripts in the problems panel.
+ *
+ * The diagnostics of a script are removed as soon as the script is edited.
+ */
+export class ConflictDiagnostics {
+  /**
+   * Diagnostic collection.
+   */
+  private _collection: vscode.DiagnosticCollection;
+
+  /**
+   * Text document change listener.
+   */
+  private _listener: vscode.Disposable;
+
+  /**
+   * Constructor.
+   */
+  constructor() {
+    this._collection = vscode.languages.createDiagnosticCollection(
+      'rgss-script-editor-conflicts'
+    );
+    this._listener = vscode.workspace.onDidChangeTextDocument((event) => {
+      this._onDidChangeTextDocument(event);
+    });
+  }
+
+  /**
+   * Publishes the given script conflicts.
+   *
+   * A warning is shown on every shadowed definition pointing to the definition that replaces it.
+   *
+   * Previous diagnostics are removed.
+   * @param conflicts List of script conflicts
+   */
+  update(conflicts: ScriptConflict[]) {
+    this._collection.clear();
+    const diagnostics = new Map<string, [vscode.Uri, vscode.Diagnostic[]]>();
+    conflicts.forEach((conflict) => {
+      const uri = conflict.shadowed.resourceUri;
+      const location = vscode.workspace.asRelativePath(
+        conflict.shadowing.resourceUri
+      );
+      conflict.methods.forEach((method) => {
+        const diagnostic = new vscode.Diagnostic(
+          this._range(method.shadowed.nameRange),
+          vscode.l10n.t(
+            strings.SCRIPT_CONFLICTS_DIAGNOSTIC,
+            method.name,
+            `${location}:${method.shadowing.nameRange.start.line}`
+          ),
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'RGSS Script Editor';
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        diagnostic.relatedInformation = [
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(
+              conflict.shadowing.resourceUri,
+              this._range(method.shadowing.nameRange)
+            ),
+            strings.SCRIPT_CONFLICTS_REDEFINED
+          ),
+        ];
+        const key = uri.toString();
+        const entry = diagnostics.get(key) ?? [uri, []];
+        entry[1].push(diagnostic);
+        diagnostics.set(key, entry);
+      });
+    });
+    this._collection.set(Array.from(diagnostics.values()));
+  }
+
+  /**
+   * Removes all diagnostics.
+   */
+  clear() {
+    this._collection.clear();
+  }
+
+  /**
+   * Disposes the diagnostics.
+   */
+  dispose() {
+    this._listener.dispose();
+    this._collection.dispose();
+  }
+
+  /**
+   * Removes the diagnostics of the changed document.
+   *
+   * Editing the script may move or remove the shadowed definitions.
+   * @param event Text document change event
+   */
+  private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+    const uri = event.document.uri;
+    if (event.contentChanges.length > 0 && this._collection.has(uri)) {
+      this._collection.delete(uri);
+    }
+  }
+
+  /**
+   * Creates a VSCode range from the given Ruby code range.
+   * @param range Ruby code range
+   * @returns Range
+   */
+  private _range(range: RubyRange) {
+    return new vscode.Range(
+      range.start.line - 1,
+      range.start.column,
+      range.end.line - 1,
+      range.end.column
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { GameException } from '../../processes/gameplay_controller';
+
+/**
+ * Game exception diagnostics class.
+ *
+ * Publishes the game exceptions in the problems panel.
+ *
+ * The diagnostics of a script are removed as soon as the script is edited.
+ *
+ * Each project has its own diagnostic collection, so the exception of a project
+ * is kept when the game of another project is executed.
+ */
+export class ExceptionDiagnostics {
+  /**
+   * Diagnostic collections by the project folder.
+   */
+  private _collections: Map<string, vscode.DiagnosticCollection>;
+
+  /**
+   * Text document change listener.
+   */
+  private _listener: vscode.Disposable;
+
+  /**
+   * Constructor.
+   */
+  constructor() {
+    this._collections = new Map();
+    this._listener = vscode.workspace.onDidChangeTextDocument((event) => {
+      this._onDidChangeTextDocument(event);
+    });
+  }
+
+  /**
+   * Publishes the given game exception.
+   *
+   * The top backtrace frame is published as an error, the rest of frames are
+   * attached as related information.
+   *
+   * Previous diagnostics of the project are removed.
+   * @param folder Project folder
+   * @param exception Game exception
+   */
+  update(folder: vscode.Uri, exception: GameException) {
+    const collection = this._collection(folder);
+    collection.clear();
+    const [top, ...callers] = exception.backtrace;
+    if (!top) {
+      return;
+    }
+    const diagnostic = new vscode.Diagnostic(
+      this._frameRange(top.line),
+      exception.toString().trim(),
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = 'RGSS Script Editor';
+    diagnostic.relatedInformation = callers.map((frame) => {
+      return new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(frame.uri, this._frameRange(frame.line)),
+        frame.message || `line ${frame.line}`
+      );
+    });
+    collection.set(top.uri, [diagnostic]);
+  }
+
+  /**
+   * Removes the diagnostics of the given project.
+   *
+   * If no project is given, all diagnostics are removed.
+   * @param folder Project folder
+   */
+  clear(folder?: vscode.Uri) {
+    if (folder) {
+      this._collections.get(folder.toString())?.clear();
+    } else {
+      this._collections.forEach((collection) => collection.clear());
+    }
+  }
+
+  /**
+   * Disposes the diagnostics.
+   */
+  dispose() {
+    this._listener.dispose();
+    this._collections.forEach((collection) => collection.dispose());
+    this._collections.clear();
+  }
+
+  /**
+   * Gets the diagnostic collection of the given project.
+   *
+   * The collection is created if it does not exist.
+   * @param folder Project folder
+   * @returns Diagnostic collection
+   */
+  private _collection(folder: vscode.Uri) {
+    const key = folder.toString();
+    let collection = this._collections.get(key);
+    if (!collection) {
+      collection =
+        vscode.languages.createDiagnosticCollection('rgss-script-editor');
+      this._collections.set(key, collection);
+    }
+    return collection;
+  }
+
+  /**
+   * Removes the diagnostics of the changed document.
+   *
+   * Diagnostics are not moved when lines are added or removed, so they would point to the wrong line.
+   * @param event Text document change event
+   */
+  private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+    const uri = event.document.uri;
+    if (event.contentChanges.length === 0) {
+      return;
+    }
+    this._collections.forEach((collection) => {
+      if (collection.has(uri)) {
+        collection.delete(uri);
+      }
+    });
+  }
+
+  /**
+   * Creates the range of the given backtrace line.
+   *
+   * The range covers the whole line.
+   * @param line Backtrace line (1-based)
+   * @returns Range
+   */
+  private _frameRange(line: number) {
+    const index = Math.max(line - 1, 0);
+    return new vscode.Range(index, 0, index, Number.MAX_SAFE_INTEGER);
+  }
+}
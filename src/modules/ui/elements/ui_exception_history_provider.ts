@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as strings from '../../utils/strings';
+import {
+  GameException,
+  GameExceptionBacktrace,
+} from '../../processes/gameplay_controller';
+
+/**
+ * Exception history tree item class.
+ *
+ * Items are created with all of their children since the history is read-only.
+ */
+export class ExceptionHistoryItem extends vscode.TreeItem {
+  /**
+   * Children items.
+   */
+  readonly children: ExceptionHistoryItem[];
+
+  /**
+   * Constructor.
+   * @param label Item label.
+   * @param children Children items.
+   * @param expanded Whether the item is expanded or not.
+   */
+  constructor(
+    label: string,
+    children: ExceptionHistoryItem[] = [],
+    expanded: boolean = false
+  ) {
+    super(
+      label,
+      children.length === 0
+        ? vscode.TreeItemCollapsibleState.None
+        : expanded
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.children = children;
+  }
+}
+
+/**
+ * A data provider that provides the exception history tree data.
+ *
+ * Exceptions are grouped by the game session that reported them, newest first.
+ */
+export class ExceptionHistoryProvider
+  implements vscode.TreeDataProvider<ExceptionHistoryItem>
+{
+  /**
+   * Game sessions items.
+   */
+  private _sessions: ExceptionHistoryItem[];
+
+  /**
+   * On did change tree data event emitter.
+   */
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    ExceptionHistoryItem | undefined | null | void
+  > = new vscode.EventEmitter<ExceptionHistoryItem | undefined | null | void>();
+
+  /**
+   * On did change tree data event.
+   */
+  readonly onDidChangeTreeData: vscode.Event<
+    ExceptionHistoryItem | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  /**
+   * Constructor.
+   */
+  constructor() {
+    this._sessions = [];
+  }
+
+  /**
+   * Updates the provider with the given exception history.
+   *
+   * Only the newest game session is expanded.
+   * @param exceptions Exception history.
+   */
+  update(exceptions: GameException[]) {
+    const groups = new Map<number, GameException[]>();
+    exceptions.forEach((exception) => {
+      const key = exception.session.getTime();
+      groups.set(key, [...(groups.get(key) ?? []), exception]);
+    });
+    this._sessions = Array.from(groups.entries())
+      .sort(([a], [b]) => b - a)
+      .map(([key, group], index) =>
+        this._createSessionItem(new Date(key), group.reverse(), index === 0)
+      );
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Resets the provider removing all game sessions.
+   */
+  reset() {
+    this._sessions = [];
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Disposes this provider.
+   */
+  dispose() {
+    this._onDidChangeTreeData.dispose();
+  }
+
+  /**
+   * Returns the UI representation (TreeItem) of the element that gets displayed in the view.
+   * @param element Element.
+   * @returns Tree item representation of the element.
+   */
+  getTreeItem(element: ExceptionHistoryItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Gets a list of tree items by the given base element.
+   *
+   * If base element is ``undefined`` it returns the game sessions.
+   * @param element Base element.
+   * @returns Children elements.
+   */
+  getChildren(element?: ExceptionHistoryItem): ExceptionHistoryItem[] {
+    return element ? element.children : this._sessions;
+  }
+
+  /**
+   * Creates the tree item of a game session.
+   * @param session Game session timestamp.
+   * @param exceptions Exceptions reported in the session.
+   * @param expanded Whether the item is expanded or not.
+   * @returns Tree item.
+   */
+  private _createSessionItem(
+    session: Date,
+    exceptions: GameException[],
+    expanded: boolean
+  ) {
+    const item = new ExceptionHistoryItem(
+      session.toLocaleString(),
+      exceptions.map((exception) => this._createExceptionItem(exception)),
+      expanded
+    );
+    item.description = vscode.l10n.t(
+      strings.EXCEPTION_HISTORY_SESSION_COUNT,
+      exceptions.length
+    );
+    item.iconPath = new vscode.ThemeIcon('history');
+    return item;
+  }
+
+  /**
+   * Creates the tree item of a game exception.
+   * @param exception Game exception.
+   * @returns Tree item.
+   */
+  private _createExceptionItem(exception: GameException) {
+    const item = new ExceptionHistoryItem(
+      exception.name,
+      exception.backtrace.map((frame) => this._createFrameItem(frame))
+    );
+    item.description = exception.message;
+    item.tooltip = `${exception.timestamp.toLocaleString()}\n${exception.toString()}`;
+    item.iconPath = new vscode.ThemeIcon(
+      'error',
+      new vscode.ThemeColor('errorForeground')
+    );
+    return item;
+  }
+
+  /**
+   * Creates the tree item of an exception backtrace frame.
+   *
+   * Clicking the item opens the frame location.
+   * @param frame Exception backtrace frame.
+   * @returns Tree item.
+   */
+  private _createFrameItem(frame: GameExceptionBacktrace) {
+    const line = Math.max(frame.line - 1, 0);
+    const item = new ExceptionHistoryItem(
+      `${path.basename(frame.file)}:${frame.line}`
+    );
+    item.description = frame.message;
+    item.tooltip = frame.toString();
+    item.iconPath = new vscode.ThemeIcon('debug-stackframe');
+    item.command = {
+      title: 'Open',
+      command: 'vscode.open',
+      arguments: [frame.uri, { selection: new vscode.Range(line, 0, line, 0) }],
+    };
+    return item;
+  }
+}
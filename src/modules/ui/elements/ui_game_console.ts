@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import * as strings from '../../utils/strings';
+import { GameChannel } from '../../processes/game_channel';
+
+/**
+ * Game console prompt.
+ */
+const GAME_CONSOLE_PROMPT = '> ';
+
+/**
+ * Game console pseudoterminal class.
+ *
+ * Each line written by the user is evaluated inside the running game and the result is printed back.
+ */
+class GameConsole implements vscode.Pseudoterminal {
+  /**
+   * Game process PID.
+   */
+  private _pid: number;
+
+  /**
+   * Game console channel.
+   */
+  private _channel: GameChannel;
+
+  /**
+   * Current input line.
+   */
+  private _line: string;
+
+  /**
+   * Lines evaluated in this console, oldest first.
+   */
+  private _history: string[];
+
+  /**
+   * Current position in the history while browsing it.
+   */
+  private _historyIndex: number;
+
+  /**
+   * Requests sequence number.
+   */
+  private _seq: number;
+
+  /**
+   * Whether the game process exited or not.
+   */
+  private _exited: boolean;
+
+  /**
+   * Write event emitter.
+   */
+  private _onDidWriteEmitter = new vscode.EventEmitter<string>();
+  readonly onDidWrite: vscode.Event<string> = this._onDidWriteEmitter.event;
+
+  /**
+   * Constructor.
+   * @param pid Game process PID.
+   * @param channel Game console channel.
+   */
+  constructor(pid: number, channel: GameChannel) {
+    this._pid = pid;
+    this._channel = channel;
+    this._line = '';
+    this._history = [];
+    this._historyIndex = 0;
+    this._seq = 0;
+    this._exited = false;
+  }
+
+  /**
+   * Opens the console.
+   *
+   * Results written by the game are printed as they are received.
+   */
+  open() {
+    this._channel.onDidReceive((fields) => this._writeResult(fields));
+    this._channel.open();
+    this._write(vscode.l10n.t(strings.GAME_CONSOLE_WELCOME, this._pid));
+    this._write(`\r\n${GAME_CONSOLE_PROMPT}`);
+  }
+
+  /**
+   * Closes the console.
+   */
+  close() {
+    this._channel.close();
+    this._onDidWriteEmitter.dispose();
+  }
+
+  /**
+   * Notifies the console that the game process exited.
+   *
+   * The console stops accepting input.
+   */
+  exit() {
+    if (this._exited) {
+      return;
+    }
+    this._exited = true;
+    this._channel.close();
+    this._write(
+      `\r\n\x1b[33m${vscode.l10n.t(
+        strings.GAME_CONSOLE_EXITED,
+        this._pid
+      )}\x1b[0m\r\n`
+    );
+  }
+
+  /**
+   * Handles the input typed by the user.
+   * @param data Input data.
+   */
+  handleInput(data: string) {
+    if (this._exited) {
+      return;
+    }
+    switch (data) {
+      case '\x1b[A': {
+        this._browseHistory(-1);
+        return;
+      }
+      case '\x1b[B': {
+        this._browseHistory(1);
+        return;
+      }
+    }
+    for (const char of data) {
+      if (char === '\r' || char === '\n') {
+        this._submit();
+      } else if (char === '\x7f') {
+        if (this._line.length > 0) {
+          this._line = this._line.slice(0, -1);
+          this._write('\b \b');
+        }
+      } else if (char === '\x03') {
+        this._line = '';
+        this._write(`^C\r\n${GAME_CONSOLE_PROMPT}`);
+      } else if (char >= ' ') {
+        this._line += char;
+        this._write(char);
+      }
+    }
+  }
+
+  /**
+   * Sends the current input line to the game.
+   */
+  private _submit() {
+    const code = this._line;
+    this._line = '';
+    this._write('\r\n');
+    if (code.trim().length === 0) {
+      this._write(GAME_CONSOLE_PROMPT);
+      return;
+    }
+    this._history.push(code);
+    this._historyIndex = this._history.length;
+    this._seq++;
+    this._channel.send(this._seq, code);
+  }
+
+  /**
+   * Writes the result of an evaluation sent by the game.
+   *
+   * The output written by the code is printed before the result.
+   * @param fields Result fields.
+   */
+  private _writeResult(fields: string[]) {
+    const [, output, result, error] = fields;
+    if (output) {
+      this._write(output.replace(/\r?\n/g, '\r\n'));
+      if (!output.endsWith('\n')) {
+        this._write('\r\n');
+      }
+    }
+    const text = (result ?? '').replace(/\r?\n/g, '\r\n');
+    this._write(error === '1' ? `\x1b[31m${text}\x1b[0m` : `=> ${text}`);
+    this._write(`\r\n${GAME_CONSOLE_PROMPT}${this._line}`);
+  }
+
+  /**
+   * Replaces the current input line with a line of the history.
+   * @param offset Offset from the current history position.
+   */
+  private _browseHistory(offset: number) {
+    const index = this._historyIndex + offset;
+    if (index < 0 || index > this._history.length) {
+      return;
+    }
+    this._historyIndex = index;
+    this._line = this._history[index] ?? '';
+    this._write(`\x1b[2K\r${GAME_CONSOLE_PROMPT}${this._line}`);
+  }
+
+  /**
+   * Writes the given text to the terminal.
+   * @param text Text.
+   */
+  private _write(text: string) {
+    this._onDidWriteEmitter.fire(text);
+  }
+}
+
+/**
+ * Game console UI class.
+ *
+ * Manages one console terminal for each running game process.
+ */
+export class GameConsoleView {
+  /**
+   * Console terminals by the game process PID.
+   */
+  private _consoles: Map<number, [vscode.Terminal, GameConsole]>;
+
+  /**
+   * Terminal close listener.
+   */
+  private _closeListener: vscode.Disposable;
+
+  /**
+   * Constructor.
+   */
+  constructor() {
+    this._consoles = new Map();
+    this._closeListener = vscode.window.onDidCloseTerminal((terminal) => {
+      this._consoles.forEach(([consoleTerminal], pid) => {
+        if (consoleTerminal === terminal) {
+          this._consoles.delete(pid);
+        }
+      });
+    });
+  }
+
+  /**
+   * Opens the console of the given game process.
+   *
+   * The terminal is revealed if the console is already opened.
+   * @param pid Game process PID
+   * @param channel Game console channel
+   */
+  open(pid: number, channel: GameChannel) {
+    const opened = this._consoles.get(pid);
+    if (opened) {
+      opened[0].show();
+      return;
+    }
+    const pty = new GameConsole(pid, channel);
+    const terminal = vscode.window.createTerminal({
+      name: vscode.l10n.t(strings.GAME_CONSOLE_NAME, pid),
+      pty: pty,
+    });
+    this._consoles.set(pid, [terminal, pty]);
+    terminal.show();
+  }
+
+  /**
+   * Notifies the console of the given game process that the process exited.
+   *
+   * The terminal is kept open so the user can read it.
+   * @param pid Game process PID
+   */
+  exit(pid: number) {
+    this._consoles.get(pid)?.[1].exit();
+  }
+
+  /**
+   * Disposes all game console terminals.
+   */
+  dispose() {
+    this._closeListener.dispose();
+    this._consoles.forEach(([terminal]) => terminal.dispose());
+    this._consoles.clear();
+  }
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { GameOutput } from '../../utils/configuration';
+import {
+  GameLogRecord,
+  GameOutputLine,
+} from '../../processes/gameplay_controller';
+
+/**
+ * Game output name.
+ *
+ * Used as the name of both the output channel and the terminal.
+ */
+const GAME_OUTPUT_NAME = 'RGSS Game';
+
+/**
+ * Game log name.
+ */
+const GAME_LOG_NAME = 'RGSS Game Log';
+
+/**
+ * Game output UI class.
+ *
+ * Shows the output of the game processes in an output channel or a pseudoterminal.
+ *
+ * Game log records are shown in their own log output channel.
+ */
+export class GameOutputView {
+  /**
+   * Game output channel.
+   */
+  private _channel?: vscode.OutputChannel;
+
+  /**
+   * Game log output channel.
+   */
+  private _logChannel?: vscode.LogOutputChannel;
+
+  /**
+   * Game terminal.
+   */
+  private _terminal?: vscode.Terminal;
+
+  /**
+   * Game terminal write event emitter.
+   */
+  private _terminalEmitter: vscode.EventEmitter<string>;
+
+  /**
+   * Whether the game terminal is opened or not.
+   *
+   * Lines written before the terminal is opened are kept in a buffer.
+   */
+  private _terminalOpened: boolean;
+
+  /**
+   * Lines written before the terminal is opened.
+   */
+  private _terminalBuffer: string[];
+
+  /**
+   * List of process PIDs that have written output.
+   *
+   * Used to reveal the output when a new process writes its first line.
+   */
+  private _processes: Set<number>;
+
+  /**
+   * Constructor.
+   */
+  constructor() {
+    this._channel = undefined;
+    this._logChannel = undefined;
+    this._terminal = undefined;
+    this._terminalEmitter = new vscode.EventEmitter<string>();
+    this._terminalOpened = false;
+    this._terminalBuffer = [];
+    this._processes = new Set();
+  }
+
+  /**
+   * Writes the given game output line.
+   *
+   * The output is revealed the first time a game process writes a line.
+   * @param line Game output line
+   */
+  write(line: GameOutputLine) {
+    const reveal = !this._processes.has(line.pid);
+    this._processes.add(line.pid);
+    switch (line.target) {
+      case GameOutput.OUTPUT_CHANNEL: {
+        if (!this._channel) {
+          this._channel = vscode.window.createOutputChannel(GAME_OUTPUT_NAME);
+        }
+        this._channel.appendLine(line.text);
+        if (reveal) {
+          this._channel.show(true);
+        }
+        break;
+      }
+      case GameOutput.TERMINAL: {
+        if (!this._terminal) {
+          this._terminal = this._createTerminal();
+        }
+        // Errors are colored in red
+        const text = line.error
+          ? `\x1b[31m${line.text}\x1b[0m\r\n`
+          : `${line.text}\r\n`;
+        if (this._terminalOpened) {
+          this._terminalEmitter.fire(text);
+        } else {
+          this._terminalBuffer.push(text);
+        }
+        if (reveal) {
+          this._terminal.show(true);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Writes the given game log records.
+   *
+   * Records with a script location are written with a clickable ``file:line`` link.
+   * @param records Game log records
+   */
+  writeLog(records: GameLogRecord[]) {
+    if (!this._logChannel) {
+      this._logChannel = vscode.window.createOutputChannel(GAME_LOG_NAME, {
+        log: true,
+      });
+    }
+    for (const record of records) {
+      const text = record.file
+        ? `${record.message} (${record.file}:${record.line ?? 1})`
+        : record.message;
+      switch (record.level) {
+        case 'debug':
+          this._logChannel.debug(text);
+          break;
+        case 'warning':
+          this._logChannel.warn(text);
+          break;
+        case 'error':
+          this._logChannel.error(text);
+          break;
+        default:
+          this._logChannel.info(text);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Disposes the game output elements.
+   */
+  dispose() {
+    this._channel?.dispose();
+    this._logChannel?.dispose();
+    this._terminal?.dispose();
+    this._terminalEmitter.dispose();
+    this._processes.clear();
+  }
+
+  /**
+   * Creates the game pseudoterminal.
+   *
+   * The terminal is recreated the next time a line is written if the user closes it.
+   * @returns Game terminal
+   */
+  private _createTerminal() {
+    const pty: vscode.Pseudoterminal = {
+      onDidWrite: this._terminalEmitter.event,
+      open: () => {
+        this._terminalOpened = true;
+        this._terminalBuffer.forEach((text) =>
+          this._terminalEmitter.fire(text)
+        );
+        this._terminalBuffer = [];
+      },
+      close: () => {
+        this._terminal = undefined;
+        this._terminalOpened = false;
+      },
+    };
+    return vscode.window.createTerminal({ name: GAME_OUTPUT_NAME, pty: pty });
+  }
+}
@@ -0,0 +1,250 @@
+import * as vscode from 'vscode';
+import * as strings from '../../utils/strings';
+import {
+  ControllerMethodDefinition,
+  ControllerScriptSymbols,
+  EditorSectionBase,
+} from '../../processes/scripts_controller';
+import {
+  flattenRubySymbols,
+  METHOD_NAME_REGEXP,
+  parseRubySymbols,
+  rubySymbolFullName,
+  RubyRange,
+  RubySymbol,
+  RubySymbolKind,
+} from '../../processes/ruby_syntax';
+
+/**
+ * Script symbols reader type.
+ *
+ * Reads the symbols of all script sections in load order.
+ */
+export type ScriptSymbolsReader = () => ControllerScriptSymbols[];
+
+/**
+ * Method definitions reader type.
+ *
+ * Reads all definitions of the given method in the project of the given script.
+ */
+export type MethodDefinitionsReader = (
+  uri: vscode.Uri,
+  name: string
+) => ControllerMethodDefinition[] | undefined;
+
+/**
+ * Script section finder type.
+ *
+ * Finds the script section of the given file in the editor sections tree.
+ */
+export type ScriptSectionFinder = (
+  uri: vscode.Uri
+) => EditorSectionBase | undefined;
+
+/**
+ * A symbol provider of the classes, modules, methods and aliases defined in the scripts.
+ *
+ * Workspace symbols are listed in load order, so every reopening of a class or
+ * redefinition of a method is shown in the order the game loads them.
+ *
+ * Method definitions are also listed in load order.
+ *
+ * Only scripts of the editor sections tree are indexed.
+ */
+export class ScriptSymbolProvider
+  implements
+    vscode.WorkspaceSymbolProvider,
+    vscode.DocumentSymbolProvider,
+    vscode.DefinitionProvider
+{
+  /**
+   * Script symbols reader.
+   */
+  private _reader: ScriptSymbolsReader;
+
+  /**
+   * Method definitions reader.
+   */
+  private _definitionsReader: MethodDefinitionsReader;
+
+  /**
+   * Script section finder.
+   */
+  private _finder: ScriptSectionFinder;
+
+  /**
+   * Constructor.
+   * @param reader Script symbols reader.
+   * @param definitionsReader Method definitions reader.
+   * @param finder Script section finder.
+   */
+  constructor(
+    reader: ScriptSymbolsReader,
+    definitionsReader: MethodDefinitionsReader,
+    finder: ScriptSectionFinder
+  ) {
+    this._reader = reader;
+    this._definitionsReader = definitionsReader;
+    this._finder = finder;
+  }
+
+  /**
+   * Provides the symbols of all scripts that match the given query.
+   *
+   * Symbols are matched with their full name (``Game_Actor#setup``).
+   * @param query A query string, can be the empty string in which case all symbols should be returned.
+   * @returns List of symbols.
+   */
+  provideWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+    const symbols: vscode.SymbolInformation[] = [];
+    this._reader().forEach((entry) => {
+      flattenRubySymbols(entry.symbols).forEach((symbol) => {
+        const name = rubySymbolFullName(symbol);
+        if (!this._matches(name, query)) {
+          return;
+        }
+        symbols.push(
+          new vscode.SymbolInformation(
+            name,
+            this._symbolKind(symbol),
+            this._symbolDetail(symbol) ?? symbol.owner,
+            new vscode.Location(
+              entry.section.resourceUri,
+              this._range(symbol.nameRange)
+            )
+          )
+        );
+      });
+    });
+    return symbols;
+  }
+
+  /**
+   * Provides the symbols of the given script.
+   *
+   * The contents of the document are parsed so unsaved changes are shown.
+   * @param document The document in which the command was invoked.
+   * @returns List of document symbols.
+   */
+  provideDocumentSymbols(
+    document: vscode.TextDocument
+  ): vscode.DocumentSymbol[] | undefined {
+    if (!this._finder(document.uri)) {
+      return undefined;
+    }
+    return this._documentSymbols(parseRubySymbols(document.getText()));
+  }
+
+  /**
+   * Provides all definitions of the method at the given position.
+   *
+   * Definitions of all scripts are listed in load order, including disabled scripts.
+   * @param document The document in which the command was invoked.
+   * @param position The position at which the command was invoked.
+   * @returns List of definition locations.
+   */
+  provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.Location[] | undefined {
+    const range = document.getWordRangeAtPosition(position, METHOD_NAME_REGEXP);
+    if (!range) {
+      return undefined;
+    }
+    const definitions = this._definitionsReader(
+      document.uri,
+      document.getText(range)
+    );
+    return definitions?.map((definition) => {
+      return new vscode.Location(
+        definition.section.resourceUri,
+        this._range(definition.symbol.nameRange)
+      );
+    });
+  }
+
+  /**
+   * Creates the document symbols of the given symbol tree.
+   * @param symbols List of symbols
+   * @returns List of document symbols
+   */
+  private _documentSymbols(symbols: RubySymbol[]): vscode.DocumentSymbol[] {
+    return symbols.map((symbol) => {
+      const documentSymbol = new vscode.DocumentSymbol(
+        symbol.singleton && symbol.kind !== RubySymbolKind.Alias
+          ? `self.${symbol.name}`
+          : symbol.name,
+        this._symbolDetail(symbol) ?? '',
+        this._symbolKind(symbol),
+        this._range(symbol.range),
+        this._range(symbol.nameRange)
+      );
+      documentSymbol.children = this._documentSymbols(symbol.children);
+      return documentSymbol;
+    });
+  }
+
+  /**
+   * Checks if the given symbol name matches the query.
+   *
+   * All characters of the query must appear in the name in the same order (case insensitive).
+   * @param name Symbol name
+   * @param query Query string
+   * @returns Whether it matches or not
+   */
+  private _matches(name: string, query: string) {
+    const text = name.toLowerCase();
+    let index = 0;
+    for (const char of query.toLowerCase()) {
+      index = text.indexOf(char, index);
+      if (index === -1) {
+        return false;
+      }
+      index++;
+    }
+    return true;
+  }
+
+  /**
+   * Gets the detail of the given symbol.
+   *
+   * Aliases show the name of the original method.
+   * @param symbol Ruby symbol
+   * @returns Symbol detail
+   */
+  private _symbolDetail(symbol: RubySymbol) {
+    return symbol.kind === RubySymbolKind.Alias
+      ? vscode.l10n.t(strings.SYMBOL_ALIAS_DETAIL, symbol.original ?? '')
+      : undefined;
+  }
+
+  /**
+   * Gets the VSCode symbol kind of the given symbol.
+   * @param symbol Ruby symbol
+   * @returns Symbol kind
+   */
+  private _symbolKind(symbol: RubySymbol) {
+    switch (symbol.kind) {
+      case RubySymbolKind.Class:
+        return vscode.SymbolKind.Class;
+      case RubySymbolKind.Module:
+        return vscode.SymbolKind.Module;
+      default:
+        return vscode.SymbolKind.Method;
+    }
+  }
+
+  /**
+   * Creates a VSCode range from the given Ruby code range.
+   * @param range Ruby code range
+   * @returns Range
+   */
+  private _range(range: RubyRange) {
+    return new vscode.Range(
+      range.start.line - 1,
+      range.start.column,
+      range.end.line - 1,
+      range.end.column
+    );
+  }
+}
@@ -24,6 +24,11 @@ export type StatusBarControl = {
    * Run game executable status bar item visibility status.
    */
   runGame?: boolean;
+
+  /**
+   * Launch profile status bar item visibility status.
+   */
+  launchProfile?: boolean;
 };
 
 /**
@@ -34,6 +39,13 @@ export type StatusBarOptions = {
    * Project folder shown in the status bar.
    */
   projectFolder: string;
+
+  /**
+   * Active launch profile name shown in the status bar.
+   *
+   * If it is ``undefined``, the default profile is shown.
+   */
+  launchProfile?: string;
 };
 
 /**
@@ -56,6 +68,10 @@ export class StatusBarItems {
    * Status bar run game item.
    */
   private itemRunGame: vscode.StatusBarItem;
+  /**
+   * Status bar launch profile item.
+   */
+  private itemLaunchProfile: vscode.StatusBarItem;
 
   /**
    * Constructor.
@@ -73,6 +89,9 @@ export class StatusBarItems {
     this.itemRunGame = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Left
     );
+    this.itemLaunchProfile = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left
+    );
     this._initialize();
   }
 
@@ -85,6 +104,9 @@ export class StatusBarItems {
       strings.UI_PROJECT_FOLDER_TEXT,
       options.projectFolder
     )}`;
+    this.itemLaunchProfile.text = `$(rocket) ${
+      options.launchProfile ?? strings.UI_LAUNCH_PROFILE_DEFAULT
+    }`;
   }
 
   /**
@@ -96,6 +118,7 @@ export class StatusBarItems {
       currentProjectFolder: true,
       extractScripts: true,
       runGame: true,
+      launchProfile: true,
     });
   }
 
@@ -127,6 +150,10 @@ export class StatusBarItems {
       : this.itemExtractScripts.hide();
     // Updates run game item visibility
     options?.runGame ? this.itemRunGame.show() : this.itemRunGame.hide();
+    // Updates launch profile item visibility
+    options?.launchProfile
+      ? this.itemLaunchProfile.show()
+      : this.itemLaunchProfile.hide();
   }
 
   /**
@@ -137,6 +164,7 @@ export class StatusBarItems {
     this.itemProjectFolder.dispose();
     this.itemExtractScripts.dispose();
     this.itemRunGame.dispose();
+    this.itemLaunchProfile.dispose();
   }
 
   /**
@@ -164,6 +192,12 @@ export class StatusBarItems {
     this.itemRunGame.tooltip = strings.UI_RUN_GAME_TOOLTIP;
     this.itemRunGame.command = 'rgss-script-editor.runGame';
 
+    // Launch Profile item
+    this.itemLaunchProfile.name = strings.UI_LAUNCH_PROFILE_NAME;
+    this.itemLaunchProfile.text = `$(rocket) ${strings.UI_LAUNCH_PROFILE_DEFAULT}`;
+    this.itemLaunchProfile.tooltip = strings.UI_LAUNCH_PROFILE_TOOLTIP;
+    this.itemLaunchProfile.command = 'rgss-script-editor.chooseLaunchProfile';
+
     // Extract Scripts item
     this.itemExtractScripts.name = strings.UI_EXTRACT_NAME;
     this.itemExtractScripts.text = `$(arrow-down) ${strings.UI_EXTRACT_TEXT}`;
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { ControllerSyntaxError } from '../../processes/scripts_controller';
+
+/**
+ * Script syntax diagnostics class.
+ *
+ * Publishes the syntax errors of the scripts in the problems panel.
+ *
+ * The diagnostics of a script are removed as soon as the script is edited.
+ */
+export class SyntaxDiagnostics {
+  /**
+   * Diagnostic collection.
+   */
+  private _collection: vscode.DiagnosticCollection;
+
+  /**
+   * Text document change listener.
+   */
+  private _listener: vscode.Disposable;
+
+  /**
+   * Constructor.
+   */
+  constructor() {
+    this._collection = vscode.languages.createDiagnosticCollection(
+      'rgss-script-editor-syntax'
+    );
+    this._listener = vscode.workspace.onDidChangeTextDocument((event) => {
+      this._onDidChangeTextDocument(event);
+    });
+  }
+
+  /**
+   * Publishes the given syntax errors.
+   *
+   * Previous diagnostics are removed.
+   * @param errors List of syntax errors
+   */
+  update(errors: ControllerSyntaxError[]) {
+    this._collection.clear();
+    const diagnostics = new Map<string, [vscode.Uri, vscode.Diagnostic[]]>();
+    errors.forEach((error) => {
+      const line = Math.max(error.line - 1, 0);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, error.column, line, Number.MAX_SAFE_INTEGER),
+        error.message,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = 'RGSS Script Editor';
+      const key = error.uri.toString();
+      const entry = diagnostics.get(key) ?? [error.uri, []];
+      entry[1].push(diagnostic);
+      diagnostics.set(key, entry);
+    });
+    this._collection.set(Array.from(diagnostics.values()));
+  }
+
+  /**
+   * Removes all diagnostics.
+   */
+  clear() {
+    this._collection.clear();
+  }
+
+  /**
+   * Disposes the diagnostics.
+   */
+  dispose() {
+    this._listener.dispose();
+    this._collection.dispose();
+  }
+
+  /**
+   * Removes the diagnostics of the changed document.
+   *
+   * A syntax error can be fixed anywhere in the script, so the whole script is cleared.
+   * @param event Text document change event
+   */
+  private _onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent) {
+    const uri = event.document.uri;
+    if (event.contentChanges.length > 0 && this._collection.has(uri)) {
+      this._collection.delete(uri);
+    }
+  }
+}
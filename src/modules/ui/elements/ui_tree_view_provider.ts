@@ -24,9 +24,11 @@ export class EditorViewProvider
     vscode.TreeDragAndDropController<EditorSectionBase>
 {
   /**
-   * Scripts folder data.
+   * Scripts folders data.
+   *
+   * Roots are only shown in the tree when there is more than one.
    */
-  private _root?: EditorSectionBase;
+  private _roots: EditorSectionBase[];
 
   /**
    * On did change tree data event emitter.
@@ -56,7 +58,7 @@ export class EditorViewProvider
    * Constructor.
    */
   constructor() {
-    this._root = undefined;
+    this._roots = [];
   }
 
   /**
@@ -65,7 +67,7 @@ export class EditorViewProvider
    * @returns Whether it is root or not
    */
   isRoot(section: EditorSectionBase): boolean {
-    return this._root === section;
+    return this._roots.includes(section);
   }
 
   /**
@@ -74,10 +76,7 @@ export class EditorViewProvider
    * @returns Whether it is root or not
    */
   isRootPath(section: EditorSectionBase): boolean {
-    if (!this._root) {
-      return false;
-    }
-    return this._root?.isPath(section.resourceUri);
+    return this._roots.some((root) => root.isPath(section.resourceUri));
   }
 
   /**
@@ -146,11 +145,14 @@ export class EditorViewProvider
 
     // Fetchs the appropiate editor section instances by UUID.
     ids.forEach((id) => {
-      const child = this._root?.findChild((value) => {
-        return value.id === id;
-      }, true);
-      if (child) {
-        sections.push(child);
+      for (const root of this._roots) {
+        const child = root.findChild((value) => {
+          return value.id === id;
+        }, true);
+        if (child) {
+          sections.push(child);
+          break;
+        }
       }
     });
 
@@ -173,17 +175,22 @@ export class EditorViewProvider
    * @param element Script Section
    */
   refresh(element?: EditorSectionBase): void {
-    this._onDidChangeTreeData.fire(element);
+    // Roots are not shown in the tree if there is only one
+    if (element && this._roots.length === 1 && this.isRoot(element)) {
+      this._onDidChangeTreeData.fire();
+    } else {
+      this._onDidChangeTreeData.fire(element);
+    }
   }
 
   /**
-   * Updates the provider script section root instance.
+   * Updates the provider script section root instances.
    *
    * This method triggers a refresh on the tree since data has been updated.
-   * @param root Script section root
+   * @param roots Script section roots
    */
-  update(root: EditorSectionBase) {
-    this._root = root;
+  update(roots: EditorSectionBase[]) {
+    this._roots = roots;
     this.refresh();
   }
 
@@ -195,7 +202,7 @@ export class EditorViewProvider
    * This method triggers a refresh on the tree since data has been updated.
    */
   reset() {
-    this._root = undefined;
+    this._roots = [];
     this.refresh();
   }
 
@@ -204,9 +211,15 @@ export class EditorViewProvider
    * @param uri Script section uri path
    */
   findTreeItem(uri: vscode.Uri) {
-    return this._root?.findChild((value) => {
-      return value.isPath(uri);
-    }, true);
+    for (const root of this._roots) {
+      const child = root.findChild((value) => {
+        return value.isPath(uri);
+      }, true);
+      if (child) {
+        return child;
+      }
+    }
+    return undefined;
   }
 
   /**
@@ -223,7 +236,7 @@ export class EditorViewProvider
   /**
    * Gets a list of tree items by the given base script section.
    *
-   * If ``element`` is nullish, it returns all children from the root.
+   * If ``element`` is nullish, it returns all roots, or all children from the root if there is only one.
    *
    * If ``element`` is a valid script section, it returns all of their children items.
    * @param element Base script section
@@ -233,11 +246,12 @@ export class EditorViewProvider
     element?: EditorSectionBase
   ): vscode.ProviderResult<EditorSectionBase[]> {
     try {
-      if (this._root) {
-        let children = element ? element.children : this._root.children;
-        return Promise.resolve(children);
+      if (element) {
+        return Promise.resolve(element.children);
+      } else if (this._roots.length === 1) {
+        return Promise.resolve(this._roots[0].children);
       } else {
-        return Promise.resolve([]);
+        return Promise.resolve(this._roots);
       }
     } catch (error) {
       return Promise.resolve([]);
@@ -252,6 +266,10 @@ export class EditorViewProvider
   getParent(
     element: EditorSectionBase
   ): vscode.ProviderResult<EditorSectionBase> {
+    // Roots are not shown in the tree if there is only one
+    if (this._roots.length === 1 && element.parent === this._roots[0]) {
+      return undefined;
+    }
     return element.parent;
   }
 }
@@ -1,5 +1,42 @@
 import * as vscode from 'vscode';
-import { EditorSectionBase } from '../processes/scripts_controller';
+import * as path from 'path';
+import * as strings from '../utils/strings';
+import {
+  ControllerSyntaxError,
+  EditorSectionBase,
+} from '../processes/scripts_controller';
+import { BundleDiffEntry, BundleDiffStatus } from '../processes/bundle_diff';
+import { ScriptConflict } from '../processes/script_conflicts';
+import { GameChannel } from '../processes/game_channel';
+import {
+  GameException,
+  GameLogRecord,
+  GameOutputLine,
+} from '../processes/gameplay_controller';
+import {
+  BundleEntriesReader,
+  BundleFileSystemProvider,
+} from './elements/ui_bundle_file_system_provider';
+import { ExceptionDiagnostics } from './elements/ui_exception_diagnostics';
+import { SyntaxDiagnostics } from './elements/ui_syntax_diagnostics';
+import { ConflictDiagnostics } from './elements/ui_conflict_diagnostics';
+import {
+  AliasChainItem,
+  AliasChainProvider,
+  AliasChainsReader,
+} from './elements/ui_alias_chain_provider';
+import {
+  MethodDefinitionsReader,
+  ScriptSectionFinder,
+  ScriptSymbolProvider,
+  ScriptSymbolsReader,
+} from './elements/ui_script_symbol_provider';
+import {
+  ExceptionHistoryItem,
+  ExceptionHistoryProvider,
+} from './elements/ui_exception_history_provider';
+import { GameConsoleView } from './elements/ui_game_console';
+import { GameOutputView } from './elements/ui_game_output';
 import {
   StatusBarControl,
   StatusBarOptions,
@@ -42,13 +79,23 @@ export type ExtensionUiOptions<T> = {
   statusBarOptions: StatusBarOptions;
 
   /**
-   * Root of the tree view provider.
+   * Roots of the tree view provider.
    *
    * This will be used by the view provider to provide data to the tree view.
    *
-   * If it is ``undefined`` the tree view will be empty.
+   * Roots are only shown in the tree view when there is more than one.
+   */
+  treeRoots: T[];
+};
+
+/**
+ * Extension UI bundle difference options type.
+ */
+export type ExtensionUiBundleDiff = {
+  /**
+   * Title of the difference editor.
    */
-  treeRoot: T;
+  title: string;
 };
 
 /**
@@ -70,12 +117,122 @@ export class ExtensionUI {
    */
   private _statusBar: StatusBarItems;
 
+  /**
+   * Bundle file system provider.
+   */
+  private _bundleFileSystemProvider: BundleFileSystemProvider;
+
+  /**
+   * Bundle file system provider registration.
+   */
+  private _bundleFileSystemRegistration: vscode.Disposable;
+
+  /**
+   * Script symbol provider.
+   */
+  private _scriptSymbolProvider: ScriptSymbolProvider;
+
+  /**
+   * Script symbol provider registrations.
+   */
+  private _scriptSymbolRegistrations: vscode.Disposable[];
+
+  /**
+   * Game output view.
+   */
+  private _gameOutput: GameOutputView;
+
+  /**
+   * Game console terminals.
+   */
+  private _gameConsole: GameConsoleView;
+
+  /**
+   * Game exception diagnostics.
+   */
+  private _exceptionDiagnostics: ExceptionDiagnostics;
+
+  /**
+   * Script syntax diagnostics.
+   */
+  private _syntaxDiagnostics: SyntaxDiagnostics;
+
+  /**
+   * Script conflict diagnostics.
+   */
+  private _conflictDiagnostics: ConflictDiagnostics;
+
+  /**
+   * Exception history tree view instance.
+   */
+  private _exceptionHistoryView?: vscode.TreeView<ExceptionHistoryItem>;
+
+  /**
+   * Exception history tree view provider instance.
+   */
+  private _exceptionHistoryProvider: ExceptionHistoryProvider;
+
+  /**
+   * Alias chains tree view instance.
+   */
+  private _aliasChainsView?: vscode.TreeView<AliasChainItem>;
+
+  /**
+   * Alias chains tree view provider instance.
+   */
+  private _aliasChainProvider: AliasChainProvider;
+
   /**
    * Constructor.
+   * @param bundleEntriesReader Reader of the entries of any bundle file.
+   * @param scriptSymbolsReader Reader of the symbols of all scripts.
+   * @param methodDefinitionsReader Reader of the definitions of a method.
+   * @param scriptSectionFinder Finder of the script section of a file.
+   * @param aliasChainsReader Reader of the alias chains of the enabled scripts.
    */
-  constructor() {
+  constructor(
+    bundleEntriesReader: BundleEntriesReader,
+    scriptSymbolsReader: ScriptSymbolsReader,
+    methodDefinitionsReader: MethodDefinitionsReader,
+    scriptSectionFinder: ScriptSectionFinder,
+    aliasChainsReader: AliasChainsReader
+  ) {
     this._editorViewProvider = new EditorViewProvider();
     this._statusBar = new StatusBarItems();
+    this._gameOutput = new GameOutputView();
+    this._gameConsole = new GameConsoleView();
+    this._exceptionDiagnostics = new ExceptionDiagnostics();
+    this._syntaxDiagnostics = new SyntaxDiagnostics();
+    this._conflictDiagnostics = new ConflictDiagnostics();
+    this._exceptionHistoryProvider = new ExceptionHistoryProvider();
+    this._aliasChainProvider = new AliasChainProvider(aliasChainsReader);
+    this._bundleFileSystemProvider = new BundleFileSystemProvider(
+      bundleEntriesReader
+    );
+    this._bundleFileSystemRegistration =
+      vscode.workspace.registerFileSystemProvider(
+        BundleFileSystemProvider.SCHEME,
+        this._bundleFileSystemProvider,
+        { isCaseSensitive: true, isReadonly: true }
+      );
+    this._scriptSymbolProvider = new ScriptSymbolProvider(
+      scriptSymbolsReader,
+      methodDefinitionsReader,
+      scriptSectionFinder
+    );
+    this._scriptSymbolRegistrations = [
+      vscode.languages.registerWorkspaceSymbolProvider(
+        this._scriptSymbolProvider
+      ),
+      vscode.languages.registerDocumentSymbolProvider(
+        { scheme: 'file', language: 'ruby' },
+        this._scriptSymbolProvider
+      ),
+      vscode.languages.registerDefinitionProvider(
+        { scheme: 'file', language: 'ruby' },
+        this._scriptSymbolProvider
+      ),
+    ];
     this._editorView = vscode.window.createTreeView(
       'rgss-script-editor.editorView',
       {
@@ -86,6 +243,20 @@ export class ExtensionUI {
         showCollapseAll: true,
       }
     );
+    this._exceptionHistoryView = vscode.window.createTreeView(
+      'rgss-script-editor.exceptionHistoryView',
+      {
+        treeDataProvider: this._exceptionHistoryProvider,
+        showCollapseAll: true,
+      }
+    );
+    this._aliasChainsView = vscode.window.createTreeView(
+      'rgss-script-editor.aliasChainsView',
+      {
+        treeDataProvider: this._aliasChainProvider,
+        showCollapseAll: true,
+      }
+    );
 
     // Checkbox click callback.
     this._editorView.onDidChangeCheckboxState((e) => {
@@ -131,7 +302,7 @@ export class ExtensionUI {
     this._statusBar.update(options.statusBarOptions);
 
     // Updates view provider
-    this._editorViewProvider.update(options.treeRoot);
+    this._editorViewProvider.update(options.treeRoots);
   }
 
   /**
@@ -141,6 +312,7 @@ export class ExtensionUI {
    */
   reset() {
     this._editorViewProvider.reset();
+    this._exceptionHistoryProvider.reset();
     this._statusBar.hide();
   }
 
@@ -173,20 +345,198 @@ export class ExtensionUI {
   /**
    * Refreshes the UI contents.
    *
-   * If ``isRoot`` is ``true``, it will update the current root and refresh the whole tree.
+   * If no tree item is given, it will refresh the whole tree.
    *
    * Otherwise it will just refresh the given tree item and all of its children.
    * @param treeItem Tree item to refresh
-   * @param isRoot Whether tree item is root or not
    */
-  refresh(treeItem: EditorSectionBase, isRoot?: boolean) {
-    if (isRoot) {
-      this._editorViewProvider.update(treeItem);
-    } else {
-      this._editorViewProvider.refresh(treeItem);
+  refresh(treeItem?: EditorSectionBase) {
+    this._editorViewProvider.refresh(treeItem);
+  }
+
+  /**
+   * Writes the given game output line.
+   * @param line Game output line
+   */
+  writeGameOutput(line: GameOutputLine) {
+    this._gameOutput.write(line);
+  }
+
+  /**
+   * Opens the console terminal of the given game process.
+   * @param pid Game process PID
+   * @param channel Game console channel
+   */
+  openGameConsole(pid: number, channel: GameChannel) {
+    this._gameConsole.open(pid, channel);
+  }
+
+  /**
+   * Notifies the console terminal of the given game process that the process exited.
+   * @param pid Game process PID
+   */
+  exitGameConsole(pid: number) {
+    this._gameConsole.exit(pid);
+  }
+
+  /**
+   * Shows the given game exception of the given project in the problems panel.
+   *
+   * The previous exception of the project is removed.
+   * @param folder Project folder
+   * @param exception Game exception
+   */
+  showExceptionDiagnostics(folder: vscode.Uri, exception: GameException) {
+    this._exceptionDiagnostics.update(folder, exception);
+  }
+
+  /**
+   * Removes the game exception of the given project from the problems panel.
+   * @param folder Project folder
+   */
+  clearExceptionDiagnostics(folder: vscode.Uri) {
+    this._exceptionDiagnostics.clear(folder);
+  }
+
+  /**
+   * Shows the given script syntax errors in the problems panel.
+   *
+   * The previous syntax errors are removed.
+   * @param errors List of syntax errors
+   */
+  showSyntaxDiagnostics(errors: ControllerSyntaxError[]) {
+    this._syntaxDiagnostics.update(errors);
+  }
+
+  /**
+   * Removes the script syntax errors from the problems panel.
+   */
+  clearSyntaxDiagnostics() {
+    this._syntaxDiagnostics.clear();
+  }
+
+  /**
+   * Shows the given script conflicts in the problems panel.
+   *
+   * The previous script conflicts are removed.
+   * @param conflicts List of script conflicts
+   */
+  showConflictDiagnostics(conflicts: ScriptConflict[]) {
+    this._conflictDiagnostics.update(conflicts);
+  }
+
+  /**
+   * Shows the given exception history in the exception history view.
+   * @param exceptions Exception history
+   */
+  showExceptionHistory(exceptions: GameException[]) {
+    this._exceptionHistoryProvider.update(exceptions);
+  }
+
+  /**
+   * Refreshes the alias chains view reading the alias chains again.
+   */
+  refreshAliasChains() {
+    this._aliasChainProvider.refresh();
+  }
+
+  /**
+   * Writes the given game log records.
+   * @param records Game log records
+   */
+  writeGameLog(records: GameLogRecord[]) {
+    this._gameOutput.writeLog(records);
+  }
+
+  /**
+   * Shows the given list of bundle differences in a multi-diff editor.
+   *
+   * Unchanged sections are not shown.
+   *
+   * If the multi-diff editor is not available, the user can choose a section to show in a diff editor.
+   * @param entries List of bundle differences
+   * @param options Bundle difference options
+   * @returns A promise
+   */
+  async showBundleDiff(
+    entries: BundleDiffEntry[],
+    options: ExtensionUiBundleDiff
+  ) {
+    // Only sections located in a file can be shown
+    const changes = entries.filter(
+      (entry) =>
+        entry.status !== BundleDiffStatus.Unchanged &&
+        (entry.original?.uri || entry.modified?.uri)
+    );
+
+    try {
+      await vscode.commands.executeCommand(
+        'vscode.changes',
+        options.title,
+        changes.map((entry) => [
+          entry.modified?.uri || entry.original?.uri,
+          entry.original?.uri,
+          entry.modified?.uri,
+        ])
+      );
+    } catch (error) {
+      // Multi-diff editor is not available, fallback to a single diff editor
+      const pick = await vscode.window.showQuickPick(
+        changes.map((entry) => {
+          return {
+            label: (entry.modified || entry.original)!.name,
+            description: this._bundleDiffStatusString(entry.status),
+            entry: entry,
+          };
+        }),
+        { title: options.title, placeHolder: strings.COMPARE_PICK_PLACEHOLDER }
+      );
+
+      // Opens the difference of the chosen section
+      if (pick) {
+        const original = pick.entry.original?.uri;
+        const modified = pick.entry.modified?.uri;
+        if (original && modified) {
+          await vscode.commands.executeCommand(
+            'vscode.diff',
+            original,
+            modified,
+            `${options.title}: ${pick.label}`
+          );
+        } else {
+          // Added and removed sections have nothing to compare with
+          await vscode.commands.executeCommand(
+            'vscode.open',
+            original || modified
+          );
+        }
+      }
     }
   }
 
+  /**
+   * Opens the given bundle file as a read-only workspace folder.
+   *
+   * The folder is added at the end of the workspace folders.
+   * @param bundleFile Bundle file path
+   * @returns Whether the folder was added or not
+   */
+  openBundleFolder(bundleFile: vscode.Uri) {
+    const uri = BundleFileSystemProvider.createUri(bundleFile);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.some((folder) => folder.uri.toString() === uri.toString())) {
+      vscode.commands.executeCommand('workbench.view.explorer');
+      return true;
+    }
+    return vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+      uri: uri,
+      name: vscode.l10n.t(
+        strings.OPEN_BUNDLE_FOLDER_NAME,
+        path.basename(bundleFile.fsPath)
+      ),
+    });
+  }
+
   /**
    * Shows all extension UI elements.
    */
@@ -220,5 +570,59 @@ export class ExtensionUI {
 
     // Disposes the editor view
     this._editorView?.dispose();
+
+    // Disposes the bundle file system provider
+    this._bundleFileSystemRegistration.dispose();
+    this._bundleFileSystemProvider.dispose();
+
+    // Disposes the script symbol provider
+    this._scriptSymbolRegistrations.forEach((registration) =>
+      registration.dispose()
+    );
+
+    // Disposes the game output
+    this._gameOutput.dispose();
+
+    // Disposes the game console terminals
+    this._gameConsole.dispose();
+
+    // Disposes the game exception diagnostics
+    this._exceptionDiagnostics.dispose();
+
+    // Disposes the script syntax diagnostics
+    this._syntaxDiagnostics.dispose();
+
+    // Disposes the script conflict diagnostics
+    this._conflictDiagnostics.dispose();
+
+    // Disposes the exception history view
+    this._exceptionHistoryView?.dispose();
+    this._exceptionHistoryProvider.dispose();
+
+    // Disposes the alias chains view
+    this._aliasChainsView?.dispose();
+    this._aliasChainProvider.dispose();
+  }
+
+  /**
+   * Gets the given bundle difference status as a string.
+   * @param status Bundle difference status
+   * @returns Status stringified
+   */
+  private _bundleDiffStatusString(status: BundleDiffStatus) {
+    switch (status) {
+      case BundleDiffStatus.Added:
+        return strings.COMPARE_STATUS_ADDED;
+      case BundleDiffStatus.Removed:
+        return strings.COMPARE_STATUS_REMOVED;
+      case BundleDiffStatus.Renamed:
+        return strings.COMPARE_STATUS_RENAMED;
+      case BundleDiffStatus.RenamedModified:
+        return `${strings.COMPARE_STATUS_RENAMED}, ${strings.COMPARE_STATUS_MODIFIED}`;
+      case BundleDiffStatus.Modified:
+        return strings.COMPARE_STATUS_MODIFIED;
+      default:
+        return strings.COMPARE_STATUS_UNCHANGED;
+    }
   }
 }
@@ -1,6 +1,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import * as vscode from 'vscode';
+import { splitShellWords } from './shellwords';
 
 /**
  * Project folder information.
@@ -22,6 +23,90 @@ export type FolderInfo = {
   rgssVersion: string;
 };
 
+/**
+ * Additional bundle file configuration.
+ *
+ * Paths are relative to the project folder.
+ */
+export type AdditionalBundle = {
+  /**
+   * Bundle name.
+   */
+  name: string;
+
+  /**
+   * Relative path to the bundle file.
+   */
+  bundleFile: string;
+
+  /**
+   * Relative path to the scripts folder of the bundle.
+   */
+  scriptsFolder: string;
+};
+
+/**
+ * Game launch profile configuration.
+ *
+ * Attributes that are not set fall back to the gameplay settings.
+ */
+export type LaunchProfile = {
+  /**
+   * Profile name.
+   */
+  name: string;
+
+  /**
+   * Relative path to the game executable.
+   */
+  executablePath?: string;
+
+  /**
+   * Runner used to launch the game executable.
+   */
+  runner?: string;
+
+  /**
+   * Game executable arguments.
+   */
+  arguments?: string[];
+
+  /**
+   * Environment variables of the game process.
+   */
+  environment?: Record<string, string>;
+
+  /**
+   * Wine prefix used to run the game.
+   */
+  winePrefix?: string;
+
+  /**
+   * Action executed before launching the game.
+   */
+  preLaunchAction?: string;
+};
+
+/**
+ * Additional bundle file information.
+ */
+export type BundleInfo = {
+  /**
+   * Bundle name.
+   */
+  name: string;
+
+  /**
+   * Absolute path to the bundle file.
+   */
+  bundleFilePath: vscode.Uri;
+
+  /**
+   * Absolute path to the scripts folder of the bundle.
+   */
+  scriptsPath: vscode.Uri;
+};
+
 /**
  * Return type when changing the current project folder.
  */
@@ -39,6 +124,35 @@ export const enum RunGameBehavior {
   ALLOW_MULTIPLE = 'allow multiple',
 }
 
+/**
+ * Enum of launch profile pre-launch actions
+ */
+export const enum PreLaunchAction {
+  NONE = 'none',
+  CREATE_SCRIPT_LOADER = 'create script loader',
+  COMPILE_BUNDLE = 'compile bundle',
+}
+
+/**
+ * Enum of game runners
+ */
+export const enum GameRunner {
+  AUTO = 'auto',
+  NATIVE = 'native',
+  WINE = 'wine',
+  PROTON = 'proton',
+  MKXP_Z = 'mkxp-z',
+}
+
+/**
+ * Enum of game output targets
+ */
+export const enum GameOutput {
+  NONE = 'none',
+  OUTPUT_CHANNEL = 'output channel',
+  TERMINAL = 'terminal',
+}
+
 /**
  * Enum of script name validation types
  */
@@ -66,6 +180,15 @@ const enum RGSSGameArgsTest {
   RGSS3 = 'test',
 }
 
+/**
+ * Enum of valid game battle test arguments based on the RGSS version.
+ */
+const enum RGSSGameArgsBattleTest {
+  RGSS1 = 'btest',
+  RGSS2 = 'btest',
+  RGSS3 = 'btest',
+}
+
 /**
  * Enum of valid game console arguments based on the RGSS version.
  */
@@ -103,6 +226,38 @@ type DeterminePathOptions = {
   removeFilePart?: boolean;
 };
 
+/**
+ * Setting schema type.
+ *
+ * Subset of the JSON schema used by the extension's contributed settings.
+ */
+type SettingSchema = {
+  /**
+   * Setting value type.
+   */
+  type?: string;
+
+  /**
+   * List of allowed values.
+   */
+  enum?: unknown[];
+
+  /**
+   * Schema of the array items.
+   */
+  items?: SettingSchema;
+
+  /**
+   * Schema of the object properties.
+   */
+  properties?: Record<string, SettingSchema>;
+
+  /**
+   * List of required object properties.
+   */
+  required?: string[];
+};
+
 /**
  * Determine extension options
  */
@@ -113,6 +268,16 @@ type DetermineExtensionOptions = {
   removeDot?: boolean;
 };
 
+/**
+ * Determine game arguments options
+ */
+type DetermineGameArgsOptions = {
+  /**
+   * Whether to launch the game in battle test mode or not
+   */
+  battleTest?: boolean;
+};
+
 /**
  * Configuration class
  */
@@ -133,6 +298,54 @@ export class Configuration {
    */
   public static GAME_OUTPUT_FILE = 'game.log';
 
+  /**
+   * Game log records file name.
+   *
+   * This file is written by the game while it is running.
+   *
+   * Each line is a log record with its fields separated by tabs.
+   */
+  public static GAME_RECORDS_FILE = 'game_records.tsv';
+
+  /**
+   * Game debugger events file name.
+   *
+   * This file is written by the game debug agent while it is being debugged.
+   */
+  public static DEBUG_EVENTS_FILE = 'debug_events.tsv';
+
+  /**
+   * Game debugger commands file name.
+   *
+   * This file is written by the extension debugger and read by the game debug agent.
+   */
+  public static DEBUG_COMMANDS_FILE = 'debug_commands.tsv';
+
+  /**
+   * Game script reloads file name.
+   *
+   * This file is written by the extension and read by the game to reload scripts.
+   */
+  public static GAME_RELOADS_FILE = 'script_reloads.tsv';
+
+  /**
+   * Game console requests file name.
+   *
+   * This file is written by the extension console and read by the game.
+   *
+   * ``{0}`` is replaced with the console ID of the game process.
+   */
+  public static CONSOLE_REQUESTS_FILE = 'console_requests_{0}.tsv';
+
+  /**
+   * Game console results file name.
+   *
+   * This file is written by the game and read by the extension console.
+   *
+   * ``{0}`` is replaced with the console ID of the game process.
+   */
+  public static CONSOLE_RESULTS_FILE = 'console_results_{0}.tsv';
+
   /**
    * File name of the backup file that the user creates from the extracted scripts.
    *
@@ -154,6 +367,21 @@ export class Configuration {
    */
   public static COMPILE_SCRIPTS_FILE_NAME = 'Scripts';
 
+  /**
+   * Relative path to the project settings file.
+   *
+   * This file overrides the workspace settings and it is meant to be shared with the project.
+   */
+  public static PROJECT_CONFIG_FILE = '.rgss-script-editor/config.json';
+
+  /**
+   * Relative path to the exception history file.
+   *
+   * This file keeps the exceptions reported by the game between sessions.
+   */
+  public static EXCEPTION_HISTORY_FILE =
+    '.rgss-script-editor/exception_history.json';
+
   /**
    * RGSS Version.
    */
@@ -169,6 +397,13 @@ export class Configuration {
    */
   private _projectFolderName?: string;
 
+  /**
+   * Project settings.
+   *
+   * Settings read from the project settings file that override the workspace settings.
+   */
+  private _projectConfig: Map<string, unknown>;
+
   /**
    * Constructor.
    */
@@ -176,6 +411,7 @@ export class Configuration {
     this._rgssVersion = undefined;
     this._projectFolderPath = undefined;
     this._projectFolderName = undefined;
+    this._projectConfig = new Map();
   }
 
   /**
@@ -239,6 +475,22 @@ export class Configuration {
     return this._getVSCodeConfig<boolean>('extension.recreateScriptLoader')!;
   }
 
+  /**
+   * Gets the extension deterministic compile flag.
+   * @returns Deterministic compile flag.
+   */
+  configDeterministicCompile(): boolean {
+    return this._getVSCodeConfig<boolean>('extension.deterministicCompile')!;
+  }
+
+  /**
+   * Gets the extension syntax check flag.
+   * @returns Syntax check flag.
+   */
+  configSyntaxCheck(): boolean {
+    return this._getVSCodeConfig<boolean>('extension.syntaxCheck')!;
+  }
+
   /**
    * Gets the script name validation mode.
    * @returns Script name validation mode.
@@ -303,6 +555,16 @@ export class Configuration {
     return this._getVSCodeConfig<string>('external.gameLogFileFolder')!;
   }
 
+  /**
+   * Gets the list of additional bundle files of the project.
+   * @returns Additional bundle files.
+   */
+  configAdditionalBundles(): AdditionalBundle[] {
+    return this._getVSCodeConfig<AdditionalBundle[]>(
+      'external.additionalBundles'
+    )!;
+  }
+
   /**
    * Gets the project relative path to the compiled scripts folder.
    * @returns Scripts compiled folder path.
@@ -327,6 +589,48 @@ export class Configuration {
     return this._getVSCodeConfig<string>('gameplay.useWine')!;
   }
 
+  /**
+   * Gets the runner used to launch the game executable.
+   * @returns Game runner.
+   */
+  configGameRunner(): string {
+    return this._getVSCodeConfig<string>('gameplay.runner')!;
+  }
+
+  /**
+   * Gets the Proton command to run the executable in Linux.
+   * @returns Proton command.
+   */
+  configProtonCommand(): string {
+    return this._getVSCodeConfig<string>('gameplay.protonCommand')!;
+  }
+
+  /**
+   * Gets the mkxp-z command to run the game.
+   * @returns mkxp-z command.
+   */
+  configMkxpCommand(): string {
+    return this._getVSCodeConfig<string>('gameplay.mkxpCommand')!;
+  }
+
+  /**
+   * Gets the environment variables of the game process.
+   * @returns Environment variables.
+   */
+  configGameEnvironment(): Record<string, string> {
+    return this._getVSCodeConfig<Record<string, string>>(
+      'gameplay.environment'
+    )!;
+  }
+
+  /**
+   * Gets the Wine prefix used to run the game.
+   * @returns Wine prefix.
+   */
+  configWinePrefix(): string {
+    return this._getVSCodeConfig<string>('gameplay.winePrefix')!;
+  }
+
   /**
    * Gets the run game behavior
    * @returns Run game behavior
@@ -335,6 +639,14 @@ export class Configuration {
     return this._getVSCodeConfig<string>('gameplay.runGameBehavior')!;
   }
 
+  /**
+   * Gets the game output target
+   * @returns Game output target
+   */
+  configGameOutput(): string {
+    return this._getVSCodeConfig<string>('gameplay.gameOutput')!;
+  }
+
   /**
    * Gets the game executable automatic arguments detection mode.
    *
@@ -391,6 +703,50 @@ export class Configuration {
     )!;
   }
 
+  /**
+   * Gets whether scripts are reloaded in the running game when they change.
+   * @returns Auto reload flag.
+   */
+  configGameAutoReload(): boolean {
+    return this._getVSCodeConfig<boolean>('gameplay.scriptAutoReload')!;
+  }
+
+  /**
+   * Gets the list of game launch profiles.
+   * @returns Launch profiles.
+   */
+  configLaunchProfiles(): LaunchProfile[] {
+    return this._getVSCodeConfig<LaunchProfile[]>('gameplay.launchProfiles')!;
+  }
+
+  /**
+   * Gets the name of the active game launch profile.
+   * @returns Launch profile name.
+   */
+  configLaunchProfile(): string {
+    return this._getVSCodeConfig<string>('gameplay.launchProfile')!;
+  }
+
+  /**
+   * Updates the active game launch profile.
+   *
+   * The project settings file is updated if it overrides the launch profile.
+   * @param name Launch profile name.
+   */
+  async updateLaunchProfile(name: string) {
+    await this._updateVSCodeConfig('gameplay.launchProfile', name);
+  }
+
+  /**
+   * Updates the auto reload flag.
+   *
+   * The project settings file is updated if it overrides the flag.
+   * @param value Auto reload flag.
+   */
+  async updateGameAutoReload(value: boolean) {
+    await this._updateVSCodeConfig('gameplay.scriptAutoReload', value);
+  }
+
   /**
    * Checks if this configuration instance is valid.
    *
@@ -474,6 +830,7 @@ export class Configuration {
     if (info) {
       // RGSS version found, valid RPG Maker project folder.
       let oldProjectFolder = this.getInfo();
+      this._projectConfig.clear();
       this._rgssVersion = info.rgssVersion;
       this._projectFolderPath = info.projectFolderPath;
       this._projectFolderName = info.projectFolderName;
@@ -483,12 +840,62 @@ export class Configuration {
       this._rgssVersion = undefined;
       this._projectFolderPath = undefined;
       this._projectFolderName = undefined;
+      this._projectConfig.clear();
       throw new Error(
         `Cannot update to folder: ${folder.fsPath}. A valid RGSS version was not detected!`
       );
     }
   }
 
+  /**
+   * Loads the project settings file of the current project folder.
+   *
+   * Each valid setting of the file overrides the workspace setting with the same key.
+   *
+   * Keys can be written with or without the ``rgssScriptEditor.`` prefix.
+   *
+   * Settings that are unknown or that do not match the extension's setting schema are ignored.
+   *
+   * If the file does not exist, the workspace settings are used.
+   * @returns List of ignored setting keys
+   * @throws An error if the file is not a valid JSON object
+   */
+  loadProjectConfig(): string[] {
+    let ignored: string[] = [];
+    this._projectConfig.clear();
+    const configPath = this.determineProjectConfigPath();
+    if (!configPath || !fs.existsSync(configPath.fsPath)) {
+      return ignored;
+    }
+
+    // Parses the project settings file
+    const contents = JSON.parse(fs.readFileSync(configPath.fsPath, 'utf8'));
+    if (
+      typeof contents !== 'object' ||
+      contents === null ||
+      Array.isArray(contents)
+    ) {
+      throw new Error(
+        `The project settings file: "${configPath.fsPath}" must be a JSON object!`
+      );
+    }
+
+    // Validates each setting against the contributed settings schema
+    const schemas: Record<string, SettingSchema> =
+      vscode.extensions.getExtension('SnowSzn.rgss-script-editor')?.packageJSON
+        ?.contributes?.configuration?.properties ?? {};
+    for (const [entry, value] of Object.entries(contents)) {
+      const key = entry.replace(/^rgssScriptEditor\./, '');
+      const schema = schemas[`rgssScriptEditor.${key}`];
+      if (schema && this._validateSetting(schema, value)) {
+        this._projectConfig.set(key, value);
+      } else {
+        ignored.push(entry);
+      }
+    }
+    return ignored;
+  }
+
   /**
    * Determines the path to the game scripts bundle file.
    *
@@ -518,6 +925,82 @@ export class Configuration {
     return bundle ? this.joinProject(bundle) : undefined;
   }
 
+  /**
+   * Determines the information of all additional bundle files of the project.
+   *
+   * Invalid entries and entries with a duplicated name are ignored.
+   *
+   * Entries whose scripts folder overlaps the scripts folder of another bundle are ignored.
+   *
+   * If the folder is not valid, it returns an empty list.
+   * @returns List of additional bundle files
+   */
+  determineAdditionalBundles(): BundleInfo[] {
+    let bundles: BundleInfo[] = [];
+    if (!this.isValid()) {
+      return bundles;
+    }
+
+    for (const entry of this.configAdditionalBundles() || []) {
+      // Checks entry validness
+      if (
+        !entry?.name ||
+        !entry?.bundleFile ||
+        !entry?.scriptsFolder ||
+        bundles.some((bundle) => bundle.name === entry.name)
+      ) {
+        continue;
+      }
+
+      // Bundles cannot share their files with other bundles
+      const bundleFilePath = this.joinProject(entry.bundleFile)!;
+      const scriptsPath = this.joinProject(entry.scriptsFolder)!;
+      const mainScriptsPath = this.determineScriptsPath();
+      if (
+        bundleFilePath.fsPath === this.determineBundleFilePath()?.fsPath ||
+        (mainScriptsPath && this._overlaps(scriptsPath, mainScriptsPath)) ||
+        bundles.some(
+          (bundle) =>
+            bundle.bundleFilePath.fsPath === bundleFilePath.fsPath ||
+            this._overlaps(bundle.scriptsPath, scriptsPath)
+        )
+      ) {
+        continue;
+      }
+
+      bundles.push({
+        name: entry.name,
+        bundleFilePath: bundleFilePath,
+        scriptsPath: scriptsPath,
+      });
+    }
+    return bundles;
+  }
+
+  /**
+   * Determines the path to the project settings file.
+   *
+   * The path is based on the current active folder.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   * @returns Project settings file uri path
+   */
+  determineProjectConfigPath() {
+    return this.joinProject(Configuration.PROJECT_CONFIG_FILE);
+  }
+
+  /**
+   * Determines the path to the exception history file.
+   *
+   * The path is based on the current active folder.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   * @returns Exception history file uri path
+   */
+  determineExceptionHistoryPath() {
+    return this.joinProject(Configuration.EXCEPTION_HISTORY_FILE);
+  }
+
   /**
    * Determines the path to the backups folder.
    *
@@ -594,6 +1077,106 @@ export class Configuration {
     }
   }
 
+  /**
+   * Determines the path to the game's log records file.
+   *
+   * This file is used by the extension to show the game log records.
+   *
+   * The path is based on the current active folder.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   *
+   * @param options Options
+   * @returns Game log records file uri path
+   */
+  determineGameRecordsPath(options?: DeterminePathOptions) {
+    if (options?.removeFilePart) {
+      return this.joinProject(this.configGameLogFileFolder());
+    } else {
+      return this.joinProject(
+        this.configGameLogFileFolder(),
+        Configuration.GAME_RECORDS_FILE
+      );
+    }
+  }
+
+  /**
+   * Determines the path to the game debugger events file.
+   *
+   * The path is based on the current active folder.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   * @returns Game debugger events file uri path
+   */
+  determineDebugEventsPath() {
+    return this.joinProject(
+      this.configGameLogFileFolder(),
+      Configuration.DEBUG_EVENTS_FILE
+    );
+  }
+
+  /**
+   * Determines the path to the game debugger commands file.
+   *
+   * The path is based on the current active folder.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   * @returns Game debugger commands file uri path
+   */
+  determineDebugCommandsPath() {
+    return this.joinProject(
+      this.configGameLogFileFolder(),
+      Configuration.DEBUG_COMMANDS_FILE
+    );
+  }
+
+  /**
+   * Determines the path to the game script reloads file.
+   *
+   * The path is based on the current active folder.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   * @returns Game script reloads file uri path
+   */
+  determineGameReloadsPath() {
+    return this.joinProject(
+      this.configGameLogFileFolder(),
+      Configuration.GAME_RELOADS_FILE
+    );
+  }
+
+  /**
+   * Determines the path to the game console requests file of the given console ID.
+   *
+   * The path is based on the current active folder.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   * @param consoleId Console ID of the game process
+   * @returns Game console requests file uri path
+   */
+  determineConsoleRequestsPath(consoleId: string) {
+    return this.joinProject(
+      this.configGameLogFileFolder(),
+      Configuration.CONSOLE_REQUESTS_FILE.replace('{0}', consoleId)
+    );
+  }
+
+  /**
+   * Determines the path to the game console results file of the given console ID.
+   *
+   * The path is based on the current active folder.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   * @param consoleId Console ID of the game process
+   * @returns Game console results file uri path
+   */
+  determineConsoleResultsPath(consoleId: string) {
+    return this.joinProject(
+      this.configGameLogFileFolder(),
+      Configuration.CONSOLE_RESULTS_FILE.replace('{0}', consoleId)
+    );
+  }
+
   /**
    * Determines the path to the scripts compile folder from the current project's folder.
    *
@@ -619,6 +1202,19 @@ export class Configuration {
     }
   }
 
+  /**
+   * Determines the path to the given game data file.
+   *
+   * The file extension is appended based on the RGSS version detected.
+   *
+   * If the folder is not valid, it returns ``undefined``
+   * @param name Data file name (without extension)
+   * @returns Data file uri path
+   */
+  determineDataFilePath(name: string) {
+    return this.joinProject('Data', name.concat(this.determineExtension()));
+  }
+
   /**
    * Determines the path to the game executable.
    *
@@ -628,25 +1224,172 @@ export class Configuration {
    * @returns Game executable uri path
    */
   determineGamePath() {
-    return this.joinProject(this.configExeGamePath());
+    return this.joinProject(
+      this.determineLaunchProfile()?.executablePath || this.configExeGamePath()
+    );
+  }
+
+  /**
+   * Determines the list of valid game launch profiles.
+   *
+   * Profiles without a name or with a duplicated name are ignored.
+   * @returns List of launch profiles
+   */
+  determineLaunchProfiles(): LaunchProfile[] {
+    let profiles: LaunchProfile[] = [];
+    for (const entry of this.configLaunchProfiles() || []) {
+      if (
+        entry?.name &&
+        !profiles.some((profile) => profile.name === entry.name)
+      ) {
+        profiles.push(entry);
+      }
+    }
+    return profiles;
+  }
+
+  /**
+   * Determines the active game launch profile.
+   *
+   * If no profile is active or the active profile does not exist it returns ``undefined``.
+   * @returns Launch profile
+   */
+  determineLaunchProfile() {
+    const name = this.configLaunchProfile();
+    return name
+      ? this.determineLaunchProfiles().find((profile) => profile.name === name)
+      : undefined;
+  }
+
+  /**
+   * Determines the environment variables of the game process.
+   *
+   * Variables of the active game launch profile override the gameplay settings.
+   *
+   * The Wine prefix is included as the ``WINEPREFIX`` variable, Proton uses it as the
+   * ``STEAM_COMPAT_DATA_PATH`` variable.
+   * @returns Environment variables
+   */
+  determineGameEnvironment(): Record<string, string> {
+    let environment: Record<string, string> = {};
+    const profile = this.determineLaunchProfile();
+    for (const [key, value] of Object.entries({
+      ...this.configGameEnvironment(),
+      ...profile?.environment,
+    })) {
+      if (typeof value === 'string') {
+        environment[key] = value;
+      }
+    }
+    const winePrefix = profile?.winePrefix || this.configWinePrefix();
+    if (winePrefix) {
+      if (this.determineGameRunner() === GameRunner.PROTON) {
+        environment['STEAM_COMPAT_DATA_PATH'] = winePrefix;
+      } else {
+        environment['WINEPREFIX'] = winePrefix;
+      }
+    }
+    return environment;
+  }
+
+  /**
+   * Determines the runner used to launch the game executable.
+   *
+   * The runner of the active game launch profile overrides the gameplay settings.
+   *
+   * If the runner is unknown it returns the automatic runner.
+   * @returns Game runner
+   */
+  determineGameRunner(): string {
+    const runner =
+      this.determineLaunchProfile()?.runner || this.configGameRunner();
+    switch (runner) {
+      case GameRunner.NATIVE:
+      case GameRunner.WINE:
+      case GameRunner.PROTON:
+      case GameRunner.MKXP_Z:
+        return runner;
+      default:
+        return GameRunner.AUTO;
+    }
+  }
+
+  /**
+   * Determines the command line words used to invoke the given game runner.
+   *
+   * The native runner has no command, it returns an empty list.
+   * @param runner Game runner
+   * @returns List of command words
+   * @throws An error if the runner command has an unterminated quote
+   */
+  determineRunnerCommand(runner: string): string[] {
+    switch (runner) {
+      case GameRunner.WINE:
+        return splitShellWords(this.configUseWine());
+      case GameRunner.PROTON:
+        return splitShellWords(this.configProtonCommand());
+      case GameRunner.MKXP_Z:
+        return splitShellWords(this.configMkxpCommand());
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Determines the pre-launch action of the active game launch profile.
+   * @returns Pre-launch action
+   */
+  determinePreLaunchAction(): string {
+    const action = this.determineLaunchProfile()?.preLaunchAction;
+    switch (action) {
+      case PreLaunchAction.CREATE_SCRIPT_LOADER:
+      case PreLaunchAction.COMPILE_BUNDLE:
+        return action;
+      default:
+        return PreLaunchAction.NONE;
+    }
   }
 
   /**
    * Determines the appropiate game executable arguments.
    *
+   * If the active launch profile has arguments, they are used instead of the settings.
+   *
    * If automatic argument detection is enabled it will ignore custom arguments.
    *
+   * In battle test mode, the battle test argument is used instead of the test argument.
+   *
+   * Custom arguments are split like a shell command line, quotes can be used to include whitespaces.
+   *
    * If the arguments cannot be determined it returns ``undefined``.
+   * @param options Game arguments options.
    * @returns List of game arguments.
+   * @throws An error if the custom arguments have an unterminated quote
    */
-  determineGameArgs(): string[] | undefined {
+  determineGameArgs(options?: DetermineGameArgsOptions): string[] | undefined {
     let args: string[] = [];
+    // Battle test argument (prepended to profile and custom arguments)
+    const battleTest = options?.battleTest
+      ? this.determineBattleTestArg()
+      : undefined;
+    if (options?.battleTest && !battleTest) {
+      return undefined;
+    }
+    // Launch profile arguments
+    const profile = this.determineLaunchProfile();
+    if (profile?.arguments) {
+      return battleTest
+        ? [battleTest, ...profile.arguments]
+        : [...profile.arguments];
+    }
     // Auto. arguments detection enabled
     if (this.configExeArgsDetection()) {
       switch (this._rgssVersion) {
         case RGSSVersion.RGSS1: {
           // Test argument
-          if (this.configExeTestMode() && !!RGSSGameArgsTest.RGSS1) {
+          if (battleTest) {
+            args.push(battleTest);
+          } else if (this.configExeTestMode() && !!RGSSGameArgsTest.RGSS1) {
             args.push(RGSSGameArgsTest.RGSS1);
           }
           // Console argument
@@ -657,7 +1400,9 @@ export class Configuration {
         }
         case RGSSVersion.RGSS2: {
           // Test argument
-          if (this.configExeTestMode() && !!RGSSGameArgsTest.RGSS2) {
+          if (battleTest) {
+            args.push(battleTest);
+          } else if (this.configExeTestMode() && !!RGSSGameArgsTest.RGSS2) {
             args.push(RGSSGameArgsTest.RGSS2);
           }
           // Console argument
@@ -668,7 +1413,9 @@ export class Configuration {
         }
         case RGSSVersion.RGSS3: {
           // Test argument
-          if (this.configExeTestMode() && !!RGSSGameArgsTest.RGSS3) {
+          if (battleTest) {
+            args.push(battleTest);
+          } else if (this.configExeTestMode() && !!RGSSGameArgsTest.RGSS3) {
             args.push(RGSSGameArgsTest.RGSS3);
           }
           // Console argument
@@ -683,15 +1430,33 @@ export class Configuration {
       }
     } else {
       // Custom arguments
-      this.configExeCustomArgs()
-        ?.split(' ')
-        .forEach((arg) => {
-          args.push(arg);
-        });
+      if (battleTest) {
+        args.push(battleTest);
+      }
+      args.push(...splitShellWords(this.configExeCustomArgs() ?? ''));
       return args;
     }
   }
 
+  /**
+   * Determines the game battle test argument based on the RGSS version detected.
+   *
+   * If the RGSS version is unknown it returns ``undefined``.
+   * @returns Battle test argument
+   */
+  determineBattleTestArg() {
+    switch (this._rgssVersion) {
+      case RGSSVersion.RGSS1:
+        return RGSSGameArgsBattleTest.RGSS1;
+      case RGSSVersion.RGSS2:
+        return RGSSGameArgsBattleTest.RGSS2;
+      case RGSSVersion.RGSS3:
+        return RGSSGameArgsBattleTest.RGSS3;
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Determines the file EOL that the extension should use
    * @returns File EOL
@@ -759,6 +1524,26 @@ export class Configuration {
     }
   }
 
+  /**
+   * Determines where the game output is shown.
+   *
+   * If the target is unknown, the game output is not captured.
+   * @returns Game output target
+   */
+  determineGameOutput(): string {
+    let gameOutput = this.configGameOutput();
+
+    // Checks target validness and returns the appropiate value
+    switch (gameOutput) {
+      case GameOutput.NONE:
+      case GameOutput.OUTPUT_CHANNEL:
+      case GameOutput.TERMINAL:
+        return gameOutput;
+      default:
+        return GameOutput.NONE;
+    }
+  }
+
   /**
    * Joins all given path segments to the current project folder path.
    *
@@ -887,9 +1672,123 @@ export class Configuration {
    * @returns
    */
   private _getVSCodeConfig<T>(key: string): T | undefined {
+    if (this._projectConfig.has(key)) {
+      return this._projectConfig.get(key) as T;
+    }
     return vscode.workspace.getConfiguration('rgssScriptEditor').get<T>(key);
   }
 
+  /**
+   * Updates the configuration value where it is read from.
+   *
+   * If the key is overridden by the project settings file, the file is updated,
+   * otherwise the value is written in the workspace settings.
+   * @param key Configuration key
+   * @param value Configuration value
+   * @throws An error if the project settings file cannot be written
+   */
+  private async _updateVSCodeConfig(key: string, value: unknown) {
+    const configPath = this.determineProjectConfigPath();
+    if (configPath && this._projectConfig.has(key)) {
+      const contents = JSON.parse(fs.readFileSync(configPath.fsPath, 'utf8'));
+      Object.keys(contents).forEach((entry) => {
+        if (entry.replace(/^rgssScriptEditor\./, '') === key) {
+          contents[entry] = value;
+        }
+      });
+      fs.writeFileSync(
+        configPath.fsPath,
+        `${JSON.stringify(contents, null, 2)}\n`,
+        'utf8'
+      );
+      this._projectConfig.set(key, value);
+      return;
+    }
+    await vscode.workspace
+      .getConfiguration('rgssScriptEditor')
+      .update(key, value, vscode.ConfigurationTarget.Workspace);
+  }
+
+  /**
+   * Checks if the given folders overlap.
+   *
+   * Folders overlap if they are the same folder or if one folder is inside the other.
+   * @param folder Folder path
+   * @param other Other folder path
+   * @returns Whether they overlap or not
+   */
+  private _overlaps(folder: vscode.Uri, other: vscode.Uri) {
+    const isInside = (parent: vscode.Uri, child: vscode.Uri) => {
+      const relative = path.relative(parent.fsPath, child.fsPath);
+      return (
+        relative !== '..' &&
+        !relative.startsWith(`..${path.sep}`) &&
+        !path.isAbsolute(relative)
+      );
+    };
+    return isInside(folder, other) || isInside(other, folder);
+  }
+
+  /**
+   * Checks if the given value matches the given setting schema.
+   * @param schema Setting schema
+   * @param value Setting value
+   * @returns Whether it is valid or not
+   */
+  private _validateSetting(schema: SettingSchema, value: unknown): boolean {
+    // Checks the value type
+    switch (schema.type) {
+      case 'string':
+      case 'boolean':
+        if (typeof value !== schema.type) {
+          return false;
+        }
+        break;
+      case 'number':
+      case 'integer':
+        if (typeof value !== 'number') {
+          return false;
+        }
+        break;
+      case 'array':
+        if (
+          !Array.isArray(value) ||
+          (schema.items &&
+            !value.every((item) => this._validateSetting(schema.items!, item)))
+        ) {
+          return false;
+        }
+        break;
+      case 'object': {
+        if (
+          typeof value !== 'object' ||
+          value === null ||
+          Array.isArray(value)
+        ) {
+          return false;
+        }
+        const object = value as Record<string, unknown>;
+        if (schema.required?.some((property) => !(property in object))) {
+          return false;
+        }
+        for (const [property, propertySchema] of Object.entries(
+          schema.properties ?? {}
+        )) {
+          if (
+            property in object &&
+            !this._validateSetting(propertySchema, object[property])
+          ) {
+            return false;
+          }
+        }
+        break;
+      }
+    }
+
+    // Checks the allowed values
+    return !schema.enum || schema.enum.includes(value);
+  }
+
   /**
    * Formats the current date and returns it as a string.
    * @returns Formatted date.
@@ -0,0 +1,75 @@
+/**
+ * Splits the given command line into a list of words.
+ *
+ * Words are separated by whitespaces, a word can be quoted to include whitespaces:
+ *  - Single quotes keep their contents as they are.
+ *  - Double quotes allow escaping a double quote with a backslash, only if another
+ *    double quote closes the word later (``"C:\Games\"`` ends with a backslash).
+ *
+ * Outside of quotes, a backslash only escapes whitespaces and quotes, so Windows
+ * paths like ``C:\Games\Game.exe`` or ``\\server\share\Game.exe`` are kept as they are.
+ *
+ * Quotes in the middle of a word are joined to it (``--path="My Game"`` is a single word).
+ * @param text Command line
+ * @returns List of words
+ * @throws An error if a quote is not closed
+ */
+export function splitShellWords(text: string): string[] {
+  let words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      // Whitespaces finish the current word
+      if (inWord) {
+        words.push(word);
+        word = '';
+        inWord = false;
+      }
+      index++;
+    } else if (char === "'") {
+      // Single quoted text is kept literally
+      const end = text.indexOf("'", index + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated single quote in: "${text}"`);
+      }
+      word += text.substring(index + 1, end);
+      inWord = true;
+      index = end + 1;
+    } else if (char === '"') {
+      // Double quoted text allows escaping double quotes if the quote is closed later
+      index++;
+      while (index < text.length && text[index] !== '"') {
+        if (
+          text[index] === '\\' &&
+          text[index + 1] === '"' &&
+          text.indexOf('"', index + 2) !== -1
+        ) {
+          index++;
+        }
+        word += text[index];
+        index++;
+      }
+      if (index >= text.length) {
+        throw new Error(`Unterminated double quote in: "${text}"`);
+      }
+      inWord = true;
+      index++;
+    } else if (char === '\\' && /[\s"']/.test(text[index + 1] ?? '')) {
+      // Escaped character outside of quotes
+      word += text[index + 1];
+      inWord = true;
+      index += 2;
+    } else {
+      word += char;
+      inWord = true;
+      index++;
+    }
+  }
+  if (inWord) {
+    words.push(word);
+  }
+  return words;
+}
@@ -3,7 +3,7 @@ import { l10n } from 'vscode';
 export const CLOSE = l10n.t('Close');
 
 export const QUICK_START_INFO = l10n.t(
-  'Several RPG Maker folders were detected in the current workspace, choose one to set it as active.'
+  'Several RPG Maker folders were detected in the current workspace, all of them were opened.'
 );
 
 export const SCRIPTS_NOT_EXTRACTED = l10n.t(
@@ -22,6 +22,10 @@ export const SET_PROJECT_FAIL = l10n.t(
   'Failed to open the folder, a valid RGSS version was not detected.'
 );
 
+export const PROJECT_CONFIG_INVALID = l10n.t(
+  'Some project settings are invalid and were ignored! Please check RGSS Script Editor output channel for more information.'
+);
+
 export const ERROR_GENERIC = l10n.t(
   'Something went wrong! Please check RGSS Script Editor output channel for more information.'
 );
@@ -34,6 +38,26 @@ export const SCRIPT_LOADER_SUCCESS = l10n.t(
   'The script loader was created successfully!'
 );
 
+export const RESTORE_BUNDLE_WARNING = l10n.t(
+  'The bundle file will be overwritten with all extracted scripts, replacing the script loader. Disabled sections will be kept disabled. Do you want to continue?'
+);
+
+export const RESTORE_BUNDLE_OPT_RESTORE = l10n.t('Restore Bundle File');
+
+export const RESTORE_BUNDLE_SUCCESS = l10n.t(
+  'The bundle file was restored successfully! You can now edit scripts using the RPG Maker built-in editor.'
+);
+
+export const REEXTRACT_WARNING = l10n.t(
+  'All extracted scripts will be overwritten with the scripts inside the bundle file. Do you want to continue?'
+);
+
+export const REEXTRACT_OPT_EXTRACT = l10n.t('Re-extract Scripts');
+
+export const REEXTRACT_SUCCESS = l10n.t(
+  'Scripts were re-extracted successfully!'
+);
+
 export const BUNDLE_BACKUP_SUCCESS = l10n.t(
   'The backup bundle file was created successfully!'
 );
@@ -56,6 +80,72 @@ export const COMPILE_SCRIPT_SUCCESS = l10n.t(
   'Scripts were compiled successfully!'
 );
 
+export const VERIFY_BUNDLE_SUCCESS = l10n.t(
+  'The bundle file matches the enabled scripts!'
+);
+
+export const VERIFY_BUNDLE_MISMATCH = l10n.t(
+  'The bundle file does not match the enabled scripts! Please check RGSS Script Editor output channel for more information.'
+);
+
+export const MERGE_TITLE = l10n.t('Merge Scripts From Bundle File');
+
+export const MERGE_PLACEHOLDER = l10n.t(
+  'Choose the changes to merge into the script editor...'
+);
+
+export const MERGE_UNNAMED = l10n.t('(Unnamed section)');
+
+export const MERGE_NO_CHANGES = l10n.t('There are no changes to merge.');
+
+export const MERGE_SUCCESS = l10n.t('{0} changes were merged successfully!');
+
+export const MERGE_ENABLED = l10n.t('Enabled');
+
+export const MERGE_DISABLED = l10n.t('Disabled');
+
+export const PICK_BUNDLE_PLACEHOLDER = l10n.t('Choose the bundle file...');
+
+export const COMPARE_PLACEHOLDER = l10n.t('Choose what to compare...');
+
+export const COMPARE_OPT_EDITOR = l10n.t(
+  'Compare the script editor with a bundle file'
+);
+
+export const COMPARE_OPT_BUNDLES = l10n.t('Compare two bundle files');
+
+export const COMPARE_ORIGINAL_TITLE = l10n.t('Choose the original bundle file');
+
+export const COMPARE_MODIFIED_TITLE = l10n.t('Choose the modified bundle file');
+
+export const COMPARE_EDITOR_LABEL = l10n.t('Script Editor');
+
+export const COMPARE_TITLE = l10n.t('Bundle Changes (compared to {0})');
+
+export const OPEN_BUNDLE_FOLDER_TITLE = l10n.t(
+  'Choose the bundle file to open as a folder'
+);
+
+export const OPEN_BUNDLE_FOLDER_NAME = l10n.t('{0} (read-only)');
+
+export const COMPARE_NO_DIFFERENCES = l10n.t(
+  'No differences were found between both bundles.'
+);
+
+export const COMPARE_PICK_PLACEHOLDER = l10n.t(
+  'Choose a section to show its changes...'
+);
+
+export const COMPARE_STATUS_ADDED = l10n.t('Added');
+
+export const COMPARE_STATUS_REMOVED = l10n.t('Removed');
+
+export const COMPARE_STATUS_RENAMED = l10n.t('Renamed');
+
+export const COMPARE_STATUS_MODIFIED = l10n.t('Modified');
+
+export const COMPARE_STATUS_UNCHANGED = l10n.t('Unchanged');
+
 export const PROCESS_EXCEPTION_NO_REPORT = l10n.t(
   'No exception was reported in the last game session.'
 );
@@ -66,6 +156,148 @@ export const PROCESS_EXCEPTION_WARNING = l10n.t(
 
 export const PROCESS_EXCEPTION_OPT_PEEK = l10n.t('Peek Backtrace');
 
+export const DEBUG_CONFIG_NAME = l10n.t('Debug Game');
+
+export const DEBUG_INVALID_PROJECT = l10n.t(
+  'You must open a RPG Maker project to debug the game.'
+);
+
+export const DEBUG_LAUNCH_FAILED = l10n.t(
+  'The game could not be launched, check the output channel for more information.'
+);
+
+export const DEBUG_AGENT_NOT_FOUND = l10n.t(
+  'The game debugger did not start, you may need to create the script loader bundle file again.'
+);
+
+export const DEBUG_NOT_PAUSED = l10n.t(
+  'The game must be paused to evaluate expressions.'
+);
+
+export const RELOAD_SCRIPT_INVALID = l10n.t(
+  'Only script files of the active project can be reloaded.'
+);
+
+export const RELOAD_SCRIPT_NOT_RUNNING = l10n.t(
+  'The game must be running to reload a script.'
+);
+
+export const RELOAD_SCRIPT_DISABLED = l10n.t(
+  'The script is disabled, only enabled scripts can be reloaded.'
+);
+
+export const RELOAD_SCRIPT_ALIASES = l10n.t(
+  'Script "{0}" cannot be reloaded because it aliases methods, reloading it would make the aliased methods call themselves forever. Restart the game to apply the changes.'
+);
+
+export const AUTO_RELOAD_ENABLED = l10n.t(
+  'Scripts will be reloaded in the running game when saved.'
+);
+
+export const AUTO_RELOAD_DISABLED = l10n.t(
+  'Scripts will no longer be reloaded in the running game when saved.'
+);
+
+export const GAME_CONSOLE_NAME = l10n.t('RGSS Console ({0})');
+
+export const GAME_CONSOLE_WELCOME = l10n.t(
+  'Connected to the game process {0}, the code is evaluated inside the running game.'
+);
+
+export const GAME_CONSOLE_EXITED = l10n.t('The game process {0} has exited.');
+
+export const GAME_CONSOLE_NOT_RUNNING = l10n.t(
+  'The game must be running to open the console.'
+);
+
+export const GAME_CONSOLE_PICK_TITLE = l10n.t(
+  'Choose the game process to open the console'
+);
+
+export const GAME_CONSOLE_PICK_LABEL = l10n.t('Game process {0}');
+
+export const LAUNCH_PROFILE_TITLE = l10n.t(
+  'Choose the launch profile used to run the game'
+);
+
+export const LAUNCH_PROFILE_DEFAULT_DESCRIPTION = l10n.t(
+  'Uses the gameplay settings'
+);
+
+export const BATTLE_TEST_TITLE = l10n.t(
+  'Choose the troop used to run the battle test'
+);
+
+export const BATTLE_TEST_NO_TROOPS = l10n.t(
+  'There are no troops in the game database to run a battle test.'
+);
+
+export const BATTLE_TEST_NO_BATTLERS = l10n.t(
+  'The battle test party is empty, set it up in the RPG Maker editor.'
+);
+
+export const SYNTAX_CHECK_FAILED = l10n.t(
+  '{0} scripts have syntax errors! Please check the problems panel for more information.'
+);
+
+export const SYMBOL_ALIAS_DETAIL = l10n.t('alias of {0}');
+
+export const METHOD_DEFINITIONS_TITLE = l10n.t(
+  'Definitions of "{0}" in load order'
+);
+
+export const METHOD_DEFINITIONS_INVALID = l10n.t(
+  'Place the cursor on a method name to show its definitions.'
+);
+
+export const METHOD_DEFINITIONS_NOT_FOUND = l10n.t(
+  'No definitions of "{0}" were found in the scripts.'
+);
+
+export const METHOD_DEFINITIONS_ACTIVE = l10n.t('Used at runtime');
+
+export const METHOD_DEFINITIONS_OVERRIDDEN = l10n.t(
+  'Overridden by a script loaded later'
+);
+
+export const METHOD_DEFINITIONS_DISABLED = l10n.t('Disabled script');
+
+export const ALIAS_CHAIN_ALIAS_COUNT = l10n.t('{0} aliases');
+
+export const ALIAS_CHAIN_CONFLICT_COUNT = l10n.t('{0} conflicts');
+
+export const ALIAS_CHAIN_ACTIVE = l10n.t('This definition is used at runtime');
+
+export const ALIAS_CHAIN_CAPTURED = l10n.t('Saves the definition at {0}');
+
+export const ALIAS_CHAIN_CAPTURED_BUILT_IN = l10n.t(
+  'Saves a built-in method (not defined in the scripts)'
+);
+
+export const ALIAS_CHAIN_ALIAS_REUSED = l10n.t(
+  'The alias name "{0}" was already used at {1}, that alias is overwritten and its method may call itself'
+);
+
+export const ALIAS_CHAIN_OVERWRITTEN = l10n.t(
+  'Overwrites the definition at {0} without aliasing it, the changes of the previous scripts are lost'
+);
+
+export const SCRIPT_CONFLICTS_NONE = l10n.t(
+  'No method definitions of the enabled scripts are shadowed by a later script'
+);
+
+export const SCRIPT_CONFLICTS_FOUND = l10n.t(
+  '{0} method definitions are shadowed by a later script! Please check the problems panel or RGSS Script Editor output channel for more information.'
+);
+
+export const SCRIPT_CONFLICTS_DIAGNOSTIC = l10n.t(
+  '{0} is redefined at {1} without aliasing it, this definition is never used'
+);
+
+export const SCRIPT_CONFLICTS_REDEFINED = l10n.t('Redefined here');
+
+export const EXCEPTION_HISTORY_SESSION_COUNT = l10n.t('{0} exceptions');
+
 export const CREATE_TYPE_TITLE = l10n.t('Create a new section at: {0}');
 
 export const CREATE_TYPE_PLACEHOLDER = l10n.t('Choose new section type...');
@@ -144,6 +376,16 @@ export const UI_RUN_GAME_TEXT = l10n.t('Run Game');
 
 export const UI_RUN_GAME_TOOLTIP = l10n.t('Runs the game executable');
 
+export const UI_LAUNCH_PROFILE_NAME = l10n.t(
+  'RGSS Script Editor: Launch Profile'
+);
+
+export const UI_LAUNCH_PROFILE_DEFAULT = l10n.t('Default');
+
+export const UI_LAUNCH_PROFILE_TOOLTIP = l10n.t(
+  'Chooses the launch profile used to run the game'
+);
+
 export const UI_EXTRACT_NAME = l10n.t('RGSS Script Editor: Extract Scripts');
 
 export const UI_EXTRACT_TEXT = l10n.t('Extract Scripts');